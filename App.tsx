@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { PostInput } from './components/PostInput';
 import { AnalysisDisplay } from './components/AnalysisDisplay';
@@ -7,29 +7,56 @@ import { AutomationDashboard } from './components/AutomationDashboard';
 import { SystemMetrics } from './components/SystemMetrics';
 import { Loader } from './components/Loader';
 import { ErrorDisplay } from './components/ErrorDisplay';
-import { generateReplies, getSystemMetrics, clearCache, analyzeDocument } from './services/geminiService';
+import { generateReplies, getSystemMetrics, clearCache, analyzeDocument, saveDocumentAnalysis, listCacheEntries, evictCacheEntry, type SystemMetricsSnapshot } from './services/geminiService';
+import { type CacheEntrySummary } from './services/response-cache';
+import { isAbortError } from './services/abort';
+import { loadVoiceProfiles, saveVoiceProfile, deleteVoiceProfile } from './services/voice-profiles';
+import { loadStrategyCatalog, getEnabledStrategies, setStrategyEnabled, saveStrategyDefinition, deleteStrategyDefinition } from './services/strategy-catalog';
+import { diffAnalyses } from './services/analysis-diff';
+import { analysisArchive, createArchiveRecord } from './services/analysis-archive';
+import { metricsRegistry } from './services/metrics-registry';
+import { downloadTextFile } from './services/download';
+import { loadDocumentTemplates, getDocumentTemplate, saveDocumentTemplate, deleteDocumentTemplate } from './services/document-templates';
+import { AuthError, toApexError, toXApiError, type ApexError } from './services/errors';
 import { createXAutomationService, DEFAULT_AUTOMATION_CONFIG, DEFAULT_SEARCH_CRITERIA } from './services/x-automation-service';
-import { type PostAnalysis, type ReplyStrategy, type XApiCredentials, type AutomationConfig, type PostSearchCriteria, type PostCandidate, type AutomationResult, type DocumentAnalysis } from './types';
-import { SparklesIcon, BrainCircuitIcon, RiskIcon, DocumentIcon } from './components/icons/Icons';
+import { type PostAnalysis, type ReplyStrategy, type XApiCredentials, type AutomationConfig, type PostSearchCriteria, type PostCandidate, type AutomationResult, type DocumentAnalysis, type DocumentAnalysisProgress, type DocumentQAMessage, type DocumentTemplate, type DocumentThread, type DocumentComparison, type PostAnalysisInput, type ArchivedAnalysis, type StrategyDefinition, type VoiceProfile } from './types';
+import { SparklesIcon, BrainCircuitIcon, RiskIcon, DocumentIcon, HistoryIcon } from './components/icons/Icons';
 import { DocumentAnalysisView } from './components/DocumentAnalysisView';
+import { ArchiveView } from './components/ArchiveView';
 
 
-type ViewMode = 'x-post' | 'document' | 'automation' | 'metrics';
+type ViewMode = 'x-post' | 'document' | 'automation' | 'history' | 'metrics';
 
 export default function App() {
     // X Post analysis state
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<ApexError | null>(null);
     const [analysis, setAnalysis] = useState<PostAnalysis | null>(null);
     const [strategies, setStrategies] = useState<ReplyStrategy[]>([]);
     const [exampleData, setExampleData] = useState<{post: string, author: string} | null>(null);
-    const [lastRequest, setLastRequest] = useState<{postText: string, authorHandle: string} | null>(null);
+    const [lastRequest, setLastRequest] = useState<PostAnalysisInput | null>(null);
+    // Archive record of the session on screen, so refinements and copies are saved to it
+    const [archiveId, setArchiveId] = useState<string | null>(null);
+    const [archivedAnalyses, setArchivedAnalyses] = useState<ArchivedAnalysis[]>([]);
+    // Set when a refinement changed the strategies; the effect that saves them clears it
+    const strategiesEditedRef = useRef(false);
+    // Only the most recent request may write to state; starting a new one aborts the old one
+    const analysisControllerRef = useRef<AbortController | null>(null);
+
+    const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>(() => loadVoiceProfiles());
+    const [strategyCatalog, setStrategyCatalog] = useState<StrategyDefinition[]>(() => loadStrategyCatalog());
 
     // Document analysis state
     const [isDocumentLoading, setIsDocumentLoading] = useState(false);
-    const [documentError, setDocumentError] = useState<string | null>(null);
+    const [documentError, setDocumentError] = useState<ApexError | null>(null);
     const [documentAnalysis, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
-    const [lastDocumentRequest, setLastDocumentRequest] = useState<string | null>(null);
+    const [lastDocumentRequest, setLastDocumentRequest] = useState<{ text: string; template: DocumentTemplate; previousText?: string } | null>(null);
+    const [documentComparison, setDocumentComparison] = useState<DocumentComparison | null>(null);
+    const [documentTemplates, setDocumentTemplates] = useState<DocumentTemplate[]>(() => loadDocumentTemplates());
+    const [documentProgress, setDocumentProgress] = useState<DocumentAnalysisProgress | null>(null);
+    const documentControllerRef = useRef<AbortController | null>(null);
+    // Set when follow-up work changed the analysis; the effect that saves it clears it
+    const documentEditedRef = useRef(false);
     
     // Automation state
     const [viewMode, setViewMode] = useState<ViewMode>('x-post');
@@ -43,7 +70,8 @@ export default function App() {
     const [isAutomationRunning, setIsAutomationRunning] = useState(false);
 
     // System metrics state
-    const [systemMetrics, setSystemMetrics] = useState<any>(null);
+    const [systemMetrics, setSystemMetrics] = useState<SystemMetricsSnapshot | null>(null);
+    const [cacheEntries, setCacheEntries] = useState<CacheEntrySummary[]>([]);
 
     // Initialize automation service when credentials are provided
     useEffect(() => {
@@ -53,7 +81,7 @@ export default function App() {
                 setAutomationService(service);
                 setAutomationStatus(service.getStatus());
             } catch (err) {
-                setError(`Failed to initialize automation: ${err instanceof Error ? err.message : 'Unknown error'}`);
+                setError(toXApiError(err));
             }
         }
     }, [credentials, automationConfig]);
@@ -76,56 +104,237 @@ export default function App() {
     }, []);
 
     // X Post analysis handler
-    const handleAnalyze = useCallback(async (postText: string, authorHandle: string) => {
+    const handleAnalyze = useCallback(async (input: PostAnalysisInput) => {
+        analysisControllerRef.current?.abort();
+        const controller = new AbortController();
+        analysisControllerRef.current = controller;
+
         setIsLoading(true);
         setError(null);
         setAnalysis(null);
         setStrategies([]);
-        setLastRequest({ postText, authorHandle });
+        setLastRequest(input);
+        setArchiveId(null);
 
         try {
-            const result = await generateReplies(postText, authorHandle, {
+            const result = await generateReplies(input.postText, input.authorHandle, {
                 useCache: true,
-                temperature: 0.3
+                temperature: 0.3,
+                signal: controller.signal,
+                context: input.context,
+                media: input.media,
+                voiceProfile: voiceProfiles.find(p => p.id === input.voiceProfileId),
+                targetLanguage: input.targetLanguage,
+                strategies: getEnabledStrategies(strategyCatalog),
             });
+            if (analysisControllerRef.current !== controller) return;
             
             setAnalysis(result.analysis);
             
-            const validStrategies = (result.strategies || []).filter(s => 
-                s && s.scores && typeof s.scores.algorithmScore === 'number'
-            );
-            setStrategies(validStrategies.sort((a, b) => b.scores.algorithmScore - a.scores.algorithmScore));
+            // Strategies are schema-validated in the service, so algorithmScore is always numeric
+            const sorted = [...result.strategies].sort((a, b) => b.scores.algorithmScore - a.scores.algorithmScore);
+            setStrategies(sorted);
+
+            const record = createArchiveRecord(result.analysis, sorted, { voiceProfileId: input.voiceProfileId, targetLanguage: input.targetLanguage, media: input.media });
+            setArchiveId(record.id);
+            analysisArchive.put(record).catch(err => console.warn('Could not archive the analysis:', err));
 
         } catch (err) {
-            if (err instanceof Error) {
-                setError(err.message);
-            } else {
-                setError('An unknown error occurred.');
-            }
+            if (analysisControllerRef.current !== controller || isAbortError(err)) return;
+            setError(toApexError(err));
         } finally {
-            setIsLoading(false);
+            if (analysisControllerRef.current === controller) {
+                analysisControllerRef.current = null;
+                setIsLoading(false);
+            }
+        }
+    }, [voiceProfiles, strategyCatalog]);
+
+    // Refined strategies keep their place; only the card's content changes
+    const handleStrategyChange = useCallback((index: number, strategy: ReplyStrategy) => {
+        // Built from the latest list so overlapping refinements of different cards all survive
+        strategiesEditedRef.current = true;
+        setStrategies(prev => prev.map((s, i) => (i === index ? strategy : s)));
+    }, []);
+
+    useEffect(() => {
+        if (!strategiesEditedRef.current) return;
+        strategiesEditedRef.current = false;
+        if (archiveId) analysisArchive.update(archiveId, { strategies }).catch(err => console.warn('Could not update the archive:', err));
+    }, [strategies, archiveId]);
+
+    const handleReplyCopied = useCallback((strategy: string, variant: 'primary' | 'A' | 'B', text: string) => {
+        if (!archiveId) return;
+        analysisArchive.recordUsage(archiveId, { strategy, variant, action: 'copied', text, at: Date.now() })
+            .catch(err => console.warn('Could not record the copied reply:', err));
+    }, [archiveId]);
+
+    const refreshArchive = useCallback(async () => {
+        try {
+            setArchivedAnalyses(await analysisArchive.list());
+        } catch (err) {
+            console.error('Failed to load the analysis archive:', err);
         }
     }, []);
 
-    const handleAnalyzeDocument = useCallback(async (documentText: string) => {
+    // Load the archive whenever the history view is opened
+    useEffect(() => {
+        if (viewMode === 'history') refreshArchive();
+    }, [viewMode, refreshArchive]);
+
+    // Reopens an archived session exactly as it was left, without calling the model again
+    const handleOpenArchived = useCallback((record: ArchivedAnalysis) => {
+        analysisControllerRef.current?.abort();
+        analysisControllerRef.current = null;
+        setIsLoading(false);
+        setError(null);
+        setAnalysis(record.analysis);
+        setStrategies(record.strategies);
+        setLastRequest({
+            postText: record.analysis.originalPostText,
+            authorHandle: record.analysis.originalAuthorHandle,
+            context: record.analysis.conversationContext,
+            media: record.media,
+            voiceProfileId: record.voiceProfileId,
+            targetLanguage: record.targetLanguage,
+        });
+        setArchiveId(record.id);
+        setViewMode('x-post');
+    }, []);
+
+    const handleDeleteArchived = useCallback(async (id: string) => {
+        await analysisArchive.delete(id);
+        if (id === archiveId) setArchiveId(null);
+        await refreshArchive();
+    }, [archiveId, refreshArchive]);
+
+    const handleSaveVoiceProfile = useCallback((profile: VoiceProfile) => {
+        setVoiceProfiles(saveVoiceProfile(profile));
+    }, []);
+
+    const handleDeleteVoiceProfile = useCallback((id: string) => {
+        setVoiceProfiles(deleteVoiceProfile(id));
+    }, []);
+
+    const handleToggleStrategy = useCallback((id: string, enabled: boolean) => {
+        setStrategyCatalog(setStrategyEnabled(id, enabled));
+    }, []);
+
+    const handleSaveStrategy = useCallback((strategy: StrategyDefinition) => {
+        setStrategyCatalog(saveStrategyDefinition(strategy));
+    }, []);
+
+    const handleDeleteStrategy = useCallback((id: string) => {
+        setStrategyCatalog(deleteStrategyDefinition(id));
+    }, []);
+
+    const handleCancelAnalyze = useCallback(() => {
+        analysisControllerRef.current?.abort();
+        analysisControllerRef.current = null;
+        setIsLoading(false);
+    }, []);
+
+    const handleSaveDocumentTemplate = useCallback((template: DocumentTemplate) => {
+        setDocumentTemplates(saveDocumentTemplate(template));
+    }, []);
+
+    const handleDeleteDocumentTemplate = useCallback((id: string) => {
+        setDocumentTemplates(deleteDocumentTemplate(id));
+    }, []);
+
+    const handleAnalyzeDocument = useCallback(async (documentText: string, templateId?: string) => {
+        const template = getDocumentTemplate(templateId);
+        documentControllerRef.current?.abort();
+        const controller = new AbortController();
+        documentControllerRef.current = controller;
+
         setIsDocumentLoading(true);
         setDocumentError(null);
         setDocumentAnalysis(null);
-        setLastDocumentRequest(documentText);
+        setDocumentComparison(null);
+        setDocumentProgress(null);
+        setLastDocumentRequest({ text: documentText, template });
         try {
-            const result = await analyzeDocument(documentText);
+            const result = await analyzeDocument(documentText, {
+                signal: controller.signal,
+                template,
+                onProgress: (progress) => {
+                    if (documentControllerRef.current === controller) setDocumentProgress(progress);
+                }
+            });
+            if (documentControllerRef.current !== controller) return;
             setDocumentAnalysis(result);
         } catch (err) {
-            if (err instanceof Error) {
-                setDocumentError(err.message);
-            } else {
-                setDocumentError('An unknown error occurred during document analysis.');
+            if (documentControllerRef.current !== controller || isAbortError(err)) return;
+            setDocumentError(toApexError(err));
+        } finally {
+            if (documentControllerRef.current === controller) {
+                documentControllerRef.current = null;
+                setIsDocumentLoading(false);
             }
+        }
+    }, []);
+
+    // Both versions are analyzed (and cached) like single documents, then diffed locally
+    const handleCompareDocuments = useCallback(async (previousText: string, documentText: string, templateId?: string) => {
+        const template = getDocumentTemplate(templateId);
+        documentControllerRef.current?.abort();
+        const controller = new AbortController();
+        documentControllerRef.current = controller;
+
+        setIsDocumentLoading(true);
+        setDocumentError(null);
+        setDocumentAnalysis(null);
+        setDocumentComparison(null);
+        setDocumentProgress(null);
+        setLastDocumentRequest({ text: documentText, template, previousText });
+        try {
+            const [before, after] = await Promise.all([
+                analyzeDocument(previousText, { signal: controller.signal, template }),
+                analyzeDocument(documentText, { signal: controller.signal, template }),
+            ]);
+            if (documentControllerRef.current !== controller) return;
+            setDocumentComparison({ before, after, beforeText: previousText, afterText: documentText, diff: diffAnalyses(before, after, template) });
+        } catch (err) {
+            if (documentControllerRef.current !== controller || isAbortError(err)) return;
+            setDocumentError(toApexError(err));
         } finally {
-            setIsDocumentLoading(false);
+            if (documentControllerRef.current === controller) {
+                documentControllerRef.current = null;
+                setIsDocumentLoading(false);
+            }
         }
     }, []);
 
+    // Follow-up work on an analysis (Q&A, threads) is saved with it
+    const updateDocumentAnalysis = useCallback((changes: Partial<DocumentAnalysis>) => {
+        // Merged into the latest analysis so a Q&A answer and a thread edit landing together both stick
+        documentEditedRef.current = true;
+        setDocumentAnalysis(prev => (prev ? { ...prev, ...changes } : prev));
+    }, []);
+
+    useEffect(() => {
+        if (!documentEditedRef.current) return;
+        documentEditedRef.current = false;
+        if (documentAnalysis && lastDocumentRequest) {
+            saveDocumentAnalysis(lastDocumentRequest.text, documentAnalysis, lastDocumentRequest.template).catch(err => console.warn('Could not save the document analysis:', err));
+        }
+    }, [documentAnalysis, lastDocumentRequest]);
+
+    const handleDocumentConversationChange = useCallback((conversation: DocumentQAMessage[]) => {
+        updateDocumentAnalysis({ conversation });
+    }, [updateDocumentAnalysis]);
+
+    const handleDocumentThreadChange = useCallback((thread: DocumentThread | undefined) => {
+        updateDocumentAnalysis({ thread });
+    }, [updateDocumentAnalysis]);
+
+    const handleCancelDocument = useCallback(() => {
+        documentControllerRef.current?.abort();
+        documentControllerRef.current = null;
+        setIsDocumentLoading(false);
+    }, []);
+
 
     // Load example data
     const handleLoadExample = useCallback(() => {
@@ -150,15 +359,17 @@ export default function App() {
 
     const handleRetry = useCallback(() => {
         if (lastRequest) {
-            handleAnalyze(lastRequest.postText, lastRequest.authorHandle);
+            handleAnalyze(lastRequest);
         }
     }, [lastRequest, handleAnalyze]);
 
     const handleDocumentRetry = useCallback(() => {
-        if (lastDocumentRequest) {
-            handleAnalyzeDocument(lastDocumentRequest);
+        if (lastDocumentRequest?.previousText !== undefined) {
+            handleCompareDocuments(lastDocumentRequest.previousText, lastDocumentRequest.text, lastDocumentRequest.template.id);
+        } else if (lastDocumentRequest) {
+            handleAnalyzeDocument(lastDocumentRequest.text, lastDocumentRequest.template.id);
         }
-    }, [lastDocumentRequest, handleAnalyzeDocument]);
+    }, [lastDocumentRequest, handleAnalyzeDocument, handleCompareDocuments]);
 
     const handleCredentialChange = useCallback((field: keyof XApiCredentials, value: string) => {
         setCredentials(prev => ({
@@ -170,7 +381,7 @@ export default function App() {
     // Automation handlers
     const handleFindCandidates = useCallback(async () => {
         if (!automationService) {
-            setError('Automation service not initialized. Please configure your Twitter Bearer Token first.');
+            setError(new AuthError('Automation service not initialized. Please configure your Twitter Bearer Token first.', { service: 'x' }));
             return;
         }
 
@@ -182,7 +393,7 @@ export default function App() {
             setCandidatePosts(candidates);
             console.log(`Found ${candidates.length} candidate posts`);
         } catch (err) {
-            setError(`Failed to find candidates: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            setError(toXApiError(err));
         } finally {
             setIsAutomationRunning(false);
         }
@@ -190,7 +401,7 @@ export default function App() {
 
     const handleRunAutomation = useCallback(async () => {
         if (!automationService) {
-            setError('Automation service not initialized. Please configure your Twitter Bearer Token first.');
+            setError(new AuthError('Automation service not initialized. Please configure your Twitter Bearer Token first.', { service: 'x' }));
             return;
         }
 
@@ -203,7 +414,7 @@ export default function App() {
             setAutomationResults(prev => [...results, ...prev].slice(0, 50)); // Keep last 50 results
             setAutomationStatus(automationService.getStatus());
         } catch (err) {
-            setError(`Automation failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            setError(toXApiError(err));
         } finally {
             setIsAutomationRunning(false);
         }
@@ -219,13 +430,36 @@ export default function App() {
         }
     }, [automationConfig, automationService]);
 
-    const handleClearCache = useCallback(() => {
-        clearCache();
+    const refreshCacheEntries = useCallback(async () => {
+        try {
+            setCacheEntries(await listCacheEntries());
+            setSystemMetrics(getSystemMetrics());
+        } catch (err) {
+            console.error('Failed to list cache entries:', err);
+        }
+    }, []);
+
+    // Load the cache inventory whenever the metrics view is opened
+    useEffect(() => {
+        if (viewMode === 'metrics') refreshCacheEntries();
+    }, [viewMode, refreshCacheEntries]);
+
+    const handleClearCache = useCallback(async () => {
+        await clearCache();
+        await refreshCacheEntries();
         alert('System cache cleared successfully!');
+    }, [refreshCacheEntries]);
+
+    const handleDownloadMetrics = useCallback(() => {
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        downloadTextFile(`apex-metrics-${stamp}.txt`, metricsRegistry.renderOpenMetrics(), 'application/openmetrics-text');
     }, []);
+
+    const handleEvictCacheEntry = useCallback(async (key: string) => {
+        await evictCacheEntry(key);
+        await refreshCacheEntries();
+    }, [refreshCacheEntries]);
     
-    const isRetryableError = error?.includes('Service Unavailable') || error?.includes('Network Error') || error?.includes('high traffic') || error?.includes('Model Overloaded');
-    const isDocumentRetryableError = documentError?.includes('Service Unavailable') || documentError?.includes('Network Error') || documentError?.includes('high traffic') || documentError?.includes('Model Overloaded');
 
     return (
         <div className="min-h-screen">
@@ -270,6 +504,17 @@ export default function App() {
                         <RiskIcon className="w-4 h-4" />
                         Automation
                     </button>
+                    <button
+                        onClick={() => setViewMode('history')}
+                        className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg font-semibold transition-all text-sm sm:text-base ${
+                            viewMode === 'history'
+                                ? 'bg-amber-600 text-white shadow-lg'
+                                : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                        }`}
+                    >
+                        <HistoryIcon className="w-4 h-4" />
+                        History
+                    </button>
                     <button
                         onClick={() => setViewMode('metrics')}
                         className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg font-semibold transition-all text-sm sm:text-base ${
@@ -285,7 +530,7 @@ export default function App() {
             </div>
 
             {/* Error Display */}
-            {error && <ErrorDisplay message={error} onRetry={isRetryableError && lastRequest ? handleRetry : undefined} />}
+            {error && <ErrorDisplay error={error} onRetry={error.retryable && lastRequest ? handleRetry : undefined} />}
 
             {/* X Post Analysis View */}
             {viewMode === 'x-post' && (
@@ -295,12 +540,26 @@ export default function App() {
                         isLoading={isLoading}
                         onLoadExample={handleLoadExample}
                         exampleData={exampleData}
+                        voiceProfiles={voiceProfiles}
+                        onSaveVoiceProfile={handleSaveVoiceProfile}
+                        onDeleteVoiceProfile={handleDeleteVoiceProfile}
+                        strategyCatalog={strategyCatalog}
+                        onToggleStrategy={handleToggleStrategy}
+                        onSaveStrategy={handleSaveStrategy}
+                        onDeleteStrategy={handleDeleteStrategy}
                     />
 
-                    {isLoading && <Loader />}
+                    {isLoading && <Loader onCancel={handleCancelAnalyze} />}
 
                     {analysis && strategies.length > 0 && (
-                        <AnalysisDisplay analysis={analysis} strategies={strategies} />
+                        <AnalysisDisplay
+                            analysis={analysis}
+                            strategies={strategies}
+                            strategyCatalog={strategyCatalog}
+                            voiceProfile={voiceProfiles.find(p => p.id === lastRequest?.voiceProfileId)}
+                            onStrategyChange={handleStrategyChange}
+                            onReplyCopied={handleReplyCopied}
+                        />
                     )}
 
                     {!isLoading && !error && !analysis && (
@@ -321,10 +580,20 @@ export default function App() {
             {viewMode === 'document' && (
                 <DocumentAnalysisView 
                     onAnalyze={handleAnalyzeDocument}
+                    onCompare={handleCompareDocuments}
+                    comparison={documentComparison}
                     isLoading={isDocumentLoading}
                     analysis={documentAnalysis}
                     error={documentError}
-                    onRetry={isDocumentRetryableError ? handleDocumentRetry : undefined}
+                    progress={documentProgress}
+                    documentText={lastDocumentRequest?.text}
+                    onConversationChange={handleDocumentConversationChange}
+                    onThreadChange={handleDocumentThreadChange}
+                    onRetry={documentError?.retryable ? handleDocumentRetry : undefined}
+                    onCancel={handleCancelDocument}
+                    templates={documentTemplates}
+                    onSaveTemplate={handleSaveDocumentTemplate}
+                    onDeleteTemplate={handleDeleteDocumentTemplate}
                 />
             )}
 
@@ -343,6 +612,16 @@ export default function App() {
                     isRunning={isAutomationRunning}
                     onFindCandidates={handleFindCandidates}
                     onRunAutomation={handleRunAutomation}
+                    voiceProfiles={voiceProfiles}
+                />
+            )}
+
+            {/* Archive View */}
+            {viewMode === 'history' && (
+                <ArchiveView
+                    records={archivedAnalyses}
+                    onOpen={handleOpenArchived}
+                    onDelete={handleDeleteArchived}
                 />
             )}
 
@@ -351,6 +630,10 @@ export default function App() {
                 <SystemMetrics
                     metrics={systemMetrics}
                     onClearCache={handleClearCache}
+                    cacheEntries={cacheEntries}
+                    onEvictCacheEntry={handleEvictCacheEntry}
+                    onRefreshCacheEntries={refreshCacheEntries}
+                    onDownloadMetrics={handleDownloadMetrics}
                 />
             )}
             </main>
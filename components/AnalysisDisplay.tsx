@@ -1,27 +1,56 @@
-import React from 'react';
-import { type PostAnalysis, type ReplyStrategy } from '../types';
+import React, { useState } from 'react';
+import { type PostAnalysis, type ReplyStrategy, type StrategyDefinition, type VoiceProfile } from '../types';
+import { findStrategy } from '../services/strategy-catalog';
 import { PostDeconstructionSidebar } from './PostDeconstructionSidebar';
 import { ReplyCard } from './ReplyCard';
+import { ReplyComparison } from './ReplyComparison';
 
 interface AnalysisDisplayProps {
   analysis: PostAnalysis;
   strategies: ReplyStrategy[];
+  strategyCatalog: StrategyDefinition[];
+  voiceProfile?: VoiceProfile; // the profile the replies were written in, reused when refining
+  onStrategyChange?: (index: number, strategy: ReplyStrategy) => void;
+  onReplyCopied?: (strategy: string, variant: 'primary' | 'A' | 'B', text: string) => void;
 }
 
-export const AnalysisDisplay = React.memo(function AnalysisDisplay({ analysis, strategies }: AnalysisDisplayProps) {
+export const AnalysisDisplay = React.memo(function AnalysisDisplay({ analysis, strategies, strategyCatalog, voiceProfile, onStrategyChange, onReplyCopied }: AnalysisDisplayProps) {
+  const [isComparing, setIsComparing] = useState(false);
+  const canCompare = strategies.length > 1 || !!strategies[0]?.abVariants;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start mt-8">
       <div className="lg:col-span-1">
         <PostDeconstructionSidebar analysis={analysis} />
       </div>
       <div className="lg:col-span-2 space-y-6">
-        {strategies.map((strategy, index) => (
+        {canCompare && (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setIsComparing(prev => !prev)}
+              className={`text-xs px-3 py-1.5 rounded-md border font-semibold transition-colors ${
+                isComparing ? 'border-blue-500 bg-blue-600/20 text-blue-200' : 'border-slate-700 text-slate-300 hover:text-white hover:border-blue-500'
+              }`}
+            >
+              {isComparing ? 'Back to Cards' : 'Compare Side by Side'}
+            </button>
+          </div>
+        )}
+        {isComparing && canCompare ? (
+          <ReplyComparison strategies={strategies} strategyCatalog={strategyCatalog} />
+        ) : strategies.map((strategy, index) => (
           <div key={strategy.strategy + index}>
             <ReplyCard
               strategy={strategy}
               isRecommended={index === 0}
+              definition={findStrategy(strategyCatalog, strategy.strategy)}
               originalPostText={analysis.originalPostText}
               originalAuthorHandle={analysis.originalAuthorHandle}
+              analysis={analysis}
+              voiceProfile={voiceProfile}
+              onStrategyChange={onStrategyChange && ((updated) => onStrategyChange(index, updated))}
+              onCopy={onReplyCopied && ((variant, text) => onReplyCopied(strategy.strategy, variant, text))}
             />
           </div>
         ))}
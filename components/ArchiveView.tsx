@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { type ArchivedAnalysis } from '../types';
+import { archiveFacets, bestTier, clusterOf, searchArchive, type ArchiveFilters } from '../services/analysis-archive';
+
+interface ArchiveViewProps {
+    records: ArchivedAnalysis[];
+    onOpen: (record: ArchivedAnalysis) => void;
+    onDelete: (id: string) => void;
+}
+
+const TIER_STYLES: Record<string, string> = {
+    S: 'bg-green-500/20 text-green-300',
+    A: 'bg-green-500/10 text-green-300',
+    B: 'bg-yellow-500/10 text-yellow-300',
+    C: 'bg-red-500/10 text-red-300',
+    F: 'bg-red-500/20 text-red-300',
+};
+
+const selectClass = "bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+function ArchiveRow({ record, query, onOpen, onDelete }: { record: ArchivedAnalysis; query: string; onOpen: () => void; onDelete: () => void }) {
+    const tier = bestTier(record);
+    const cluster = clusterOf(record);
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    // Show the reply that matched the search, if it wasn't the post itself
+    const matchingReply = terms.length > 0
+        ? record.strategies.find(s => terms.some(term => s.replyText.toLowerCase().includes(term)))
+        : undefined;
+    const lastUse = record.usage[record.usage.length - 1];
+
+    return (
+        <div className="p-4 rounded-xl border border-slate-700/50 bg-slate-900/40 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                <span className="font-semibold text-slate-200">{record.analysis.originalAuthorHandle || 'Unknown'}</span>
+                <span>{new Date(record.createdAt).toLocaleString()}</span>
+                {cluster && <span className="px-2 py-0.5 rounded bg-slate-800">{cluster}</span>}
+                {tier && <span className={`px-2 py-0.5 rounded font-bold ${TIER_STYLES[tier] ?? TIER_STYLES.B}`}>Tier {tier}</span>}
+                <span>{record.strategies.length} strategies</span>
+                {lastUse && (
+                    <span className="text-cyan-400" title={lastUse.text}>
+                        {lastUse.action === 'posted' ? 'Posted' : 'Copied'} {lastUse.variant === 'primary' ? lastUse.strategy : `${lastUse.strategy} (Var ${lastUse.variant})`}
+                    </span>
+                )}
+            </div>
+            <p className="text-sm text-slate-300 line-clamp-2">{record.analysis.originalPostText || '(media only)'}</p>
+            {matchingReply && (
+                <p className="text-sm text-slate-400 pl-3 border-l-2 border-blue-900/60 italic line-clamp-2">{matchingReply.replyText}</p>
+            )}
+            <div className="flex gap-4 text-xs">
+                <button type="button" onClick={onOpen} className="text-blue-400 hover:text-blue-300 font-semibold">Open</button>
+                <button type="button" onClick={onDelete} className="text-slate-500 hover:text-red-400 font-semibold">Delete</button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Every archived reply session, searchable by text and filterable by author,
+ * GraphJet cluster and best Sanctum tier. "Open" reloads a session into the
+ * analysis view.
+ */
+export function ArchiveView({ records, onOpen, onDelete }: ArchiveViewProps) {
+    const [filters, setFilters] = useState<ArchiveFilters>({});
+    const facets = useMemo(() => archiveFacets(records), [records]);
+    const results = useMemo(() => searchArchive(records, filters), [records, filters]);
+    const update = (changes: ArchiveFilters) => setFilters(prev => ({ ...prev, ...changes }));
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6">
+            <div className="p-6 glass-card rounded-2xl space-y-3">
+                <input
+                    type="search"
+                    value={filters.query ?? ''}
+                    onChange={(e) => update({ query: e.target.value })}
+                    placeholder="Search posts, analyses and replies..."
+                    aria-label="Search the archive"
+                    className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="flex flex-wrap gap-3">
+                    <select value={filters.author ?? ''} onChange={(e) => update({ author: e.target.value || undefined })} aria-label="Filter by author" className={selectClass}>
+                        <option value="">All authors</option>
+                        {facets.authors.map(a => <option key={a} value={a}>{a}</option>)}
+                    </select>
+                    <select value={filters.cluster ?? ''} onChange={(e) => update({ cluster: e.target.value || undefined })} aria-label="Filter by cluster" className={selectClass}>
+                        <option value="">All clusters</option>
+                        {facets.clusters.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <select value={filters.tier ?? ''} onChange={(e) => update({ tier: e.target.value || undefined })} aria-label="Filter by tier" className={selectClass}>
+                        <option value="">All tiers</option>
+                        {facets.tiers.map(t => <option key={t} value={t}>Tier {t}</option>)}
+                    </select>
+                    <span className="self-center text-xs text-slate-500">{results.length} of {records.length} sessions</span>
+                </div>
+            </div>
+
+            {results.length === 0 ? (
+                <p className="text-center text-slate-400 py-12">
+                    {records.length === 0 ? 'Analyses you run are saved here automatically.' : 'No sessions match these filters.'}
+                </p>
+            ) : (
+                <div className="space-y-3">
+                    {results.map(record => (
+                        <div key={record.id}>
+                            <ArchiveRow record={record} query={filters.query ?? ''} onOpen={() => onOpen(record)} onDelete={() => onDelete(record.id)} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -5,12 +5,14 @@ import {
     type AutomationConfig,
     type PostSearchCriteria,
     type PostCandidate,
-    type AutomationResult
+    type AutomationResult,
+    type VoiceProfile
 } from '../types';
 import {
     RiskIcon,
     SparklesIcon
 } from './icons/Icons';
+import { SUPPORTED_LANGUAGES, languageName } from '../services/language';
 
 interface AutomationDashboardProps {
     credentials: XApiCredentials | null;
@@ -25,6 +27,7 @@ interface AutomationDashboardProps {
     isRunning: boolean;
     onFindCandidates: () => void;
     onRunAutomation: () => void;
+    voiceProfiles: VoiceProfile[];
 }
 
 export const AutomationDashboard = React.memo(function AutomationDashboard({
@@ -39,7 +42,8 @@ export const AutomationDashboard = React.memo(function AutomationDashboard({
     automationResults,
     isRunning,
     onFindCandidates,
-    onRunAutomation
+    onRunAutomation,
+    voiceProfiles
 }: AutomationDashboardProps) {
 
     const handleConfigChange = (field: keyof AutomationConfig, value: any) => {
@@ -50,6 +54,12 @@ export const AutomationDashboard = React.memo(function AutomationDashboard({
         onConfigChange({ safetyChecks: { ...config.safetyChecks, [field]: value } });
     }
 
+    const toggleSearchLanguage = (code: string) => {
+        const current = searchCriteria.languages ?? [];
+        const languages = current.includes(code) ? current.filter(l => l !== code) : [...current, code];
+        onSearchCriteriaChange({ ...searchCriteria, languages });
+    };
+
     const formatTime = (date: Date) => new Intl.DateTimeFormat('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }).format(date);
 
     const getMissingCredentials = () => {
@@ -191,6 +201,40 @@ export const AutomationDashboard = React.memo(function AutomationDashboard({
                              <div className="text-sm">Max Replies/Hour: <input type="number" value={config.maxRepliesPerHour} onChange={(e) => handleConfigChange('maxRepliesPerHour', parseInt(e.target.value))} className="w-16 bg-slate-900/50 p-1 rounded" /></div>
                              <div className="text-sm">Cooldown (min): <input type="number" value={config.cooldownBetweenReplies} onChange={(e) => handleConfigChange('cooldownBetweenReplies', parseInt(e.target.value))} className="w-16 bg-slate-900/50 p-1 rounded" /></div>
                              <div className="text-sm">Min Confidence: <input type="number" value={config.safetyChecks.minimumConfidenceScore} onChange={(e) => handleSafetyCheckChange('minimumConfidenceScore', parseInt(e.target.value))} className="w-16 bg-slate-900/50 p-1 rounded" />%</div>
+                             <div className="text-sm flex items-center gap-2">Voice:
+                                <select value={config.voiceProfileId ?? ''} onChange={(e) => handleConfigChange('voiceProfileId', e.target.value || undefined)} className="flex-1 bg-slate-900/50 p-1 rounded">
+                                    <option value="">Default prompt voice</option>
+                                    {voiceProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                             </div>
+                             {config.voiceProfileId && (
+                                <div className="text-sm">Min Voice Adherence: <input type="number" min={0} max={100} value={config.safetyChecks.minimumVoiceAdherence ?? 0} onChange={(e) => handleSafetyCheckChange('minimumVoiceAdherence', parseInt(e.target.value))} className="w-16 bg-slate-900/50 p-1 rounded" />%</div>
+                             )}
+                             <div className="text-sm flex items-center gap-2">Reply Language:
+                                <select value={config.targetLanguage ?? 'auto'} onChange={(e) => handleConfigChange('targetLanguage', e.target.value)} className="flex-1 bg-slate-900/50 p-1 rounded">
+                                    <option value="auto">Match each post</option>
+                                    {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                                </select>
+                             </div>
+                             <div className="text-sm">
+                                <div className="mb-1">Search Languages: <span className="text-slate-500 text-xs">{(searchCriteria.languages ?? []).length === 0 ? 'any' : (searchCriteria.languages ?? []).map(languageName).join(', ')}</span></div>
+                                <div className="flex flex-wrap gap-1">
+                                    {SUPPORTED_LANGUAGES.map(l => {
+                                        const active = (searchCriteria.languages ?? []).includes(l.code);
+                                        return (
+                                            <button
+                                                key={l.code}
+                                                type="button"
+                                                onClick={() => toggleSearchLanguage(l.code)}
+                                                title={l.name}
+                                                className={`px-2 py-0.5 rounded text-xs font-mono ${active ? 'bg-blue-600 text-white' : 'bg-slate-900/50 text-slate-400 hover:text-slate-200'}`}
+                                            >
+                                                {l.code}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                             </div>
                         </div>
                     </div>
                 </div>
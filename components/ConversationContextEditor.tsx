@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { type ConversationContext, type ContextPost } from '../types';
+import { inferPostType, isEmptyContext, MAX_TOP_REPLIES } from '../services/conversation-context';
+
+interface ConversationContextEditorProps {
+    value: ConversationContext;
+    onChange: (context: ConversationContext) => void;
+    authorHandle: string;
+}
+
+interface ContextPostFieldsProps {
+    label: string;
+    post: ContextPost;
+    onChange: (post: ContextPost) => void;
+    onRemove: () => void;
+}
+
+function ContextPostFields({ label, post, onChange, onRemove }: ContextPostFieldsProps) {
+    return (
+        <div className="p-3 bg-slate-900/40 border border-slate-700/50 rounded-lg space-y-2">
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider w-16 flex-shrink-0">{label}</span>
+                <input
+                    type="text"
+                    value={post.authorHandle}
+                    onChange={(e) => onChange({ ...post, authorHandle: e.target.value })}
+                    placeholder="@username"
+                    className="flex-1 bg-slate-900/50 border border-slate-700 rounded-md px-2 py-1 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                    type="button"
+                    onClick={onRemove}
+                    aria-label={`Remove ${label}`}
+                    className="text-xs text-slate-500 hover:text-red-400 font-semibold px-2"
+                >
+                    Remove
+                </button>
+            </div>
+            <textarea
+                value={post.text}
+                onChange={(e) => onChange({ ...post, text: e.target.value })}
+                rows={2}
+                placeholder="Post text..."
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+        </div>
+    );
+}
+
+const emptyPost = (): ContextPost => ({ authorHandle: '', text: '' });
+
+/**
+ * Collapsible editor for the thread parents, quoted post and top replies around the target post.
+ */
+export function ConversationContextEditor({ value, onChange, authorHandle }: ConversationContextEditorProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const entryCount = value.parents.length + (value.quoted ? 1 : 0) + value.topReplies.length;
+
+    const updateList = (field: 'parents' | 'topReplies', index: number, post: ContextPost) => {
+        onChange({ ...value, [field]: value[field].map((p, i) => i === index ? post : p) });
+    };
+    const removeFromList = (field: 'parents' | 'topReplies', index: number) => {
+        onChange({ ...value, [field]: value[field].filter((_, i) => i !== index) });
+    };
+
+    return (
+        <div className="mb-6">
+            <button
+                type="button"
+                onClick={() => setIsOpen(open => !open)}
+                aria-expanded={isOpen}
+                className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-slate-200"
+            >
+                <span className={`transition-transform ${isOpen ? 'rotate-90' : ''}`}>▸</span>
+                Conversation Context (Optional)
+                {entryCount > 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-blue-500/10 text-blue-300 border border-blue-500/30">
+                        {entryCount} · {inferPostType(authorHandle, value).toUpperCase()}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="mt-3 space-y-4">
+                    <p className="text-xs text-slate-500">
+                        Add the posts this one replies to, the post it quotes, and a few of the existing top replies so generated replies don't repeat them.
+                    </p>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Thread Parents (oldest first)</span>
+                            <button
+                                type="button"
+                                onClick={() => onChange({ ...value, parents: [...value.parents, emptyPost()] })}
+                                className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                            >
+                                + Add Parent
+                            </button>
+                        </div>
+                        {value.parents.map((post, i) => (
+                            <div key={`parent-${i}`}>
+                                <ContextPostFields
+                                    label={`Parent ${i + 1}`}
+                                    post={post}
+                                    onChange={(p) => updateList('parents', i, p)}
+                                    onRemove={() => removeFromList('parents', i)}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Quoted Post</span>
+                            {!value.quoted && (
+                                <button
+                                    type="button"
+                                    onClick={() => onChange({ ...value, quoted: emptyPost() })}
+                                    className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                                >
+                                    + Add Quoted Post
+                                </button>
+                            )}
+                        </div>
+                        {value.quoted && (
+                            <ContextPostFields
+                                label="Quoted"
+                                post={value.quoted}
+                                onChange={(p) => onChange({ ...value, quoted: p })}
+                                onRemove={() => onChange({ ...value, quoted: undefined })}
+                            />
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Top Replies ({value.topReplies.length}/{MAX_TOP_REPLIES})</span>
+                            {value.topReplies.length < MAX_TOP_REPLIES && (
+                                <button
+                                    type="button"
+                                    onClick={() => onChange({ ...value, topReplies: [...value.topReplies, emptyPost()] })}
+                                    className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                                >
+                                    + Add Reply
+                                </button>
+                            )}
+                        </div>
+                        {value.topReplies.map((post, i) => (
+                            <div key={`reply-${i}`}>
+                                <ContextPostFields
+                                    label={`Reply ${i + 1}`}
+                                    post={post}
+                                    onChange={(p) => updateList('topReplies', i, p)}
+                                    onRemove={() => removeFromList('topReplies', i)}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {!isEmptyContext(value) && (
+                        <button
+                            type="button"
+                            onClick={() => onChange({ parents: [], topReplies: [] })}
+                            className="text-xs text-slate-500 hover:text-slate-300 font-semibold"
+                        >
+                            Clear Context
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
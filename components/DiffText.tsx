@@ -0,0 +1,17 @@
+import React from 'react';
+import { type TextDiffSegment } from '../types';
+
+/**
+ * Inline rendering of a text diff: insertions highlighted, deletions struck through.
+ */
+export function DiffText({ segments }: { segments: TextDiffSegment[] }) {
+    return (
+        <>
+            {segments.map((segment, i) =>
+                segment.type === 'insert' ? <ins key={i} className="bg-green-500/20 text-green-200 no-underline rounded-sm">{segment.text}</ins>
+                : segment.type === 'delete' ? <del key={i} className="bg-red-500/20 text-red-300 rounded-sm">{segment.text}</del>
+                : <span key={i}>{segment.text}</span>
+            )}
+        </>
+    );
+}
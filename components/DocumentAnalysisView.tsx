@@ -1,15 +1,33 @@
-import React, { useState, useCallback } from 'react';
-import { type DocumentAnalysis } from '../types';
+import React, { useState, useCallback, useRef } from 'react';
+import { type DocumentAnalysis, type DocumentAnalysisProgress, type DocumentComparison, type DocumentQAMessage, type DocumentTemplate, type DocumentThread, type ParsedDocument, type TemplateField, type TemplateScalar } from '../types';
+import { SUPPORTED_DOCUMENT_EXTENSIONS, buildDocumentBundle, parseDocumentFile } from '../services/document-parsers';
+import { type ApexError } from '../services/errors';
+import { COMPETITION_BRIEF_TEMPLATE } from '../services/document-templates';
 import { Loader } from './Loader';
 import { ErrorDisplay } from './ErrorDisplay';
+import { MilestoneTimeline } from './MilestoneTimeline';
+import { DocumentChat } from './DocumentChat';
+import { ThreadComposer } from './ThreadComposer';
+import { DocumentTemplateEditor } from './DocumentTemplateEditor';
+import { DocumentComparisonView } from './DocumentComparisonView';
 import { DocumentIcon, SparklesIcon } from './icons/Icons';
 
 interface DocumentAnalysisViewProps {
-    onAnalyze: (documentText: string) => void;
+    onAnalyze: (documentText: string, templateId: string) => void;
+    onCompare: (previousText: string, documentText: string, templateId: string) => void;
+    comparison: DocumentComparison | null;
     isLoading: boolean;
     analysis: DocumentAnalysis | null;
-    error: string | null;
+    error: ApexError | null;
+    progress?: DocumentAnalysisProgress | null;
+    documentText?: string | null; // the text `analysis` was produced from, for follow-up questions
+    onConversationChange?: (conversation: DocumentQAMessage[]) => void;
+    onThreadChange?: (thread: DocumentThread | undefined) => void;
     onRetry?: () => void;
+    onCancel?: () => void;
+    templates: DocumentTemplate[];
+    onSaveTemplate: (template: DocumentTemplate) => void;
+    onDeleteTemplate: (id: string) => void;
 }
 
 const exampleDocument = `Project Instructions: Adaptyv Nipah Virus Protein Design Competition
@@ -73,17 +91,227 @@ function AnalysisSection({ title, children, color = 'cyan' }: { title: string; c
     );
 }
 
-export const DocumentAnalysisView = React.memo(function DocumentAnalysisView({ onAnalyze, isLoading, analysis, error, onRetry }: DocumentAnalysisViewProps) {
+const CHUNK_STATUS_STYLES = {
+    pending: 'bg-slate-800/60 text-slate-500 border-slate-700',
+    running: 'bg-cyan-500/10 text-cyan-300 border-cyan-500/40 animate-pulse',
+    done: 'bg-green-500/10 text-green-300 border-green-500/30',
+    failed: 'bg-red-500/10 text-red-300 border-red-500/30',
+};
+
+function ChunkProgress({ progress }: { progress: DocumentAnalysisProgress }) {
+    const done = progress.chunks.filter(c => c.status === 'done').length;
+    if (progress.chunks.length < 2) return null;
+    return (
+        <div className="max-w-4xl mx-auto glass-card rounded-2xl p-4">
+            <div className="flex justify-between text-xs text-slate-400 mb-3">
+                <span className="font-bold uppercase tracking-wider">{progress.phase === 'map' ? 'Extracting sections' : 'Merging sections'}</span>
+                <span>{done}/{progress.chunks.length} done</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {progress.chunks.map(chunk => (
+                    <div key={chunk.index} className={`px-3 py-1.5 rounded-md border text-xs flex justify-between gap-2 ${CHUNK_STATUS_STYLES[chunk.status]}`}>
+                        <span className="truncate">§{chunk.index + 1} {chunk.heading ?? `Characters ${chunk.startOffset}-${chunk.endOffset}`}</span>
+                        <span className="font-semibold uppercase">{chunk.status}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Section badges linking an extracted item back to the chunks it came from.
+ */
+function SourceRefs({ analysis, refs }: { analysis: DocumentAnalysis; refs?: number[] }) {
+    if (!refs || refs.length === 0 || (analysis.chunks?.length ?? 0) < 2) return null;
+    return (
+        <span className="inline-flex gap-1 ml-2 align-middle">
+            {refs.map(ref => (
+                <span key={ref} title={analysis.chunks?.[ref]?.heading ?? `Section ${ref + 1}`} className="px-1.5 rounded bg-slate-700/60 text-[10px] font-mono text-slate-400">
+                    §{ref + 1}
+                </span>
+            ))}
+        </span>
+    );
+}
+
+function CitationRefs({ analysis, citations }: { analysis: DocumentAnalysis; citations?: number[] }) {
+    if (!citations || citations.length === 0) return null;
+    return (
+        <span className="ml-1 text-xs font-mono">
+            {citations.map(i => {
+                const reference = analysis.references?.[i];
+                if (!reference) return null;
+                return reference.link
+                    ? <a key={i} href={`https://${reference.link}`} target="_blank" rel="noopener noreferrer" title={reference.label} className="text-blue-400 hover:underline">[{reference.number}]</a>
+                    : <span key={i} title={reference.label} className="text-slate-400">[{reference.number}]</span>;
+            })}
+        </span>
+    );
+}
+
+function CitedBy({ sentences }: { sentences?: string[] }) {
+    if (!sentences || sentences.length === 0) return null;
+    return (
+        <details className="ml-5 mt-1 text-xs text-slate-400">
+            <summary className="cursor-pointer hover:text-slate-300">Cited in {sentences.length} sentence{sentences.length === 1 ? '' : 's'}</summary>
+            <ul className="mt-1 space-y-1 border-l border-slate-700 pl-3">
+                {sentences.map((sentence, i) => <li key={i} className="italic">“{sentence}”</li>)}
+            </ul>
+        </details>
+    );
+}
+
+function FieldValue({ field, value }: { field: TemplateField; value: TemplateScalar }) {
+    if (value === null || value === '') return <span className="text-slate-500 italic">Not stated</span>;
+    if (field.type === 'boolean') return <span>{value ? 'Yes' : 'No'}</span>;
+    if (field.type === 'number' && typeof value === 'number') return <span className="font-mono">{value.toLocaleString()}</span>;
+    if (field.type === 'url') {
+        const href = /^https?:\/\//i.test(String(value)) ? String(value) : `https://${value}`;
+        return <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{String(value)}</a>;
+    }
+    return <span>{String(value)}</span>;
+}
+
+/**
+ * Generic rendering of a custom template's fields: scalars as a key-value grid,
+ * lists as their own sections.
+ */
+function TemplateFields({ analysis, template }: { analysis: DocumentAnalysis; template: DocumentTemplate }) {
+    const fields = analysis.fields ?? {};
+    const scalars = template.fields.filter(f => !f.list);
+    const lists = template.fields.filter(f => f.list);
+    return (
+        <>
+            {scalars.length > 0 && (
+                <AnalysisSection title={template.name} color="green">
+                    <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+                        {scalars.map(field => (
+                            <div key={field.key} className="contents">
+                                <dt className="text-slate-400 font-semibold" title={field.description}>{field.label}</dt>
+                                <dd>
+                                    <FieldValue field={field} value={Array.isArray(fields[field.key]) ? null : (fields[field.key] as TemplateScalar) ?? null} />
+                                    <SourceRefs analysis={analysis} refs={analysis.fieldSources?.[field.key]?.[0]} />
+                                </dd>
+                            </div>
+                        ))}
+                    </dl>
+                </AnalysisSection>
+            )}
+            {lists.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {lists.map(field => {
+                        const raw = fields[field.key];
+                        const items = Array.isArray(raw) ? raw : raw === null || raw === undefined ? [] : [raw];
+                        return (
+                            <div key={field.key}>
+                                <AnalysisSection title={field.label}>
+                                    {items.length === 0 ? (
+                                        <p className="text-sm text-slate-500 italic">Not stated</p>
+                                    ) : (
+                                        <ul className="list-disc list-inside space-y-2">
+                                            {items.map((item, i) => (
+                                                <li key={i}>
+                                                    <FieldValue field={field} value={item} />
+                                                    <SourceRefs analysis={analysis} refs={analysis.fieldSources?.[field.key]?.[i]} />
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </AnalysisSection>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+}
+
+/**
+ * The template an analysis was produced with. If it has since been deleted, one
+ * is reconstructed from the stored field keys so the results still render.
+ */
+function templateForAnalysis(analysis: DocumentAnalysis, templates: DocumentTemplate[]): DocumentTemplate {
+    if (!analysis.templateId) return COMPETITION_BRIEF_TEMPLATE;
+    const found = templates.find(t => t.id === analysis.templateId);
+    if (found) return found;
+    const fields = Object.entries(analysis.fields ?? {}).map(([key, value]): TemplateField => {
+        const sample = Array.isArray(value) ? value[0] : value;
+        return { key, label: key, description: key, list: Array.isArray(value), type: typeof sample === 'number' ? 'number' : typeof sample === 'boolean' ? 'boolean' : 'text' };
+    });
+    return { id: analysis.templateId, name: 'Extracted Fields', description: '', fields };
+}
+
+export const DocumentAnalysisView = React.memo(function DocumentAnalysisView({ onAnalyze, onCompare, comparison, isLoading, analysis, error, progress, documentText: analyzedText, onConversationChange, onThreadChange, onRetry, onCancel, templates, onSaveTemplate, onDeleteTemplate }: DocumentAnalysisViewProps) {
     const [documentText, setDocumentText] = useState('');
+    const [files, setFiles] = useState<ParsedDocument[]>([]);
+    const [fileErrors, setFileErrors] = useState<string[]>([]);
+    const [isParsing, setIsParsing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [templateId, setTemplateId] = useState(COMPETITION_BRIEF_TEMPLATE.id);
+    const [editingTemplate, setEditingTemplate] = useState<'new' | string | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [previousText, setPreviousText] = useState('');
+    const [previousFileName, setPreviousFileName] = useState<string | null>(null);
+    const previousInputRef = useRef<HTMLInputElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     
     const handleLoadExample = useCallback(() => {
         setDocumentText(exampleDocument);
     }, []);
 
+    const addFiles = async (selected: File[]) => {
+        if (selected.length === 0) return;
+        setIsParsing(true);
+        const errors: string[] = [];
+        const parsed: ParsedDocument[] = [];
+        for (const file of selected) {
+            try {
+                const doc = await parseDocumentFile(file);
+                if (!doc.text.trim()) errors.push(`${file.name}: no text found.${doc.warnings ? ` ${doc.warnings.join(' ')}` : ''}`);
+                else parsed.push(doc);
+            } catch (err) {
+                errors.push(err instanceof Error ? err.message : `${file.name}: could not be read.`);
+            }
+        }
+        // Re-uploading a file replaces the earlier copy
+        setFiles(prev => [...prev.filter(f => !parsed.some(p => p.name === f.name)), ...parsed]);
+        setFileErrors(errors);
+        setIsParsing(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(Array.from(e.dataTransfer.files as FileList));
+    };
+
+    // The earlier version is a single file or paste; it replaces whatever was there
+    const loadPreviousFile = async (file: File | undefined) => {
+        if (!file) return;
+        setIsParsing(true);
+        try {
+            const doc = await parseDocumentFile(file);
+            setPreviousText(doc.text);
+            setPreviousFileName(doc.name);
+            setFileErrors(doc.text.trim() ? [] : [`${file.name}: no text found.`]);
+        } catch (err) {
+            setFileErrors([err instanceof Error ? err.message : `${file.name}: could not be read.`]);
+        }
+        setIsParsing(false);
+    };
+
+    const hasInput = (documentText.trim().length > 0 || files.length > 0) && (!isComparing || previousText.trim().length > 0);
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (documentText.trim() && !isLoading) {
-            onAnalyze(documentText);
+        if (hasInput && !isLoading && !isParsing) {
+            // Pasted text joins the uploaded files as one more document of the bundle
+            const pasted = documentText.trim() ? [{ name: 'Pasted text', text: documentText }] : [];
+            const bundle = buildDocumentBundle([...files, ...pasted]);
+            if (isComparing) onCompare(previousText, bundle, templateId);
+            else onAnalyze(bundle, templateId);
         }
     };
 
@@ -91,10 +319,49 @@ export const DocumentAnalysisView = React.memo(function DocumentAnalysisView({ o
         <div className="space-y-8">
             <div className="max-w-4xl mx-auto">
                 <form onSubmit={handleSubmit} className="p-6 md:p-8 glass-card rounded-2xl shadow-2xl shadow-slate-950/50">
+                    <label className="flex items-center gap-2 mb-4 text-xs text-slate-400">
+                        <input type="checkbox" checked={isComparing} onChange={(e) => setIsComparing(e.target.checked)} />
+                        Compare with a previous version
+                    </label>
+                    {isComparing && (
+                        <div className="mb-4">
+                            <div className="flex justify-between items-center mb-2">
+                                <label htmlFor="previousDocumentText" className="block text-sm font-medium text-slate-400">
+                                    Previous Version{previousFileName ? ` · ${previousFileName}` : ''}
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={() => previousInputRef.current?.click()}
+                                    disabled={isParsing}
+                                    className="text-xs text-blue-400 hover:text-blue-300 font-semibold disabled:opacity-50"
+                                >
+                                    Upload File
+                                </button>
+                                <input
+                                    ref={previousInputRef}
+                                    type="file"
+                                    accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        loadPreviousFile(e.target.files?.[0]);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </div>
+                            <textarea
+                                id="previousDocumentText"
+                                value={previousText}
+                                onChange={(e) => { setPreviousText(e.target.value); setPreviousFileName(null); }}
+                                rows={6}
+                                placeholder="Paste or upload the earlier version of the document..."
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-shadow duration-200"
+                            />
+                        </div>
+                    )}
                     <div className="mb-4">
                         <div className="flex justify-between items-center mb-2">
                             <label htmlFor="documentText" className="block text-sm font-medium text-slate-400">
-                                Document Content
+                                {isComparing ? 'Revised Version' : 'Document Content'}
                             </label>
                             <button
                                 type="button"
@@ -105,100 +372,271 @@ export const DocumentAnalysisView = React.memo(function DocumentAnalysisView({ o
                                 Load Example
                             </button>
                         </div>
-                        <textarea
-                            id="documentText"
-                            value={documentText}
-                            onChange={(e) => setDocumentText(e.target.value)}
-                            rows={10}
-                            placeholder="Paste a document, article, or any text to analyze..."
-                            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-shadow duration-200"
-                            required
-                        />
+                        <div
+                            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                            onDragLeave={() => setIsDragging(false)}
+                            onDrop={handleDrop}
+                            className={`rounded-lg transition-shadow ${isDragging ? 'ring-2 ring-cyan-400' : ''}`}
+                        >
+                            <textarea
+                                id="documentText"
+                                value={documentText}
+                                onChange={(e) => setDocumentText(e.target.value)}
+                                rows={10}
+                                placeholder={files.length > 0 ? 'Optional: add notes or extra text to analyze with the files...' : 'Paste a document, or drop Markdown, HTML, text, CSV or PDF files here...'}
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-shadow duration-200"
+                            />
+                        </div>
+                    </div>
+                    <div className="mb-4">
+                        <div className="flex items-center gap-3">
+                            <button
+                                type="button"
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={isParsing}
+                                className="text-xs px-3 py-1.5 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 font-semibold disabled:opacity-50"
+                            >
+                                {isParsing ? 'Reading files...' : 'Upload Files'}
+                            </button>
+                            <span className="text-xs text-slate-500">{SUPPORTED_DOCUMENT_EXTENSIONS.join(' ')} · multiple files are analyzed as one project</span>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                multiple
+                                accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                                className="hidden"
+                                onChange={(e) => {
+                                    addFiles(Array.from((e.target.files ?? []) as ArrayLike<File>));
+                                    e.target.value = '';
+                                }}
+                            />
+                        </div>
+                        {files.length > 0 && (
+                            <ul className="mt-3 space-y-1">
+                                {files.map(file => (
+                                    <li key={file.name} className="flex items-center justify-between gap-3 px-3 py-1.5 bg-slate-900/40 border border-slate-700/50 rounded-md text-xs">
+                                        <span className="truncate text-slate-200">{file.name}</span>
+                                        <span className="flex items-center gap-3 flex-shrink-0 text-slate-500">
+                                            <span className="uppercase font-mono">{file.format}</span>
+                                            {file.pageCount && <span>{file.pageCount} pages</span>}
+                                            <span>{file.text.length.toLocaleString()} chars</span>
+                                            {file.warnings && <span className="text-amber-400" title={file.warnings.join('\n')}>⚠</span>}
+                                            <button type="button" onClick={() => setFiles(prev => prev.filter(f => f.name !== file.name))} aria-label={`Remove ${file.name}`} className="text-slate-500 hover:text-red-400 font-semibold">Remove</button>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {fileErrors.length > 0 && (
+                            <div className="mt-2 space-y-1">
+                                {fileErrors.map((message, i) => <p key={i} className="text-xs text-red-400">{message}</p>)}
+                            </div>
+                        )}
+                    </div>
+                    <div className="mb-4">
+                        <div className="flex justify-between items-center mb-2">
+                            <label htmlFor="documentTemplate" className="block text-sm font-medium text-slate-400">
+                                Extraction Template
+                            </label>
+                            <div className="flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setEditingTemplate(editingTemplate === templateId ? null : templateId)}
+                                    className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                                >
+                                    {templates.find(t => t.id === templateId)?.builtIn ? 'View' : 'Edit'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setEditingTemplate('new')}
+                                    className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                                >
+                                    + New Template
+                                </button>
+                            </div>
+                        </div>
+                        <select
+                            id="documentTemplate"
+                            value={templateId}
+                            onChange={(e) => setTemplateId(e.target.value)}
+                            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {templates.map(t => (
+                                <option key={t.id} value={t.id}>{t.name}{t.builtIn ? '' : ` (${t.fields.length} fields)`}</option>
+                            ))}
+                        </select>
+                        {editingTemplate && (
+                            <div className="mt-3">
+                                <DocumentTemplateEditor
+                                    template={editingTemplate === 'new' ? null : templates.find(t => t.id === editingTemplate) ?? null}
+                                    onSave={(template) => {
+                                        onSaveTemplate(template);
+                                        setTemplateId(template.id);
+                                        setEditingTemplate(null);
+                                    }}
+                                    onDelete={(id) => {
+                                        onDeleteTemplate(id);
+                                        setTemplateId(COMPETITION_BRIEF_TEMPLATE.id);
+                                        setEditingTemplate(null);
+                                    }}
+                                    onClose={() => setEditingTemplate(null)}
+                                />
+                            </div>
+                        )}
                     </div>
                     <button
                         type="submit"
-                        disabled={isLoading || !documentText.trim()}
+                        disabled={isLoading || isParsing || !hasInput}
                         className="w-full flex items-center justify-center gap-3 text-white font-bold py-3 px-4 rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105 disabled:scale-100 group"
                     >
                         <DocumentIcon className="w-5 h-5 transition-transform group-hover:rotate-[-3deg]" />
-                        {isLoading ? 'Analyzing Document...' : 'Run Deep Analysis'}
+                        {isLoading ? 'Analyzing Document...' : isComparing ? 'Compare Versions' : files.length > 1 ? `Run Deep Analysis on ${files.length} Files` : 'Run Deep Analysis'}
                     </button>
                 </form>
             </div>
 
-            {isLoading && <Loader />}
-            {error && <ErrorDisplay message={error} onRetry={onRetry} />}
+            {isLoading && progress && <ChunkProgress progress={progress} />}
+            {isLoading && <Loader onCancel={onCancel} />}
+            {error && <ErrorDisplay error={error} onRetry={onRetry} />}
+
+            {comparison && <DocumentComparisonView comparison={comparison} />}
 
             {analysis && (
                 <div className="space-y-6">
                     <div className="text-center">
                         <h2 className="text-3xl font-bold text-white">{analysis.title}</h2>
+                        {analysis.chunks && analysis.chunks.length > 1 && (
+                            <p className="text-xs text-slate-500 mt-1">Analyzed in {analysis.chunks.length} sections</p>
+                        )}
                     </div>
+
+                    {analysis.reconciliationNotes && analysis.reconciliationNotes.length > 0 && (
+                        <div className="p-4 bg-amber-900/20 border border-amber-500/20 rounded-xl">
+                            <h4 className="text-xs font-bold text-amber-300 uppercase tracking-wider mb-2">Merge Notes</h4>
+                            <ul className="list-disc list-inside space-y-1 text-sm text-amber-200/80">
+                                {analysis.reconciliationNotes.map((note, i) => <li key={i}>{note}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
+                    {analysis.citationWarnings && analysis.citationWarnings.length > 0 && (
+                        <div className="p-4 bg-amber-900/20 border border-amber-500/20 rounded-xl">
+                            <h4 className="text-xs font-bold text-amber-300 uppercase tracking-wider mb-2">Citation Warnings</h4>
+                            <ul className="list-disc list-inside space-y-1 text-sm text-amber-200/80">
+                                {analysis.citationWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                            </ul>
+                        </div>
+                    )}
                     
                     <AnalysisSection title="Executive Summary">
                         <p className="text-base leading-relaxed">{analysis.summary}</p>
                     </AnalysisSection>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <AnalysisSection title="Primary Objectives" color="green">
-                            <ul className="list-disc list-inside space-y-2">
-                                {analysis.objectives.map((obj, i) => <li key={i}>{obj}</li>)}
-                            </ul>
+                    {analyzedText && onConversationChange && (
+                        <AnalysisSection title="Ask the Document">
+                            <DocumentChat documentText={analyzedText} analysis={analysis} onConversationChange={onConversationChange} />
                         </AnalysisSection>
+                    )}
 
-                        <AnalysisSection title="Submission Requirements" color="amber">
-                            <ul className="list-disc list-inside space-y-2">
-                                {analysis.submissionRequirements.map((req, i) => <li key={i}>{req}</li>)}
-                            </ul>
+                    {onThreadChange && (
+                        <AnalysisSection title="Thread from Document">
+                            <ThreadComposer analysis={analysis} onThreadChange={onThreadChange} />
                         </AnalysisSection>
-                    </div>
+                    )}
 
-                    <AnalysisSection title="Key Milestones & Timeline" color="purple">
-                        <div className="relative border-l-2 border-slate-700 pl-6 space-y-6">
-                            {analysis.milestones.map((milestone, i) => (
-                                <div key={i} className="relative">
-                                    <div className="absolute -left-[34px] top-1 w-4 h-4 bg-purple-500 rounded-full border-4 border-slate-800"></div>
-                                    <p className="font-bold text-purple-300">{milestone.date}</p>
-                                    <p className="font-semibold text-white">{milestone.event}</p>
-                                    {milestone.details && <p className="text-sm text-slate-400">{milestone.details}</p>}
-                                </div>
-                            ))}
-                        </div>
-                    </AnalysisSection>
+                    {analysis.templateId ? (
+                        <>
+                            <TemplateFields analysis={analysis} template={templateForAnalysis(analysis, templates)} />
+                            {analysis.milestones.length > 0 && (
+                                <AnalysisSection title="Key Dates" color="purple">
+                                    <MilestoneTimeline
+                                        analysis={analysis}
+                                        renderSources={(index) => <SourceRefs analysis={analysis} refs={analysis.sources?.milestones?.[index]} />}
+                                    />
+                                </AnalysisSection>
+                            )}
+                        </>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <AnalysisSection title="Primary Objectives" color="green">
+                                    <ul className="list-disc list-inside space-y-2">
+                                        {analysis.objectives.map((obj, i) => <li key={i}>{obj}<SourceRefs analysis={analysis} refs={analysis.sources?.objectives?.[i]} /></li>)}
+                                    </ul>
+                                </AnalysisSection>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <AnalysisSection title="Models & Approaches">
-                            <div className="flex flex-wrap gap-2">
-                                {analysis.modelsAndApproaches.map((model, i) => (
-                                    <span key={i} className="px-3 py-1 bg-blue-500/20 text-blue-300 rounded-full text-sm font-medium">
-                                        {model}
-                                    </span>
-                                ))}
+                                <AnalysisSection title="Submission Requirements" color="amber">
+                                    <ul className="list-disc list-inside space-y-2">
+                                        {analysis.submissionRequirements.map((req, i) => <li key={i}>{req}<SourceRefs analysis={analysis} refs={analysis.sources?.submissionRequirements?.[i]} /></li>)}
+                                    </ul>
+                                </AnalysisSection>
                             </div>
-                        </AnalysisSection>
 
-                        <AnalysisSection title="Key Resources">
-                            <ul className="list-disc list-inside space-y-2">
-                                {analysis.keyResources.map((res, i) => (
+                            <AnalysisSection title="Key Milestones & Timeline" color="purple">
+                                <MilestoneTimeline
+                                    analysis={analysis}
+                                    renderSources={(index) => <SourceRefs analysis={analysis} refs={analysis.sources?.milestones?.[index]} />}
+                                />
+                            </AnalysisSection>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <AnalysisSection title="Models & Approaches">
+                                    <div className="flex flex-wrap gap-2">
+                                        {analysis.modelsAndApproaches.map((model, i) => (
+                                            <span key={i} className="px-3 py-1 bg-blue-500/20 text-blue-300 rounded-full text-sm font-medium">
+                                                {model}
+                                                <SourceRefs analysis={analysis} refs={analysis.sources?.modelsAndApproaches?.[i]} />
+                                            </span>
+                                        ))}
+                                    </div>
+                                </AnalysisSection>
+
+                                <AnalysisSection title="Key Resources">
+                                    <ul className="list-disc list-inside space-y-2">
+                                        {analysis.keyResources.map((res, i) => (
+                                            <li key={i}>
+                                                {res.name}
+                                                <CitationRefs analysis={analysis} citations={res.citations} />
+                                                <SourceRefs analysis={analysis} refs={analysis.sources?.keyResources?.[i]} />
+                                                {res.link && <a href={`https://${res.link}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline ml-2 text-xs">[{res.link}]</a>}
+                                                <CitedBy sentences={res.citedBy} />
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </AnalysisSection>
+                            </div>
+                        </>
+                    )}
+
+                    {analysis.references && analysis.references.length > 0 && (
+                        <AnalysisSection title="Sources">
+                            <ol className="space-y-2 text-sm">
+                                {analysis.references.map((reference, i) => (
                                     <li key={i}>
-                                        {res.name}
-                                        {res.link && <a href={`https://${res.link}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline ml-2 text-xs">[{res.link}]</a>}
+                                        <span className="font-mono text-slate-500 mr-2">[{reference.number}]</span>
+                                        {reference.link
+                                            ? <a href={`https://${reference.link}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{reference.label}</a>
+                                            : reference.label}
+                                        {reference.section && <span className="ml-2 text-xs text-slate-500">{reference.section}</span>}
+                                        {reference.citedBy.length === 0
+                                            ? <span className="ml-2 text-xs text-amber-400">not cited</span>
+                                            : <CitedBy sentences={reference.citedBy} />}
                                     </li>
                                 ))}
-                            </ul>
+                            </ol>
                         </AnalysisSection>
-                    </div>
+                    )}
                 </div>
             )}
             
-            {!isLoading && !error && !analysis && (
+            {!isLoading && !error && !analysis && !comparison && (
                 <div className="text-center py-20 px-6 rounded-2xl glass-card">
                     <div className="flex justify-center items-center mb-4">
                         <SparklesIcon className="w-12 h-12 text-cyan-500" />
                     </div>
                     <h2 className="text-2xl font-bold text-white mb-2">Unlock Deeper Insights</h2>
                     <p className="text-slate-400 max-w-2xl mx-auto">
-                        Paste any document—meeting notes, project briefs, articles—to extract structured data and key takeaways instantly.
+                        Paste any document—meeting notes, project briefs, articles—or drop in PDF, Markdown, HTML, CSV and text files to extract structured data and key takeaways instantly.
                     </p>
                 </div>
             )}
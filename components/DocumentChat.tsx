@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { type DocumentAnalysis, type DocumentQAMessage } from '../types';
+import { askDocumentQuestion } from '../services/geminiService';
+import { isAbortError } from '../services/abort';
+import { toApexError, type ApexError } from '../services/errors';
+
+interface DocumentChatProps {
+    documentText: string;
+    analysis: DocumentAnalysis;
+    onConversationChange: (conversation: DocumentQAMessage[]) => void;
+}
+
+const SUGGESTED_QUESTIONS = [
+    "What's the exact submission format?",
+    'Who is eligible to take part?',
+    'How are submissions evaluated?',
+];
+
+function QAMessage({ message, analysis }: { message: DocumentQAMessage; analysis: DocumentAnalysis }) {
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-end">
+                <p className="max-w-[85%] px-3 py-2 rounded-lg bg-cyan-600/20 border border-cyan-500/30 text-sm text-slate-100">{message.question}</p>
+            </div>
+            <div className={`max-w-[90%] px-3 py-2 rounded-lg border text-sm ${message.answerable ? 'bg-slate-800/50 border-slate-700/50 text-slate-200' : 'bg-amber-900/10 border-amber-500/20 text-amber-200/90'}`}>
+                {!message.answerable && <span className="block text-[10px] font-bold uppercase tracking-wider text-amber-400 mb-1">Not in the document</span>}
+                <p className="whitespace-pre-wrap">{message.answer}</p>
+                {message.quotes.length > 0 && (
+                    <div className="mt-2 space-y-1.5">
+                        {message.quotes.map((quote, i) => (
+                            <blockquote
+                                key={i}
+                                className={`pl-3 border-l-2 text-xs italic ${quote.verified ? 'border-cyan-500/60 text-slate-400' : 'border-red-500/50 text-red-300/80'}`}
+                                title={quote.verified ? 'Found in the document' : 'Not found verbatim in the document'}
+                            >
+                                “{quote.text}”
+                                {quote.chunkIndex !== undefined && (
+                                    <span className="not-italic ml-2 px-1.5 rounded bg-slate-700/60 text-[10px] font-mono text-slate-400">
+                                        §{quote.chunkIndex + 1}{analysis.chunks?.[quote.chunkIndex]?.heading ? ` ${analysis.chunks[quote.chunkIndex].heading}` : ''}
+                                    </span>
+                                )}
+                                {!quote.verified && <span className="not-italic ml-2 text-[10px] font-semibold">unverified</span>}
+                            </blockquote>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Follow-up questions answered only from the analyzed document, with supporting quotes.
+ */
+export function DocumentChat({ documentText, analysis, onConversationChange }: DocumentChatProps) {
+    const [question, setQuestion] = useState('');
+    const [pending, setPending] = useState<string | null>(null);
+    const [error, setError] = useState<ApexError | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const conversation = analysis.conversation ?? [];
+
+    // A new document (or unmount) abandons any question still in flight
+    useEffect(() => () => controllerRef.current?.abort(), [documentText]);
+
+    const ask = async (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed || pending) return;
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setPending(trimmed);
+        setError(null);
+        try {
+            const message = await askDocumentQuestion(documentText, analysis, trimmed, { signal: controller.signal });
+            if (controllerRef.current !== controller) return;
+            onConversationChange([...conversation, message]);
+            setQuestion('');
+        } catch (err) {
+            if (controllerRef.current !== controller || isAbortError(err)) return;
+            setError(toApexError(err));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setPending(null);
+            }
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(question);
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setPending(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            {conversation.length === 0 && !pending && (
+                <div className="flex flex-wrap gap-2">
+                    {SUGGESTED_QUESTIONS.map(q => (
+                        <button key={q} type="button" onClick={() => ask(q)} className="px-3 py-1 rounded-full text-xs border border-slate-700 text-slate-400 hover:text-cyan-300 hover:border-cyan-500/50">
+                            {q}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {conversation.length > 0 && (
+                <div className="space-y-4 max-h-[32rem] overflow-y-auto pr-1">
+                    {conversation.map(message => (
+                        <div key={message.id}>
+                            <QAMessage message={message} analysis={analysis} />
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {pending && (
+                <div className="flex items-center justify-between gap-3 text-sm text-slate-400">
+                    <span className="animate-pulse">Searching the document for “{pending}”...</span>
+                    <button type="button" onClick={handleCancel} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Cancel</button>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-400">{error.title}: {error.message}</p>}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder="Ask about this document..."
+                    className="flex-1 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                />
+                <button
+                    type="submit"
+                    disabled={!question.trim() || !!pending}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                >
+                    Ask
+                </button>
+                {conversation.length > 0 && (
+                    <button type="button" onClick={() => onConversationChange([])} disabled={!!pending} className="px-3 text-xs text-slate-500 hover:text-slate-300 font-semibold">
+                        Clear
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { type AnalysisDiff, type DocumentComparison, type ListItemChange, type MilestoneChange, type TemplateFieldValue, type TextDiffSegment } from '../types';
+import { diffText, diffWords, diffStats } from '../services/text-diff';
+import { comparisonToMarkdown, formatMilestoneDate, formatShift, LIST_LABELS } from '../services/analysis-diff';
+import { downloadTextFile, toFileSlug } from '../services/download';
+import { DiffText } from './DiffText';
+
+interface DocumentComparisonViewProps {
+    comparison: DocumentComparison;
+}
+
+const CONTEXT_LINES = 2;
+
+const CHANGE_BADGES: Record<string, string> = {
+    added: 'bg-green-500/10 text-green-300 border-green-500/30',
+    removed: 'bg-red-500/10 text-red-300 border-red-500/30',
+    moved: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+    modified: 'bg-blue-500/10 text-blue-300 border-blue-500/30',
+};
+
+function Badge({ kind, label }: { kind: string; label?: string }) {
+    return <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase flex-shrink-0 ${CHANGE_BADGES[kind]}`}>{label ?? kind}</span>;
+}
+
+function ListChangeRow({ change }: { change: ListItemChange }) {
+    return (
+        <div className="flex items-start gap-2 text-sm">
+            <Badge kind={change.kind} />
+            {change.kind === 'modified'
+                ? <span><DiffText segments={diffWords(change.before ?? '', change.after ?? '')} /></span>
+                : <span className={change.kind === 'removed' ? 'line-through text-slate-500' : 'text-slate-200'}>{change.after ?? change.before}</span>}
+        </div>
+    );
+}
+
+function MilestoneChangeRow({ change }: { change: MilestoneChange }) {
+    const label = change.kind === 'moved' && change.shiftDays !== undefined ? `moved ${formatShift(change.shiftDays)}` : change.kind;
+    return (
+        <div className="flex items-start gap-2 text-sm">
+            <Badge kind={change.kind} label={label} />
+            <span>
+                <span className="font-semibold text-white">{change.after?.event ?? change.before?.event}</span>
+                <span className="text-slate-400">
+                    {' · '}
+                    {change.before && <span className={change.after ? 'line-through text-slate-500' : ''}>{formatMilestoneDate(change.before)}</span>}
+                    {change.before && change.after && ' → '}
+                    {change.after && <span className="text-purple-300">{formatMilestoneDate(change.after)}</span>}
+                </span>
+            </span>
+        </div>
+    );
+}
+
+const formatValue = (value: TemplateFieldValue | undefined) =>
+    value === undefined || value === null || (Array.isArray(value) && value.length === 0) ? '—' : Array.isArray(value) ? value.join('; ') : String(value);
+
+/**
+ * Collapses long unchanged stretches to a few lines of context around each change.
+ */
+type CollapsedSegment = TextDiffSegment | { type: 'skipped'; lines: number };
+
+function collapseUnchanged(segments: TextDiffSegment[]): CollapsedSegment[] {
+    return segments.flatMap((segment, i): CollapsedSegment[] => {
+        if (segment.type !== 'equal') return [segment];
+        const lines = segment.text.split(/(?<=\n)/);
+        const head = i === 0 ? 0 : CONTEXT_LINES;
+        const tail = i === segments.length - 1 ? 0 : CONTEXT_LINES;
+        if (lines.length <= head + tail + 1) return [segment];
+        return [
+            ...(head > 0 ? [{ type: 'equal' as const, text: lines.slice(0, head).join('') }] : []),
+            { type: 'skipped' as const, lines: lines.length - head - tail },
+            ...(tail > 0 ? [{ type: 'equal' as const, text: lines.slice(-tail).join('') }] : []),
+        ];
+    });
+}
+
+/**
+ * What changed between two analyzed versions of a document: the structured
+ * differences first, then the highlighted text diff.
+ */
+export function DocumentComparisonView({ comparison }: DocumentComparisonViewProps) {
+    const { before, after, diff } = comparison;
+    const [showAllText, setShowAllText] = useState(false);
+    const textDiff = useMemo(() => diffText(comparison.beforeText, comparison.afterText), [comparison.beforeText, comparison.afterText]);
+    const stats = diffStats(textDiff);
+    const lists = (Object.entries(diff.lists) as [keyof AnalysisDiff['lists'], ListItemChange[]][]).filter(([, changes]) => changes.length > 0);
+
+    const handleExport = () => {
+        downloadTextFile(`${toFileSlug(after.title, 'comparison')}-changes.md`, comparisonToMarkdown(comparison, textDiff), 'text/markdown');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="text-center">
+                <h2 className="text-3xl font-bold text-white">{after.title}</h2>
+                {diff.titleChanged && <p className="text-sm text-slate-500 mt-1">previously “{before.title}”</p>}
+                <p className="text-sm text-slate-400 mt-2">
+                    {diff.changeCount} structured change{diff.changeCount === 1 ? '' : 's'} · <span className="text-green-400">+{stats.inserted}</span> / <span className="text-red-400">-{stats.deleted}</span> words
+                </p>
+                <button type="button" onClick={handleExport} className="mt-3 text-xs px-3 py-1.5 rounded-md border border-cyan-500/40 text-cyan-300 hover:text-white hover:bg-cyan-500/20 font-semibold">
+                    Export Markdown
+                </button>
+            </div>
+
+            {diff.summaryChanged && (
+                <div className="glass-card rounded-2xl p-6">
+                    <h3 className="text-lg font-bold text-cyan-400 mb-3 uppercase tracking-wider">Summary</h3>
+                    <p className="text-sm text-slate-300 leading-relaxed"><DiffText segments={diffWords(before.summary, after.summary)} /></p>
+                </div>
+            )}
+
+            {diff.milestones.length > 0 && (
+                <div className="glass-card rounded-2xl p-6">
+                    <h3 className="text-lg font-bold text-purple-400 mb-3 uppercase tracking-wider">Milestones</h3>
+                    <div className="space-y-2">
+                        {diff.milestones.map((change, i) => <div key={i}><MilestoneChangeRow change={change} /></div>)}
+                    </div>
+                </div>
+            )}
+
+            {lists.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {lists.map(([list, changes]) => (
+                        <div key={list} className="glass-card rounded-2xl p-6">
+                            <h3 className="text-lg font-bold text-green-400 mb-3 uppercase tracking-wider">{LIST_LABELS[list]}</h3>
+                            <div className="space-y-2">
+                                {changes.map((change, i) => <div key={i}><ListChangeRow change={change} /></div>)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {diff.fields.length > 0 && (
+                <div className="glass-card rounded-2xl p-6">
+                    <h3 className="text-lg font-bold text-amber-400 mb-3 uppercase tracking-wider">Fields</h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-slate-500 uppercase">
+                                <th className="py-1 pr-4">Field</th><th className="py-1 pr-4">Before</th><th className="py-1">After</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {diff.fields.map(field => (
+                                <tr key={field.key} className="border-t border-slate-700/50 align-top">
+                                    <td className="py-2 pr-4 font-semibold text-slate-300">{field.label}</td>
+                                    <td className="py-2 pr-4 text-slate-500 line-through">{formatValue(field.before)}</td>
+                                    <td className="py-2 text-slate-200">{formatValue(field.after)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {diff.changeCount === 0 && !diff.summaryChanged && (
+                <p className="text-center text-sm text-slate-400">The analyses match; see the text changes below.</p>
+            )}
+
+            <div className="glass-card rounded-2xl p-6">
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-lg font-bold text-cyan-400 uppercase tracking-wider">Text Changes</h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        <input type="checkbox" checked={showAllText} onChange={(e) => setShowAllText(e.target.checked)} />
+                        Show unchanged text
+                    </label>
+                </div>
+                <pre className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap font-sans text-sm text-slate-400 leading-relaxed">
+                    {(showAllText ? textDiff : collapseUnchanged(textDiff)).map((segment, i) =>
+                        segment.type === 'skipped'
+                            ? <span key={i} className="block my-2 text-center text-xs text-slate-600">⋯ {segment.lines} unchanged lines ⋯</span>
+                            : <span key={i}><DiffText segments={[segment]} /></span>
+                    )}
+                </pre>
+            </div>
+        </div>
+    );
+}
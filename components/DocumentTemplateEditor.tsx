@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { type DocumentTemplate, type TemplateField, type TemplateFieldType } from '../types';
+import { createTemplateId, toFieldKey, validateTemplate } from '../services/document-templates';
+
+interface DocumentTemplateEditorProps {
+    template: DocumentTemplate | null; // null creates a new template
+    onSave: (template: DocumentTemplate) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const FIELD_TYPES: { value: TemplateFieldType; label: string }[] = [
+    { value: 'text', label: 'Text' },
+    { value: 'number', label: 'Number' },
+    { value: 'date', label: 'Date' },
+    { value: 'boolean', label: 'Yes / No' },
+    { value: 'url', label: 'URL' },
+];
+
+// Keys are assigned on save, so renaming a new field keeps its key in sync with the label
+const emptyField = (): TemplateField => ({ key: '', label: '', type: 'text', description: '', list: false });
+
+const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+/**
+ * Form for defining a document template's fields. Built-in templates are
+ * read-only but can be duplicated as a starting point.
+ */
+export function DocumentTemplateEditor({ template, onSave, onDelete, onClose }: DocumentTemplateEditorProps) {
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [fields, setFields] = useState<TemplateField[]>([]);
+    const [problems, setProblems] = useState<string[]>([]);
+    const readOnly = !!template?.builtIn;
+
+    useEffect(() => {
+        setName(template?.name ?? '');
+        setDescription(template?.description ?? '');
+        setFields(template?.fields.length ? template.fields : [emptyField()]);
+        setProblems([]);
+    }, [template]);
+
+    const updateField = (index: number, changes: Partial<TemplateField>) => {
+        setFields(prev => prev.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+    };
+
+    const buildTemplate = (id: string, templateName: string): DocumentTemplate => ({
+        id,
+        name: templateName.trim(),
+        description: description.trim(),
+        fields: fields
+            .filter(f => f.label.trim())
+            .map(f => ({ ...f, label: f.label.trim(), description: f.description.trim() || f.label.trim(), key: f.key || toFieldKey(f.label) })),
+    });
+
+    const handleSave = () => {
+        if (readOnly) return;
+        const next = buildTemplate(template?.id ?? createTemplateId(name), name);
+        const found = validateTemplate(next);
+        setProblems(found);
+        if (found.length === 0) onSave(next);
+    };
+
+    const handleDuplicate = () => {
+        if (!template) return;
+        const copyName = `${template.name} (copy)`;
+        onSave(buildTemplate(createTemplateId(copyName), copyName));
+    };
+
+    return (
+        <div className="p-4 bg-slate-900/40 border border-slate-700/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="text-sm font-bold text-white">{template ? (readOnly ? `${template.name} (built-in)` : `Edit "${template.name}"`) : 'New Template'}</h4>
+                <button type="button" onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Close</button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-xs text-slate-400">Name
+                    <input type="text" value={name} disabled={readOnly} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Grant Application" />
+                </label>
+                <label className="text-xs text-slate-400">Description
+                    <input type="text" value={description} disabled={readOnly} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="What documents this template is for" />
+                </label>
+            </div>
+
+            {readOnly && fields.length === 0 ? (
+                <p className="text-xs text-slate-500">Uses the original extraction: objectives, milestones, models, resources and submission requirements.</p>
+            ) : (
+                <div className="space-y-2">
+                    <p className="text-xs font-semibold text-slate-400">Fields</p>
+                    {fields.map((field, i) => (
+                        <div key={i} className="p-2 border border-slate-700/50 rounded-md space-y-2">
+                            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto_auto] gap-2 items-center">
+                                <input type="text" value={field.label} disabled={readOnly} onChange={(e) => updateField(i, { label: e.target.value })} className={inputClass} placeholder="Field name" aria-label="Field name" />
+                                <select value={field.type} disabled={readOnly} onChange={(e) => updateField(i, { type: e.target.value as TemplateFieldType })} className={inputClass} aria-label="Field type">
+                                    {FIELD_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                </select>
+                                <label className="flex items-center gap-1 text-xs text-slate-400 whitespace-nowrap">
+                                    <input type="checkbox" checked={field.list} disabled={readOnly} onChange={(e) => updateField(i, { list: e.target.checked })} /> List
+                                </label>
+                                <label className="flex items-center gap-1 text-xs text-slate-400 whitespace-nowrap">
+                                    <input type="checkbox" checked={!!field.required} disabled={readOnly} onChange={(e) => updateField(i, { required: e.target.checked })} /> Required
+                                </label>
+                                {!readOnly && (
+                                    <button type="button" onClick={() => setFields(prev => prev.filter((_, j) => j !== i))} aria-label={`Remove ${field.label || 'field'}`} className="text-xs text-slate-500 hover:text-red-400 font-semibold">
+                                        Remove
+                                    </button>
+                                )}
+                            </div>
+                            <input type="text" value={field.description} disabled={readOnly} onChange={(e) => updateField(i, { description: e.target.value })} className={inputClass} placeholder="What to extract, e.g. 'Date the agreement takes effect'" aria-label="Field description" />
+                        </div>
+                    ))}
+                    {!readOnly && (
+                        <button type="button" onClick={() => setFields(prev => [...prev, emptyField()])} className="text-xs text-cyan-400 hover:text-cyan-300 font-semibold">
+                            + Add Field
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {problems.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-red-400">
+                    {problems.map(p => <li key={p}>{p}</li>)}
+                </ul>
+            )}
+
+            <div className="flex justify-between pt-1">
+                {readOnly ? (
+                    fields.length > 0 && (
+                        <button type="button" onClick={handleDuplicate} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg text-sm">
+                            Duplicate & Edit
+                        </button>
+                    )
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={!name.trim()}
+                        className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                    >
+                        Save Template
+                    </button>
+                )}
+                {template && !readOnly && (
+                    <button type="button" onClick={() => onDelete(template.id)} className="text-xs text-red-400 hover:text-red-300 font-semibold">
+                        Delete
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,16 +1,28 @@
-
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { type ApexError, RateLimitedError, XApiError } from '../services/errors';
 
 interface ErrorDisplayProps {
-  message: string;
+  error: ApexError;
   onRetry?: () => void;
 }
 
-export function ErrorDisplay({ message, onRetry }: ErrorDisplayProps) {
-  const safeMessage = message || "An unexpected error occurred.";
-  const parts = safeMessage.split(/:(.*)/s);
-  const title = parts.length > 1 ? parts[0] : 'Analysis Failed';
-  const description = parts.length > 1 ? parts[1].trim() : safeMessage;
+export function ErrorDisplay({ error, onRetry }: ErrorDisplayProps) {
+  const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : undefined;
+  const [retryAt] = useState(() => Date.now() + (retryAfterMs ?? 0));
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil((retryAfterMs ?? 0) / 1000));
+
+  // Count down the server-suggested wait before enabling the retry button
+  useEffect(() => {
+    if (retryAt <= Date.now()) return;
+    const interval = setInterval(() => {
+      const left = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const description = error.message || "An unexpected error occurred.";
 
   return (
     <div className="max-w-3xl mx-auto my-8 p-6 bg-red-900/30 border border-red-500/50 rounded-2xl shadow-lg">
@@ -20,15 +32,28 @@ export function ErrorDisplay({ message, onRetry }: ErrorDisplayProps) {
               <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
             </svg>
         </div>
-        <div>
-          <h3 className="text-lg font-bold text-red-300">{title}</h3>
+        <div className="flex-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-lg font-bold text-red-300">{error.title}</h3>
+            <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider bg-red-500/10 text-red-300 border border-red-500/30">
+              {error.code}{error instanceof XApiError ? ` ${error.status}` : ''}
+            </span>
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border ${error.retryable ? 'bg-blue-500/10 text-blue-300 border-blue-500/30' : 'bg-slate-700/30 text-slate-400 border-slate-600/50'}`}>
+              {error.retryable ? 'Retryable' : 'Needs action'}
+            </span>
+          </div>
           <p className="text-red-400/90 mt-1">{description}</p>
+          <p className="text-slate-300 text-sm mt-3">
+            <span className="font-semibold text-slate-200">What to do: </span>
+            {error.remediation}
+          </p>
           {onRetry && (
             <button
                 onClick={onRetry}
-                className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition-all text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-blue-500"
+                disabled={secondsLeft > 0}
+                className="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition-all text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-blue-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
             >
-                Try Again
+                {secondsLeft > 0 ? `Try Again in ${secondsLeft}s` : 'Try Again'}
             </button>
           )}
         </div>
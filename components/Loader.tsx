@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { ApexLogo } from './icons/Icons';
+import { subscribeToScheduler } from '../services/geminiService';
+import { type LaneStatus, type RequestPriority } from '../services/request-scheduler';
 
-export function Loader() {
+interface LoaderProps {
+    onCancel?: () => void;
+    priority?: RequestPriority;
+}
+
+export function Loader({ onCancel, priority = 'interactive' }: LoaderProps = {}) {
     const loadingMessages = [
         "Phase 1/9: Executing deep psychological deconstruction...",
         "Phase 2/9: Generating 25 mass candidate strategies...",
@@ -14,6 +21,9 @@ export function Loader() {
         "Phase 9/9: Finalizing validation and ranking..."
     ];
     const [messageIndex, setMessageIndex] = useState(0);
+    const [queue, setQueue] = useState<LaneStatus | null>(null);
+
+    useEffect(() => subscribeToScheduler(status => setQueue(status.lanes[priority])), [priority]);
 
     useEffect(() => {
         const interval = setInterval(() => {
@@ -32,6 +42,19 @@ export function Loader() {
             <p className="text-slate-400 transition-opacity duration-500">
                 {loadingMessages[messageIndex]}
             </p>
+            {queue && queue.queued > 0 && (
+                <p className="mt-3 text-xs font-semibold text-amber-300">
+                    Queued behind rate limits: {queue.queued} request{queue.queued === 1 ? '' : 's'} waiting, ETA ~{Math.ceil(queue.etaMs / 1000)}s
+                </p>
+            )}
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="mt-6 px-4 py-2 text-sm font-semibold text-slate-300 bg-slate-800/60 border border-slate-700 rounded-lg hover:bg-slate-700/60 hover:text-white transition-colors"
+                >
+                    Cancel
+                </button>
+            )}
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { type DocumentAnalysis } from '../types';
+import { buildTimeline, nextDeadline, formatCountdown, formatRange, type TimelineEntry } from '../services/timeline';
+import { buildMilestoneCalendar } from '../services/ics';
+import { downloadTextFile, toFileSlug } from '../services/download';
+
+interface MilestoneTimelineProps {
+    analysis: DocumentAnalysis;
+    renderSources?: (milestoneIndex: number) => React.ReactNode;
+}
+
+const STATUS_DOT: Record<TimelineEntry['status'], string> = {
+    past: 'bg-slate-600',
+    active: 'bg-green-400 animate-pulse',
+    upcoming: 'bg-purple-500',
+    unscheduled: 'bg-slate-700 border-dashed',
+};
+
+function CountdownBadge({ entry }: { entry: TimelineEntry }) {
+    if (entry.status === 'past') return <span className="text-[10px] font-semibold text-slate-500 uppercase">Done</span>;
+    if (entry.status === 'unscheduled') return <span className="text-[10px] font-semibold text-slate-500 uppercase">No date</span>;
+    const urgent = entry.isDeadline && (entry.msUntil ?? Infinity) < 3 * 86400000;
+    const label = entry.status === 'active' ? `ends in ${formatCountdown(entry.msUntil ?? 0)}` : `${entry.isDeadline ? 'due' : 'starts'} in ${formatCountdown(entry.msUntil ?? 0)}`;
+    return (
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${urgent ? 'bg-red-500/10 text-red-300 border-red-500/30' : entry.status === 'active' ? 'bg-green-500/10 text-green-300 border-green-500/30' : 'bg-purple-500/10 text-purple-300 border-purple-500/30'}`}>
+            {label}
+        </span>
+    );
+}
+
+/**
+ * Milestones ordered by their parsed dates, with live countdowns and calendar export.
+ */
+export function MilestoneTimeline({ analysis, renderSources }: MilestoneTimelineProps) {
+    const [now, setNow] = useState(() => new Date());
+    const [exportNote, setExportNote] = useState<string | null>(null);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 60000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const entries = useMemo(() => buildTimeline(analysis.milestones, now), [analysis.milestones, now]);
+    const upcomingDeadline = nextDeadline(entries);
+    const datedCount = entries.filter(e => e.range).length;
+
+    const handleExport = () => {
+        const { ics, skipped } = buildMilestoneCalendar(analysis);
+        downloadTextFile(`${toFileSlug(analysis.title, 'milestones')}.ics`, ics, 'text/calendar');
+        setExportNote(skipped.length > 0 ? `Exported ${datedCount} events. Skipped (no date): ${skipped.join(', ')}` : `Exported ${datedCount} events.`);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                {upcomingDeadline ? (
+                    <p className="text-sm text-slate-300">
+                        Next deadline: <span className="font-semibold text-white">{upcomingDeadline.milestone.event}</span>
+                        <span className="text-slate-400"> in {formatCountdown(upcomingDeadline.msUntil ?? 0)}</span>
+                    </p>
+                ) : <span />}
+                <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={datedCount === 0}
+                    className="text-xs px-3 py-1.5 rounded-md border border-purple-500/40 text-purple-300 hover:text-white hover:bg-purple-500/20 font-semibold disabled:opacity-40"
+                >
+                    Export .ics
+                </button>
+            </div>
+            {exportNote && <p className="text-xs text-slate-500">{exportNote}</p>}
+
+            <div className="relative border-l-2 border-slate-700 pl-6 space-y-6">
+                {entries.map(entry => (
+                    <div key={entry.index} className={`relative ${entry.status === 'past' ? 'opacity-60' : ''}`}>
+                        <div className={`absolute -left-[34px] top-1 w-4 h-4 rounded-full border-4 border-slate-800 ${STATUS_DOT[entry.status]}`}></div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-bold text-purple-300">
+                                {entry.range ? formatRange(entry.range) : entry.milestone.date}
+                                {renderSources?.(entry.index)}
+                            </p>
+                            <CountdownBadge entry={entry} />
+                            {entry.isDeadline && <span className="text-[10px] font-bold text-amber-300 uppercase">Deadline</span>}
+                        </div>
+                        {entry.range && (entry.range.confidence < 0.6 || formatRange(entry.range) !== entry.milestone.date) && (
+                            <p className="text-xs text-slate-500" title={`Parse confidence ${Math.round(entry.range.confidence * 100)}%`}>
+                                “{entry.milestone.date}”{entry.range.confidence < 0.6 ? ' · approximate' : ''}
+                            </p>
+                        )}
+                        <p className="font-semibold text-white">{entry.milestone.event}</p>
+                        {entry.milestone.details && <p className="text-sm text-slate-400">{entry.milestone.details}</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
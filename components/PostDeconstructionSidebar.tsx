@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { languageName } from '../services/language';
 import { type PostAnalysis } from '../types';
 
 interface PostDeconstructionSidebarProps {
@@ -74,8 +75,55 @@ export function PostDeconstructionSidebar({ analysis }: PostDeconstructionSideba
             <StatCard label="Tone" value={tone} />
         </div>
 
+        {analysis.validationWarnings && analysis.validationWarnings.length > 0 && (
+            <div className="mb-6 p-3 bg-amber-900/20 border border-amber-500/20 rounded-lg" title={analysis.validationWarnings.map(w => `${w.path}: ${w.message}`).join('\n')}>
+                <span className="text-xs text-amber-300 font-semibold">⚠ {analysis.validationWarnings.length} analysis field(s) corrected by the validator</span>
+            </div>
+        )}
+
         <div className="space-y-6">
+
+            {analysis.postType && analysis.postType !== 'single' && (
+                <DeconstructionItem title="Conversation">
+                    <div className="p-3 bg-slate-800/30 rounded-lg border border-slate-700/30 space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-slate-400 text-xs">Post Type</span>
+                            <span className="font-bold text-xs px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-300 border border-blue-500/30">{analysis.postType.toUpperCase()}</span>
+                        </div>
+                        {analysis.conversationContext && (
+                            <div className="flex justify-between text-xs text-slate-400">
+                                <span>{analysis.conversationContext.parents.length} parent(s)</span>
+                                <span>{analysis.conversationContext.quoted ? 'Quotes ' + analysis.conversationContext.quoted.authorHandle : 'No quote'}</span>
+                                <span>{analysis.conversationContext.topReplies.length} top repl{analysis.conversationContext.topReplies.length === 1 ? 'y' : 'ies'}</span>
+                            </div>
+                        )}
+                    </div>
+                </DeconstructionItem>
+            )}
             
+            {analysis.detectedLanguage && (analysis.detectedLanguage.code !== 'en' || (analysis.replyLanguage && analysis.replyLanguage !== 'en')) && (
+                <DeconstructionItem title="Language">
+                    <div className="p-3 bg-slate-800/30 rounded-lg border border-slate-700/30 space-y-2 text-xs">
+                        <div className="flex justify-between items-center">
+                            <span className="text-slate-400">Detected</span>
+                            <span className="font-bold text-slate-200">{analysis.detectedLanguage.name} <span className="text-slate-500 font-normal">({Math.round(analysis.detectedLanguage.confidence * 100)}%)</span></span>
+                        </div>
+                        {analysis.replyLanguage && (
+                            <div className="flex justify-between items-center">
+                                <span className="text-slate-400">Replies In</span>
+                                <span className="font-bold text-blue-300">{languageName(analysis.replyLanguage)}</span>
+                            </div>
+                        )}
+                    </div>
+                </DeconstructionItem>
+            )}
+
+            {analysis.mediaDescription && (
+                <DeconstructionItem title={`Media (${analysis.mediaCount ?? 1} image${(analysis.mediaCount ?? 1) === 1 ? '' : 's'})`}>
+                    <p className="p-3 bg-slate-800/30 rounded-lg border border-slate-700/30 text-sm text-slate-300">{analysis.mediaDescription}</p>
+                </DeconstructionItem>
+            )}
+
             <DeconstructionItem title="GraphJet Topology" isRepo>
                  <div className="p-3 bg-purple-900/10 rounded-lg border border-purple-500/20 space-y-3">
                     <div className="flex justify-between items-center">
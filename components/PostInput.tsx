@@ -2,31 +2,91 @@
 
 
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { BrainCircuitIcon } from './icons/Icons';
+import { ConversationContextEditor } from './ConversationContextEditor';
+import { type ConversationContext, type MediaAttachment, type PostAnalysisInput, type StrategyDefinition, type VoiceProfile } from '../types';
+import { EMPTY_CONVERSATION_CONTEXT, pruneContext } from '../services/conversation-context';
+import { MAX_ATTACHMENTS, SUPPORTED_IMAGE_TYPES, readImageFile, toDataUrl } from '../services/media';
+import { DEFAULT_VOICE_PROFILE } from '../services/voice-profiles';
+import { SUPPORTED_LANGUAGES, detectLanguage, languageName, replyLanguageFor } from '../services/language';
+import { VoiceProfileEditor } from './VoiceProfileEditor';
+import { StrategyCatalogEditor } from './StrategyCatalogEditor';
 
 interface PostInputProps {
-    onAnalyze: (postText: string, authorHandle: string) => void;
+    onAnalyze: (input: PostAnalysisInput) => void;
     isLoading: boolean;
     onLoadExample: () => void;
     exampleData: {post: string, author: string} | null;
+    voiceProfiles: VoiceProfile[];
+    onSaveVoiceProfile: (profile: VoiceProfile) => void;
+    onDeleteVoiceProfile: (id: string) => void;
+    strategyCatalog: StrategyDefinition[];
+    onToggleStrategy: (id: string, enabled: boolean) => void;
+    onSaveStrategy: (strategy: StrategyDefinition) => void;
+    onDeleteStrategy: (id: string) => void;
 }
 
-export function PostInput({ onAnalyze, isLoading, onLoadExample, exampleData }: PostInputProps) {
+export function PostInput({ onAnalyze, isLoading, onLoadExample, exampleData, voiceProfiles, onSaveVoiceProfile, onDeleteVoiceProfile, strategyCatalog, onToggleStrategy, onSaveStrategy, onDeleteStrategy }: PostInputProps) {
     const [postText, setPostText] = useState('');
     const [authorHandle, setAuthorHandle] = useState('');
+    const [context, setContext] = useState<ConversationContext>(EMPTY_CONVERSATION_CONTEXT);
+    const [media, setMedia] = useState<MediaAttachment[]>([]);
+    const [mediaError, setMediaError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [voiceProfileId, setVoiceProfileId] = useState(DEFAULT_VOICE_PROFILE.id);
+    const [editingVoice, setEditingVoice] = useState<'new' | string | null>(null);
+    const [targetLanguage, setTargetLanguage] = useState('auto');
+    const [showStrategies, setShowStrategies] = useState(false);
+    const detected = postText.trim() ? detectLanguage(postText) : null;
+
+    // Fall back to the default voice if the selected profile was deleted
+    useEffect(() => {
+        if (!voiceProfiles.some(p => p.id === voiceProfileId)) setVoiceProfileId(DEFAULT_VOICE_PROFILE.id);
+    }, [voiceProfiles, voiceProfileId]);
 
     useEffect(() => {
         if (exampleData) {
             setPostText(exampleData.post);
             setAuthorHandle(exampleData.author);
+            setContext(EMPTY_CONVERSATION_CONTEXT);
+            setMedia([]);
         }
     }, [exampleData]);
 
+    const addImages = async (files: File[]) => {
+        setMediaError(null);
+        const room = MAX_ATTACHMENTS - media.length;
+        if (files.length > room) setMediaError(`Only ${MAX_ATTACHMENTS} images can be attached.`);
+        const added: MediaAttachment[] = [];
+        for (const file of files.slice(0, Math.max(0, room))) {
+            try {
+                added.push(await readImageFile(file));
+            } catch (err) {
+                setMediaError(err instanceof Error ? err.message : 'Could not read the image.');
+            }
+        }
+        if (added.length > 0) setMedia(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    };
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        const images = Array.from(e.clipboardData.files as FileList).filter(f => f.type.startsWith('image/'));
+        if (images.length === 0) return;
+        e.preventDefault();
+        addImages(images);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (postText.trim() && !isLoading) {
-            onAnalyze(postText, authorHandle);
+        if ((postText.trim() || media.length > 0) && !isLoading) {
+            onAnalyze({
+                postText,
+                authorHandle,
+                context: pruneContext(context),
+                media: media.length > 0 ? media : undefined,
+                voiceProfileId,
+                targetLanguage,
+            });
         }
     };
 
@@ -51,11 +111,52 @@ export function PostInput({ onAnalyze, isLoading, onLoadExample, exampleData }:
                         id="postText"
                         value={postText}
                         onChange={(e) => setPostText(e.target.value)}
+                        onPaste={handlePaste}
                         rows={5}
-                        placeholder="Paste the X post you want to reply to..."
+                        placeholder="Paste the X post you want to reply to (images can be pasted too)..."
                         className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-shadow duration-200"
-                        required
+                        required={media.length === 0}
                     />
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                        {media.map((item, i) => (
+                            <div key={i} className="relative group">
+                                <img
+                                    src={toDataUrl(item)}
+                                    alt={item.altText || `Attachment ${i + 1}`}
+                                    className="w-16 h-16 object-cover rounded-md border border-slate-700"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setMedia(prev => prev.filter((_, j) => j !== i))}
+                                    aria-label={`Remove attachment ${i + 1}`}
+                                    className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-slate-900 border border-slate-600 text-slate-300 text-xs leading-none hover:text-red-400"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                        {media.length < MAX_ATTACHMENTS && (
+                            <button
+                                type="button"
+                                onClick={() => fileInputRef.current?.click()}
+                                className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                            >
+                                + Attach Image{media.length > 0 ? ` (${media.length}/${MAX_ATTACHMENTS})` : ''}
+                            </button>
+                        )}
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={SUPPORTED_IMAGE_TYPES.join(',')}
+                            multiple
+                            className="hidden"
+                            onChange={(e) => {
+                                addImages(Array.from((e.target.files ?? []) as ArrayLike<File>));
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    {mediaError && <p className="mt-1 text-xs text-red-400">{mediaError}</p>}
                 </div>
                 <div className="mb-6">
                     <label htmlFor="authorHandle" className="block text-sm font-medium text-slate-400 mb-2">
@@ -70,9 +171,101 @@ export function PostInput({ onAnalyze, isLoading, onLoadExample, exampleData }:
                         className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-shadow duration-200"
                     />
                 </div>
+                <div className="mb-6">
+                    <div className="flex justify-between items-center mb-2">
+                        <label htmlFor="voiceProfile" className="block text-sm font-medium text-slate-400">
+                            Voice Profile
+                        </label>
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={() => setEditingVoice(editingVoice === voiceProfileId ? null : voiceProfileId)}
+                                className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                            >
+                                {voiceProfiles.find(p => p.id === voiceProfileId)?.builtIn ? 'View' : 'Edit'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setEditingVoice('new')}
+                                className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                            >
+                                + New Voice
+                            </button>
+                        </div>
+                    </div>
+                    <select
+                        id="voiceProfile"
+                        value={voiceProfileId}
+                        onChange={(e) => setVoiceProfileId(e.target.value)}
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                        {voiceProfiles.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}{p.tone ? ` — ${p.tone}` : ''}</option>
+                        ))}
+                    </select>
+                    {editingVoice && (
+                        <div className="mt-3">
+                            <VoiceProfileEditor
+                                profile={editingVoice === 'new' ? null : voiceProfiles.find(p => p.id === editingVoice) ?? null}
+                                onSave={(profile) => {
+                                    onSaveVoiceProfile(profile);
+                                    setVoiceProfileId(profile.id);
+                                    setEditingVoice(null);
+                                }}
+                                onDelete={(id) => {
+                                    onDeleteVoiceProfile(id);
+                                    setEditingVoice(null);
+                                }}
+                                onClose={() => setEditingVoice(null)}
+                            />
+                        </div>
+                    )}
+                </div>
+                <div className="mb-6">
+                    <label htmlFor="targetLanguage" className="block text-sm font-medium text-slate-400 mb-2">
+                        Reply Language
+                    </label>
+                    <select
+                        id="targetLanguage"
+                        value={targetLanguage}
+                        onChange={(e) => setTargetLanguage(e.target.value)}
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                        <option value="auto">
+                            Match the post{detected && detected.code !== 'und' ? ` (detected: ${languageName(replyLanguageFor(detected))})` : ''}
+                        </option>
+                        {SUPPORTED_LANGUAGES.map(l => (
+                            <option key={l.code} value={l.code}>{l.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="mb-6">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="block text-sm font-medium text-slate-400">
+                            Strategies
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => setShowStrategies(!showStrategies)}
+                            className="text-xs text-blue-400 hover:text-blue-300 font-semibold"
+                        >
+                            {showStrategies ? 'Done' : 'Choose'}
+                        </button>
+                    </div>
+                    {showStrategies ? (
+                        <StrategyCatalogEditor catalog={strategyCatalog} onToggle={onToggleStrategy} onSave={onSaveStrategy} onDelete={onDeleteStrategy} />
+                    ) : (
+                        <div className="flex flex-wrap gap-2">
+                            {strategyCatalog.filter(s => s.enabled).map(s => (
+                                <span key={s.id} title={s.description} className="px-2 py-1 rounded-md bg-slate-900/50 border border-slate-700 text-xs text-slate-300">{s.icon} {s.name}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <ConversationContextEditor value={context} onChange={setContext} authorHandle={authorHandle} />
                 <button
                     type="submit"
-                    disabled={isLoading || !postText.trim()}
+                    disabled={isLoading || (!postText.trim() && media.length === 0)}
                     className="w-full flex items-center justify-center gap-3 text-white font-bold py-3 px-4 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105 disabled:scale-100 group"
                 >
                     <BrainCircuitIcon className="w-5 h-5 transition-transform group-hover:rotate-6" />
@@ -1,7 +1,10 @@
 
-import React, { useState } from 'react';
-import { type ReplyStrategy, type ABVariant } from '../types';
+import React, { useState, useMemo } from 'react';
+import { type ReplyStrategy, type ABVariant, type PostAnalysis, type StrategyDefinition, type VoiceProfile } from '../types';
+import { FALLBACK_STRATEGY } from '../services/strategy-catalog';
+import { parseTweet, TWITTER_TEXT_CONFIG, type ParsedTweet } from '../services/tweet-text';
 import { GauntletDisplay } from './GauntletDisplay';
+import { StrategyRefiner } from './StrategyRefiner';
 import { ClipboardIcon, CheckIcon, ChevronDownIcon, ChevronUpIcon, StarIcon, RiskIcon } from './icons/Icons';
 
 interface ReplyCardProps {
@@ -9,19 +12,23 @@ interface ReplyCardProps {
     isRecommended: boolean;
     originalPostText: string;
     originalAuthorHandle: string;
+    definition?: StrategyDefinition; // catalog entry the reply was written for
+    analysis?: PostAnalysis; // needed to refine the strategy
+    voiceProfile?: VoiceProfile;
+    onStrategyChange?: (strategy: ReplyStrategy) => void;
+    onCopy?: (variant: 'primary' | 'A' | 'B', text: string) => void;
 }
 
-// Twitter-style circular progress for character count
-const CharacterCountCircle = ({ weightedLength }: { weightedLength: number }) => {
-    const max = 280;
+// Twitter-style circular progress for character count (driven by twitter-text permillage)
+const CharacterCountCircle = ({ parsed }: { parsed: ParsedTweet }) => {
     const radius = 10;
     const circumference = 2 * Math.PI * radius;
-    const progress = Math.min(weightedLength / max, 1);
+    const progress = Math.min(parsed.permillage / 1000, 1);
     const dashoffset = circumference - progress * circumference;
     
     let color = 'text-blue-500';
-    if (weightedLength > 260) color = 'text-yellow-500';
-    if (weightedLength > 280) color = 'text-red-500';
+    if (parsed.weightedLength > TWITTER_TEXT_CONFIG.maxWeightedTweetLength - 20) color = 'text-yellow-500';
+    if (!parsed.valid) color = 'text-red-500';
 
     return (
         <div className="relative w-6 h-6 flex items-center justify-center">
@@ -45,42 +52,36 @@ const CharacterCountCircle = ({ weightedLength }: { weightedLength: number }) =>
     );
 };
 
-export function ReplyCard({ strategy, isRecommended, originalPostText, originalAuthorHandle }: ReplyCardProps) {
-    const strategyMeta: Record<string, { name: string; icon: string }> = {
-        quantitative: { name: 'Quantitative Signal', icon: '📊' },
-        'first-principles': { name: 'First Principles', icon: '🎯' },
-        institutional: { name: 'Institutional', icon: '🏛️' },
-        contrarian: { name: 'Contrarian', icon: '⚡' },
-        historical: { name: 'Historical', icon: '📜' },
-        'risk-opportunity': { name: 'Risk/Reward', icon: '⚖️' },
-        predictive: { name: 'Predictive', icon: '🔮' },
-        surgical: { name: 'Surgical', icon: '🔪' },
-        'lead-lag': { name: 'Lead-Lag', icon: '⏱️' },
-        memetic: { name: 'Memetic Hook', icon: '🔥' },
-        default: { name: 'General Strategy', icon: '💡' }
-    };
-
+export function ReplyCard({ strategy, isRecommended, originalPostText, originalAuthorHandle, definition = FALLBACK_STRATEGY, analysis, voiceProfile, onStrategyChange, onCopy }: ReplyCardProps) {
     const [isPackageCopied, setIsPackageCopied] = useState(false);
     const [isReplyCopied, setIsReplyCopied] = useState(false);
     const [isExpanded, setIsExpanded] = useState(isRecommended);
     const [selectedVariant, setSelectedVariant] = useState<'primary' | 'A' | 'B'>('primary');
+    const [showWarnings, setShowWarnings] = useState(false);
+    const validationWarnings = strategy.validationWarnings ?? [];
 
-    const { name, icon } = strategyMeta[(strategy.strategy || 'default').toLowerCase().replace(/\s/g, '-')] || strategyMeta.default;
+    const { name, icon } = definition;
     
     // Logic to handle variants
     let currentText = strategy.replyText;
-    let currentLen = strategy.weightedLength;
+    let voiceAdherence = strategy.voiceAdherence;
     
     if (selectedVariant === 'A' && strategy.abVariants?.[0]) {
         currentText = strategy.abVariants[0].text;
-        currentLen = strategy.abVariants[0].weightedLength;
+        voiceAdherence = strategy.abVariants[0].voiceAdherence;
     } else if (selectedVariant === 'B' && strategy.abVariants?.[1]) {
         currentText = strategy.abVariants[1].text;
-        currentLen = strategy.abVariants[1].weightedLength;
+        voiceAdherence = strategy.abVariants[1].voiceAdherence;
     }
 
+    const parsed = useMemo(() => parseTweet(currentText || ''), [currentText]);
+    const currentLen = parsed.weightedLength;
+    // Anything past the valid range would be rejected by X; highlight it like the composer does
+    const overflowStart = parsed.valid || !currentText ? currentText.length : parsed.validRange.end + 1;
+
     const handleCopyReply = () => {
         navigator.clipboard.writeText(currentText);
+        onCopy?.(selectedVariant, currentText);
         setIsReplyCopied(true);
         setTimeout(() => setIsReplyCopied(false), 2500);
     };
@@ -100,10 +101,28 @@ export function ReplyCard({ strategy, isRecommended, originalPostText, originalA
                     <div className="flex items-center gap-4">
                         <span className="text-3xl">{icon}</span>
                         <div>
-                            <h3 className="text-lg font-bold text-white">{name}</h3>
+                            <h3 className="text-lg font-bold text-white" title={definition.description || undefined}>{name}</h3>
                             <div className="flex items-center gap-2 text-xs text-slate-400">
                                 <span className="bg-slate-800 px-2 py-0.5 rounded">Graph Score: {strategy.scores?.graphJetRelevance ?? 0}</span>
+                                {strategy.strategyCategory && <span className="uppercase text-[10px] tracking-wider">{strategy.strategyCategory}</span>}
                                 {strategy.gauntletResults?.communityNotesSafe && <span className="text-green-400 flex items-center gap-1"><CheckIcon className="w-3 h-3"/> Note Safe</span>}
+                                {validationWarnings.length > 0 && (
+                                    <button
+                                        onClick={() => setShowWarnings(!showWarnings)}
+                                        title="Some fields in the model output were invalid and have been corrected"
+                                        className="text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded hover:bg-amber-500/20 transition-colors"
+                                    >
+                                        ⚠ {validationWarnings.length} corrected
+                                    </button>
+                                )}
+                                {voiceAdherence && (
+                                    <span
+                                        title={voiceAdherence.violations.length > 0 ? voiceAdherence.violations.join('\n') : 'No voice violations'}
+                                        className={`px-2 py-0.5 rounded border ${voiceAdherence.score >= 80 ? 'text-green-400 bg-green-500/10 border-green-500/20' : voiceAdherence.score >= 60 ? 'text-yellow-400 bg-yellow-500/10 border-yellow-500/20' : 'text-red-400 bg-red-500/10 border-red-500/20'}`}
+                                    >
+                                        Voice {voiceAdherence.score}
+                                    </span>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -113,6 +132,16 @@ export function ReplyCard({ strategy, isRecommended, originalPostText, originalA
                     </div>
                 </div>
 
+                {showWarnings && validationWarnings.length > 0 && (
+                    <ul className="mb-4 p-3 bg-amber-900/20 border border-amber-500/20 rounded-lg space-y-1">
+                        {validationWarnings.map((w, i) => (
+                            <li key={i} className="text-xs text-amber-200/90">
+                                <span className="font-mono text-amber-300">{w.path || 'response'}</span>: {w.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
                 {/* Diffy A/B Testing Tabs */}
                 {strategy.abVariants && strategy.abVariants.length >= 2 && (
                     <div className="mb-3">
@@ -142,7 +171,10 @@ export function ReplyCard({ strategy, isRecommended, originalPostText, originalA
 
                 <div className="relative group">
                     <p className="p-4 bg-slate-950/40 rounded-lg text-slate-100 text-base leading-relaxed border border-slate-700/50 font-medium min-h-[80px]">
-                        {currentText}
+                        {currentText.slice(0, overflowStart)}
+                        {overflowStart < currentText.length && (
+                            <span className="bg-red-500/30 text-red-200 rounded-sm">{currentText.slice(overflowStart)}</span>
+                        )}
                     </p>
                     <div className="absolute bottom-2 right-2 opacity-50 group-hover:opacity-100 transition-opacity">
                          <button onClick={handleCopyReply} className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded-md text-slate-300 hover:text-white transition-colors">
@@ -153,10 +185,15 @@ export function ReplyCard({ strategy, isRecommended, originalPostText, originalA
 
                 <div className="flex justify-between items-center text-sm mt-3">
                     <div className="flex items-center gap-3">
-                        <CharacterCountCircle weightedLength={currentLen} />
-                        <span className={`font-mono text-xs ${currentLen > 280 ? 'text-red-400' : 'text-slate-400'}`}>
-                            {currentLen} / 280
+                        <CharacterCountCircle parsed={parsed} />
+                        <span className={`font-mono text-xs ${!parsed.valid ? 'text-red-400' : 'text-slate-400'}`}>
+                            {currentLen} / {TWITTER_TEXT_CONFIG.maxWeightedTweetLength}
                         </span>
+                        {!parsed.valid && (
+                          <span className="text-[10px] bg-red-900/30 text-red-400 px-2 py-0.5 rounded border border-red-800/50">
+                            X WILL REJECT
+                          </span>
+                        )}
                         {currentLen >= 71 && currentLen <= 100 && (
                           <span className="text-[10px] bg-green-900/30 text-green-400 px-2 py-0.5 rounded border border-green-800/50">
                             OPTIMAL
@@ -167,6 +204,10 @@ export function ReplyCard({ strategy, isRecommended, originalPostText, originalA
                          p(Reply): <strong className="text-cyan-400">{(strategy.authorReplyProbability ?? 0).toFixed(0)}%</strong>
                     </div>
                 </div>
+
+                {analysis && onStrategyChange && (
+                    <StrategyRefiner analysis={analysis} strategy={strategy} voiceProfile={voiceProfile} onStrategyChange={onStrategyChange} />
+                )}
             </div>
             
             <div className="bg-slate-950/30 px-5 py-2 border-t border-slate-800/50 rounded-b-2xl flex justify-between items-center">
@@ -0,0 +1,194 @@
+import React, { useState, useMemo } from 'react';
+import { type ReplyStrategy, type StrategyDefinition } from '../types';
+import { findStrategy } from '../services/strategy-catalog';
+import { diffWords } from '../services/text-diff';
+import { TWITTER_TEXT_CONFIG } from '../services/tweet-text';
+import {
+    MAX_COMPARED_REPLIES,
+    MIN_COMPARED_REPLIES,
+    SCORE_LABELS,
+    compareGauntlet,
+    defaultComparisonKeys,
+    listComparableReplies,
+    variantLabel,
+    type ComparedReply,
+} from '../services/reply-comparison';
+import { DiffText } from './DiffText';
+import { CheckIcon, RiskIcon } from './icons/Icons';
+
+interface ReplyComparisonProps {
+    strategies: ReplyStrategy[];
+    strategyCatalog: StrategyDefinition[];
+}
+
+const scoreColor = (score: number) => (score >= 80 ? 'bg-green-500' : score >= 60 ? 'bg-yellow-500' : 'bg-red-500');
+
+// Every row is its own grid with the same template, so cells line up across rows
+function Row({ label, columns, children }: { label: string; columns: number; children: React.ReactNode }) {
+    return (
+        <div className="grid gap-3 items-start py-1.5" style={{ gridTemplateColumns: `7rem repeat(${columns}, minmax(0, 1fr))` }}>
+            <div className="text-xs text-slate-400 pt-0.5">{label}</div>
+            {children}
+        </div>
+    );
+}
+
+function ScoreBar({ score, isBest }: { score: number; isBest: boolean }) {
+    return (
+        <div className="flex items-center gap-2">
+            <div className="h-2 flex-1 bg-slate-800 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${scoreColor(score)}`} style={{ width: `${Math.max(0, Math.min(100, score))}%` }}></div>
+            </div>
+            <span className={`w-7 text-right font-mono text-xs ${isBest ? 'text-white font-bold' : 'text-slate-400'}`}>{score}</span>
+        </div>
+    );
+}
+
+/**
+ * Puts 2–4 reply texts (strategies or their A/B variants) side by side. The first
+ * column is the baseline the others' text and length are diffed against.
+ */
+export function ReplyComparison({ strategies, strategyCatalog }: ReplyComparisonProps) {
+    const available = useMemo(() => listComparableReplies(strategies), [strategies]);
+    const [selectedKeys, setSelectedKeys] = useState<string[]>(() => defaultComparisonKeys(strategies));
+
+    // Keeps the order the texts were picked in; the first pick is the baseline
+    const selected = selectedKeys
+        .map(key => available.find(r => r.key === key))
+        .filter((r): r is ComparedReply => !!r);
+    const baseline = selected[0];
+    const gauntlet = compareGauntlet(selected);
+    const differing = gauntlet.filter(c => c.differs);
+    const maxLength = TWITTER_TEXT_CONFIG.maxWeightedTweetLength;
+
+    const toggle = (key: string) => setSelectedKeys(prev =>
+        prev.includes(key) ? prev.filter(k => k !== key)
+        : prev.length < MAX_COMPARED_REPLIES ? [...prev, key]
+        : prev
+    );
+
+    const title = (reply: ComparedReply) => {
+        const { name, icon } = findStrategy(strategyCatalog, reply.strategy.strategy);
+        return `${icon} ${name}${reply.strategy.abVariants ? ` · ${variantLabel(reply.variant)}` : ''}`;
+    };
+
+    return (
+        <div className="glass-card rounded-2xl p-5 space-y-4">
+            <div>
+                <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-2">
+                    Compare {MIN_COMPARED_REPLIES}–{MAX_COMPARED_REPLIES} texts · {selected.length} selected
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {available.map(reply => {
+                        const isSelected = selectedKeys.includes(reply.key);
+                        return (
+                            <button
+                                key={reply.key}
+                                type="button"
+                                onClick={() => toggle(reply.key)}
+                                disabled={!isSelected && selectedKeys.length >= MAX_COMPARED_REPLIES}
+                                className={`text-xs px-2.5 py-1 rounded-full border transition-colors disabled:opacity-40 ${
+                                    isSelected ? 'border-blue-500 bg-blue-600/20 text-blue-200' : 'border-slate-700 text-slate-400 hover:text-white'
+                                }`}
+                            >
+                                {title(reply)}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {selected.length < MIN_COMPARED_REPLIES ? (
+                <p className="text-sm text-slate-400 text-center py-6">Pick at least {MIN_COMPARED_REPLIES} texts to compare.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <div className="min-w-[36rem] divide-y divide-slate-800">
+                        <Row label="" columns={selected.length}>
+                            {selected.map((reply, i) => (
+                                <div key={reply.key} className="text-sm font-semibold text-slate-200">
+                                    {title(reply)}
+                                    {i === 0 && <span className="block text-[10px] text-slate-500 uppercase tracking-wider">Baseline</span>}
+                                </div>
+                            ))}
+                        </Row>
+
+                        <Row label="Text" columns={selected.length}>
+                            {selected.map((reply, i) => (
+                                <p key={reply.key} className="p-2 bg-slate-950/40 rounded text-sm text-slate-200 leading-relaxed whitespace-pre-wrap">
+                                    {i === 0 ? reply.text : <DiffText segments={diffWords(baseline.text, reply.text)} />}
+                                </p>
+                            ))}
+                        </Row>
+
+                        <Row label="Weighted Length" columns={selected.length}>
+                            {selected.map((reply, i) => {
+                                const change = reply.weightedLength - baseline.weightedLength;
+                                return (
+                                    <div key={reply.key} className={`font-mono text-xs ${reply.weightedLength > maxLength ? 'text-red-400' : 'text-slate-300'}`}>
+                                        {reply.weightedLength} / {maxLength}
+                                        {i > 0 && change !== 0 && <span className={change < 0 ? 'text-green-400' : 'text-yellow-400'}> ({change > 0 ? '+' : ''}{change})</span>}
+                                    </div>
+                                );
+                            })}
+                        </Row>
+
+                        {selected.some(r => r.predictedConversion !== undefined) && (
+                            <Row label="Predicted Conversion" columns={selected.length}>
+                                {selected.map(reply => (
+                                    <div key={reply.key} className="font-mono text-xs text-slate-300">
+                                        {reply.predictedConversion !== undefined ? `${(reply.predictedConversion * 100).toFixed(1)}%` : '—'}
+                                    </div>
+                                ))}
+                            </Row>
+                        )}
+
+                        <div className="py-1.5">
+                            {SCORE_LABELS.map(({ key, label }) => {
+                                const values = selected.map(r => r.strategy.scores?.[key] ?? 0);
+                                const best = Math.max(...values);
+                                return (
+                                    <div key={key}>
+                                        <Row label={label} columns={selected.length}>
+                                            {selected.map((reply, i) => (
+                                                <div key={reply.key}>
+                                                    <ScoreBar score={values[i]} isBest={values[i] === best && new Set(values).size > 1} />
+                                                </div>
+                                            ))}
+                                        </Row>
+                                    </div>
+                                );
+                            })}
+                            {selected.some(r => r.variant !== 'primary') && (
+                                <p className="text-[11px] text-slate-500 pt-1">Scores and Gauntlet results are per strategy; A/B variants share their Control's.</p>
+                            )}
+                        </div>
+
+                        <div className="py-1.5">
+                            {differing.length === 0 ? (
+                                <p className="text-xs text-slate-500 py-1.5">All {gauntlet.length} Gauntlet checks agree.</p>
+                            ) : (
+                                <>
+                                    {differing.map(check => (
+                                        <div key={check.label}>
+                                            <Row label={check.label} columns={selected.length}>
+                                                {check.results.map((passed, i) => (
+                                                    <div key={selected[i].key} className={`flex items-center gap-1 text-xs font-semibold ${passed ? 'text-green-400' : 'text-red-400'}`}>
+                                                        {passed ? <CheckIcon className="w-3.5 h-3.5" /> : <RiskIcon className="w-3.5 h-3.5" />}
+                                                        {passed ? 'Pass' : 'Fail'}
+                                                    </div>
+                                                ))}
+                                            </Row>
+                                        </div>
+                                    ))}
+                                    <p className="text-[11px] text-slate-500 pt-1">
+                                        Showing the Gauntlet checks that differ; the other {gauntlet.length - differing.length} agree.
+                                    </p>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
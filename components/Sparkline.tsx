@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface SparklineProps {
+    values: number[];
+    width?: number;
+    height?: number;
+    className?: string; // sets the stroke colour via text-*
+    label?: string;
+}
+
+/**
+ * Minimal inline line chart, scaled to its own maximum.
+ */
+export function Sparkline({ values, width = 160, height = 28, className = 'text-cyan-400', label }: SparklineProps) {
+    const max = Math.max(...values, 0);
+    const step = values.length > 1 ? width / (values.length - 1) : 0;
+    const points = values
+        .map((value, i) => `${(i * step).toFixed(1)},${(max === 0 ? height - 1 : height - 1 - (value / max) * (height - 2)).toFixed(1)}`)
+        .join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className={className} role="img" aria-label={label} preserveAspectRatio="none">
+            {label && <title>{label}</title>}
+            <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" strokeLinecap="round" />
+        </svg>
+    );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { type StrategyCategory, type StrategyDefinition } from '../types';
+import { MAX_SELECTED_STRATEGIES, STRATEGY_CATEGORIES, createStrategyId } from '../services/strategy-catalog';
+
+interface StrategyCatalogEditorProps {
+    catalog: StrategyDefinition[];
+    onToggle: (id: string, enabled: boolean) => void;
+    onSave: (strategy: StrategyDefinition) => void;
+    onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+function StrategyForm({ strategy, onSave, onCancel }: { strategy: StrategyDefinition | null; onSave: (strategy: StrategyDefinition) => void; onCancel: () => void }) {
+    const [name, setName] = useState(strategy?.name ?? '');
+    const [icon, setIcon] = useState(strategy?.icon ?? '💡');
+    const [category, setCategory] = useState<StrategyCategory>(strategy?.category ?? 'analytical');
+    const [description, setDescription] = useState(strategy?.description ?? '');
+    const [guidance, setGuidance] = useState(strategy?.guidance ?? '');
+
+    const handleSave = () => {
+        if (!name.trim() || !guidance.trim()) return;
+        onSave({
+            id: strategy?.id ?? createStrategyId(name),
+            name: name.trim(),
+            icon: icon.trim() || '💡',
+            category,
+            description: description.trim(),
+            guidance: guidance.trim(),
+            enabled: strategy?.enabled ?? true,
+        });
+    };
+
+    return (
+        <div className="p-3 bg-slate-950/40 border border-slate-700/50 rounded-lg space-y-3">
+            <div className="grid grid-cols-[4rem_1fr_10rem] gap-3">
+                <label className="text-xs text-slate-400">Icon
+                    <input type="text" value={icon} onChange={(e) => setIcon(e.target.value)} maxLength={4} className={inputClass} />
+                </label>
+                <label className="text-xs text-slate-400">Name
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Dataset Angle" />
+                </label>
+                <label className="text-xs text-slate-400">Category
+                    <select value={category} onChange={(e) => setCategory(e.target.value as StrategyCategory)} className={inputClass}>
+                        {STRATEGY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </label>
+            </div>
+            <label className="block text-xs text-slate-400">Description
+                <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="Shown on the reply card" />
+            </label>
+            <label className="block text-xs text-slate-400">Prompt Guidance
+                <textarea value={guidance} onChange={(e) => setGuidance(e.target.value)} rows={2} className={inputClass} placeholder="How the model should write this kind of reply" />
+            </label>
+            <div className="flex gap-3">
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={!name.trim() || !guidance.trim()}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                >
+                    Save Strategy
+                </button>
+                <button type="button" onClick={onCancel} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Cancel</button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Picks which strategies a generation asks for, and manages custom strategies.
+ * Built-in strategies can only be switched on or off.
+ */
+export function StrategyCatalogEditor({ catalog, onToggle, onSave, onDelete }: StrategyCatalogEditorProps) {
+    const [editing, setEditing] = useState<'new' | string | null>(null);
+    const enabledCount = catalog.filter(s => s.enabled).length;
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-slate-500">{enabledCount} of {MAX_SELECTED_STRATEGIES} max selected · one reply card per strategy</p>
+            <ul className="space-y-1">
+                {catalog.map(strategy => (
+                    <li key={strategy.id}>
+                        <div className="flex items-start gap-3 px-3 py-2 bg-slate-900/40 border border-slate-700/50 rounded-md">
+                            <input
+                                type="checkbox"
+                                checked={strategy.enabled}
+                                // At least one strategy stays on, and no more than the prompt can handle
+                                disabled={strategy.enabled ? enabledCount <= 1 : enabledCount >= MAX_SELECTED_STRATEGIES}
+                                onChange={(e) => onToggle(strategy.id, e.target.checked)}
+                                aria-label={`Use ${strategy.name}`}
+                                className="mt-1"
+                            />
+                            <span className="text-lg leading-none">{strategy.icon}</span>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="font-semibold text-slate-200">{strategy.name}</span>
+                                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 uppercase">{strategy.category}</span>
+                                    {!strategy.builtIn && <span className="text-[10px] text-cyan-400 uppercase">custom</span>}
+                                </div>
+                                <p className="text-xs text-slate-500 truncate" title={strategy.guidance}>{strategy.description || strategy.guidance}</p>
+                            </div>
+                            {!strategy.builtIn && (
+                                <span className="flex gap-3 text-xs flex-shrink-0">
+                                    <button type="button" onClick={() => setEditing(editing === strategy.id ? null : strategy.id)} className="text-blue-400 hover:text-blue-300 font-semibold">Edit</button>
+                                    <button type="button" onClick={() => onDelete(strategy.id)} className="text-red-400 hover:text-red-300 font-semibold">Delete</button>
+                                </span>
+                            )}
+                        </div>
+                        {editing === strategy.id && (
+                            <div className="mt-1">
+                                <StrategyForm strategy={strategy} onSave={(s) => { onSave(s); setEditing(null); }} onCancel={() => setEditing(null)} />
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {editing === 'new' ? (
+                <StrategyForm strategy={null} onSave={(s) => { onSave({ ...s, enabled: enabledCount < MAX_SELECTED_STRATEGIES }); setEditing(null); }} onCancel={() => setEditing(null)} />
+            ) : (
+                <button type="button" onClick={() => setEditing('new')} className="text-xs text-blue-400 hover:text-blue-300 font-semibold">
+                    + New Strategy
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { type PostAnalysis, type ReplyStrategy, type StrategyVersion, type VoiceProfile } from '../types';
+import { refineStrategy } from '../services/geminiService';
+import { diffWords } from '../services/text-diff';
+import { isAbortError } from '../services/abort';
+import { toApexError, type ApexError } from '../services/errors';
+import { DiffText } from './DiffText';
+
+interface StrategyRefinerProps {
+    analysis: PostAnalysis;
+    strategy: ReplyStrategy;
+    voiceProfile?: VoiceProfile;
+    onStrategyChange: (strategy: ReplyStrategy) => void;
+}
+
+const QUICK_FEEDBACK = ['Shorter', 'Less salesy', 'More specific', 'Add a concrete number', 'Softer tone'];
+
+function Delta({ before, after, suffix = '' }: { before: number; after: number; suffix?: string }) {
+    const change = Math.round(after - before);
+    return (
+        <span className="font-mono">
+            {Math.round(before)}{suffix} → <span className="text-white">{Math.round(after)}{suffix}</span>
+            {change !== 0 && <span className={change > 0 ? 'text-green-400' : 'text-red-400'}> ({change > 0 ? '+' : ''}{change})</span>}
+        </span>
+    );
+}
+
+/**
+ * "Refine" for a single reply card: rewrites the strategy from free-form feedback,
+ * keeps every earlier version, and diffs the current text against any of them.
+ */
+export function StrategyRefiner({ analysis, strategy, voiceProfile, onStrategyChange }: StrategyRefinerProps) {
+    const history = strategy.history ?? [];
+    const [isOpen, setIsOpen] = useState(false);
+    const [feedback, setFeedback] = useState('');
+    const [isRefining, setIsRefining] = useState(false);
+    const [error, setError] = useState<ApexError | null>(null);
+    const [compareIndex, setCompareIndex] = useState(history.length - 1);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    // Unmounting (e.g. a new analysis) abandons any refinement still in flight
+    useEffect(() => () => controllerRef.current?.abort(), []);
+    // A new version is compared with the one it replaced
+    useEffect(() => setCompareIndex(history.length - 1), [history.length]);
+
+    const handleRefine = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!feedback.trim() || isRefining) return;
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRefining(true);
+        setError(null);
+        try {
+            const refined = await refineStrategy(analysis, strategy, feedback.trim(), { signal: controller.signal, voiceProfile });
+            if (controllerRef.current !== controller) return;
+            onStrategyChange(refined);
+            setFeedback('');
+            setIsOpen(false);
+        } catch (err) {
+            if (controllerRef.current !== controller || isAbortError(err)) return;
+            setError(toApexError(err));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsRefining(false);
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setIsRefining(false);
+    };
+
+    // The restored version becomes current; the current one joins the history
+    const handleRestore = (version: StrategyVersion) => {
+        const { history: _history, ...current } = strategy;
+        onStrategyChange({ ...version, history: [...history.filter(v => v !== version), current] });
+    };
+
+    const compared = history[compareIndex];
+
+    return (
+        <div className="mt-4 space-y-3">
+            {history.length > 0 && compared && (
+                <div className="p-3 rounded-lg border border-slate-700/50 bg-slate-900/40 space-y-2 text-xs">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-slate-500 uppercase tracking-wider font-bold">Versions</span>
+                        {history.map((version, i) => (
+                            <button
+                                key={i}
+                                type="button"
+                                onClick={() => setCompareIndex(i)}
+                                title={version.refinement ? `Refined: ${version.refinement.feedback}` : 'Original'}
+                                className={`px-2 py-0.5 rounded font-mono ${i === compareIndex ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                v{i + 1}
+                            </button>
+                        ))}
+                        <span className="px-2 py-0.5 rounded font-mono bg-cyan-600/30 text-cyan-200">v{history.length + 1} current</span>
+                    </div>
+                    {strategy.refinement && (
+                        <p className="text-slate-400">Latest feedback: <span className="italic text-slate-300">“{strategy.refinement.feedback}”</span></p>
+                    )}
+                    <div className="flex flex-wrap gap-4 text-slate-400">
+                        <span>Algo score <Delta before={compared.scores.algorithmScore} after={strategy.scores.algorithmScore} /></span>
+                        <span>Length <Delta before={compared.weightedLength} after={strategy.weightedLength} /></span>
+                    </div>
+                    <p className="p-2 bg-slate-950/40 rounded text-sm text-slate-300 leading-relaxed">
+                        <DiffText segments={diffWords(compared.replyText, strategy.replyText)} />
+                    </p>
+                    <button type="button" onClick={() => handleRestore(compared)} disabled={isRefining} className="text-slate-500 hover:text-slate-300 font-semibold disabled:opacity-50">
+                        Restore v{compareIndex + 1}
+                    </button>
+                </div>
+            )}
+
+            {!isOpen ? (
+                <button type="button" onClick={() => setIsOpen(true)} className="text-xs px-3 py-1.5 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 font-semibold">
+                    Refine
+                </button>
+            ) : (
+                <form onSubmit={handleRefine} className="space-y-2">
+                    <textarea
+                        value={feedback}
+                        onChange={(e) => setFeedback(e.target.value)}
+                        rows={2}
+                        placeholder='What should change? e.g. "shorter", "less salesy", "mention the dataset angle"'
+                        aria-label="Refinement feedback"
+                        className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                        {QUICK_FEEDBACK.map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => setFeedback(prev => (prev.trim() ? `${prev.trim()}; ${option.toLowerCase()}` : option))}
+                                className="text-[11px] px-2 py-0.5 rounded-full border border-slate-700 text-slate-400 hover:text-white hover:border-cyan-500"
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="submit"
+                            disabled={isRefining || !feedback.trim()}
+                            className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                        >
+                            {isRefining ? 'Refining...' : 'Refine Strategy'}
+                        </button>
+                        {isRefining ? (
+                            <button type="button" onClick={handleCancel} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Cancel</button>
+                        ) : (
+                            <button type="button" onClick={() => setIsOpen(false)} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Close</button>
+                        )}
+                    </div>
+                    {error && <p className="text-sm text-red-400">{error.title}: {error.message}</p>}
+                </form>
+            )}
+        </div>
+    );
+}
@@ -1,10 +1,92 @@
 
 import React from 'react';
+import { type CacheEntrySummary } from '../services/response-cache';
+import { type OperationStats } from '../services/telemetry';
+import { Sparkline } from './Sparkline';
 import { SparklesIcon, RiskIcon } from './icons/Icons';
 
 interface SystemMetricsProps {
     metrics: any;
     onClearCache: () => void;
+    cacheEntries: CacheEntrySummary[];
+    onEvictCacheEntry: (key: string) => void;
+    onRefreshCacheEntries: () => void;
+    onDownloadMetrics?: () => void; // OpenMetrics text for Prometheus
+}
+
+const formatBytes = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatExpiry = (expires: number) => {
+    const minutes = Math.max(0, Math.round((expires - Date.now()) / 60000));
+    if (minutes < 60) return `${minutes}m`;
+    if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h`;
+    return `${Math.round(minutes / (60 * 24))}d`;
+};
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(ms >= 10000 ? 0 : 1)}s` : `${Math.round(ms)}ms`;
+
+const formatBound = (le: number) => le === Infinity ? '∞' : formatMs(le);
+
+function LatencyHistogram({ histogram }: { histogram: OperationStats['histogram'] }) {
+    const max = Math.max(...histogram.map(bin => bin.count), 1);
+    return (
+        <div className="flex items-end gap-0.5 h-10" aria-label="Latency histogram">
+            {histogram.map((bin, i) => (
+                <div
+                    key={i}
+                    title={`≤ ${formatBound(bin.le)}: ${bin.count}`}
+                    className={`flex-1 rounded-t ${bin.count > 0 ? 'bg-cyan-500/70' : 'bg-slate-800'}`}
+                    style={{ height: `${Math.max(4, (bin.count / max) * 100)}%` }}
+                ></div>
+            ))}
+        </div>
+    );
+}
+
+function OperationRow({ stats, windowLabel }: { stats: OperationStats; windowLabel: string }) {
+    const errorClasses = Object.entries(stats.errorClasses).sort((a, b) => b[1] - a[1]);
+    return (
+        <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700/50 space-y-3">
+            <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+                <span className="font-mono text-sm font-bold text-white">{stats.operation}</span>
+                <span className="text-xs text-slate-400">{stats.count} ops</span>
+                <span className={`text-xs ${stats.failures > 0 ? 'text-red-400' : 'text-green-400'}`}>{(stats.successRate * 100).toFixed(1)}% ok</span>
+                <span className="ml-auto flex gap-3 font-mono text-xs text-slate-300">
+                    <span>p50 {formatMs(stats.p50)}</span>
+                    <span>p90 {formatMs(stats.p90)}</span>
+                    <span className="text-white">p99 {formatMs(stats.p99)}</span>
+                </span>
+            </div>
+            {stats.count > 0 && (
+                <div>
+                    <LatencyHistogram histogram={stats.histogram} />
+                    <div className="flex justify-between text-[9px] text-slate-500 font-mono mt-0.5">
+                        <span>0</span>
+                        <span>{formatBound(stats.histogram[stats.histogram.length - 2]?.le ?? 0)}+</span>
+                    </div>
+                </div>
+            )}
+            {errorClasses.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {errorClasses.map(([errorClass, count]) => (
+                        <span key={errorClass} className="px-2 py-0.5 rounded text-[10px] font-bold bg-red-500/10 text-red-300 border border-red-500/20">
+                            {errorClass} × {count}
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="grid grid-cols-2 gap-4 text-[10px] text-slate-500 uppercase">
+                <div>
+                    <div>Volume · {windowLabel}</div>
+                    <Sparkline values={stats.series.map(p => p.count)} width={200} label={`${stats.operation} calls per interval`} />
+                </div>
+                <div>
+                    <div>P90 Latency · {windowLabel}</div>
+                    <Sparkline values={stats.series.map(p => p.p90)} width={200} className="text-amber-400" label={`${stats.operation} p90 latency per interval`} />
+                </div>
+            </div>
+        </div>
+    );
 }
 
 function MetricCard({ label, value, unit = '', colorClass = 'text-white' }: { label: string; value: string | number; unit?: string; colorClass?: string }) {
@@ -18,7 +100,7 @@ function MetricCard({ label, value, unit = '', colorClass = 'text-white' }: { la
     );
 }
 
-export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClearCache }: SystemMetricsProps) {
+export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClearCache, cacheEntries, onEvictCacheEntry, onRefreshCacheEntries, onDownloadMetrics }: SystemMetricsProps) {
     if (!metrics) {
         return (
             <div className="glass-card rounded-2xl p-6 text-center">
@@ -30,11 +112,14 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
     const rezolus = metrics.rezolus || {};
     const cache = metrics.cache || {};
     const rateLimiter = metrics.rateLimiter || {};
+    const scheduler = metrics.scheduler;
     const circuitBreaker = metrics.automationStatus?.circuitBreaker || { state: 'CLOSED', failures: 0 };
 
     const successRate = rezolus.successRate ? (rezolus.successRate * 100).toFixed(1) : 'N/A';
     const errorRate = rezolus.errorRate ? (rezolus.errorRate * 100).toFixed(1) : 'N/A';
     const p99Latency = rezolus.p99Latency ? Math.round(rezolus.p99Latency) : 'N/A';
+    const operations: OperationStats[] = rezolus.operations ?? [];
+    const seriesHours = rezolus.policy ? Math.round(rezolus.policy.windowMs / 3600000) : 24;
 
     const cbStateColors = {
         'CLOSED': 'text-green-400',
@@ -51,6 +136,20 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
                     <h2 className="text-xl font-bold text-white">Rezolus Telemetry</h2>
                     <p className="text-xs text-slate-400">Real-time system observability & resilience metrics.</p>
                 </div>
+                {metrics.provider && (
+                    <span className={`ml-auto px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border ${metrics.provider === 'gemini' ? 'bg-blue-500/10 text-blue-300 border-blue-500/30' : 'bg-amber-500/10 text-amber-300 border-amber-500/30'}`}>
+                        LLM: {metrics.provider}
+                    </span>
+                )}
+                {onDownloadMetrics && (
+                    <button
+                        onClick={onDownloadMetrics}
+                        title="Download the current metrics in OpenMetrics (Prometheus) text format"
+                        className={`${metrics.provider ? '' : 'ml-auto '}px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider border border-slate-600 text-slate-300 hover:text-white hover:border-cyan-500 transition-colors`}
+                    >
+                        Export Metrics
+                    </button>
+                )}
             </div>
 
             <div>
@@ -66,6 +165,22 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
                 </div>
             </div>
 
+            {operations.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-bold text-cyan-400 mb-3 uppercase tracking-wider flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-cyan-400"></span>
+                        Operations (Last Hour)
+                    </h3>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                        {operations.map(stats => (
+                            <div key={stats.operation}>
+                                <OperationRow stats={stats} windowLabel={`${seriesHours}h`} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                  <div>
                     <h3 className="text-sm font-bold text-amber-400 mb-3 uppercase tracking-wider flex items-center gap-2">
@@ -89,6 +204,25 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
                                 <div className="text-[10px] text-slate-500 uppercase">Failures</div>
                              </div>
                         </div>
+                        {scheduler && (
+                            <div className="mt-4 pt-3 border-t border-slate-700/50">
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className="text-sm text-slate-400 font-semibold">Request Queue</span>
+                                    <span className="text-xs text-slate-500 font-mono">{scheduler.running}/{scheduler.maxConcurrent} running</span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(['interactive', 'automation', 'batch'] as const).map(lane => (
+                                        <div key={lane} className="bg-slate-800/50 p-2 rounded text-center">
+                                            <div className="text-lg font-bold text-white">{scheduler.lanes[lane].queued}</div>
+                                            <div className="text-[10px] text-slate-500 uppercase">{lane}</div>
+                                            {scheduler.lanes[lane].queued > 0 && (
+                                                <div className="text-[10px] text-amber-300 font-mono">~{Math.ceil(scheduler.lanes[lane].etaMs / 1000)}s</div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -100,10 +234,31 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
                     <div className="bg-slate-900/50 rounded-xl p-4 border border-slate-700/50 flex flex-col justify-between h-full">
                         <div className="flex justify-between items-end mb-4">
                              <div>
-                                <div className="text-3xl font-bold text-white">{cache.size ?? 0}</div>
-                                <div className="text-[10px] text-slate-500 uppercase font-semibold">Cached Items</div>
+                                <div className="text-3xl font-bold text-white">{cache.size ?? 0}<span className="text-base text-slate-500 font-medium"> / {cache.maxMemoryEntries ?? '∞'}</span></div>
+                                <div className="text-[10px] text-slate-500 uppercase font-semibold">Memory Tier (LRU)</div>
                              </div>
-                             <SparklesIcon className="w-8 h-8 text-purple-500/20" />
+                             <div className="text-right">
+                                <div className="text-xl font-bold text-white">{cache.persistentAvailable ? cache.persistentSize ?? 0 : 'Off'}</div>
+                                <div className="text-[10px] text-slate-500 uppercase font-semibold">IndexedDB Tier</div>
+                             </div>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2 mb-4">
+                            <div className="bg-slate-800/50 p-2 rounded text-center">
+                                <div className="text-sm font-bold text-green-400">{((cache.hitRate ?? 0) * 100).toFixed(0)}%</div>
+                                <div className="text-[9px] text-slate-500 uppercase">Hit Rate</div>
+                            </div>
+                            <div className="bg-slate-800/50 p-2 rounded text-center" title={`Memory: ${cache.memoryHits ?? 0} / Persistent: ${cache.persistentHits ?? 0}`}>
+                                <div className="text-sm font-bold text-white">{cache.hits ?? 0}</div>
+                                <div className="text-[9px] text-slate-500 uppercase">Hits</div>
+                            </div>
+                            <div className="bg-slate-800/50 p-2 rounded text-center">
+                                <div className="text-sm font-bold text-white">{cache.misses ?? 0}</div>
+                                <div className="text-[9px] text-slate-500 uppercase">Misses</div>
+                            </div>
+                            <div className="bg-slate-800/50 p-2 rounded text-center" title={`Expired: ${cache.expirations ?? 0}`}>
+                                <div className="text-sm font-bold text-white">{cache.evictions ?? 0}</div>
+                                <div className="text-[9px] text-slate-500 uppercase">Evictions</div>
+                            </div>
                         </div>
                         <button
                             onClick={onClearCache}
@@ -114,6 +269,41 @@ export const SystemMetrics = React.memo(function SystemMetrics({ metrics, onClea
                     </div>
                 </div>
             </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-bold text-purple-400 uppercase tracking-wider flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-purple-400"></span>
+                        Cache Inventory ({cacheEntries.length})
+                    </h3>
+                    <button onClick={onRefreshCacheEntries} className="text-xs text-blue-400 hover:text-blue-300 font-semibold">
+                        Refresh
+                    </button>
+                </div>
+                {cacheEntries.length === 0 ? (
+                    <p className="text-xs text-slate-500">No cached responses.</p>
+                ) : (
+                    <div className="max-h-72 overflow-y-auto space-y-2">
+                        {cacheEntries.map(entry => (
+                            <div key={entry.key} className="flex items-center gap-3 bg-slate-800/40 rounded-lg px-3 py-2 text-xs">
+                                <span className={`px-2 py-0.5 rounded font-bold uppercase ${entry.namespace === 'replies' ? 'bg-blue-500/10 text-blue-300' : 'bg-cyan-500/10 text-cyan-300'}`}>
+                                    {entry.namespace}
+                                </span>
+                                <span className="flex-1 truncate text-slate-200" title={entry.key}>{entry.label}</span>
+                                <span className="text-slate-500 font-mono">{formatBytes(entry.sizeBytes)}</span>
+                                <span className="text-slate-500 font-mono" title={new Date(entry.expires).toLocaleString()}>TTL {formatExpiry(entry.expires)}</span>
+                                <span className={`font-mono ${entry.inMemory ? 'text-green-400' : 'text-slate-500'}`}>{entry.inMemory ? 'MEM+DB' : 'DB'}</span>
+                                <button
+                                    onClick={() => onEvictCacheEntry(entry.key)}
+                                    className="px-2 py-0.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/20 font-bold uppercase"
+                                >
+                                    Evict
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 });
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { type DocumentAnalysis, type DocumentThread, type ThreadPost } from '../types';
+import { generateDocumentThread, scoreThreadPosts } from '../services/geminiService';
+import { MAX_THREAD_POSTS, formatThreadPost, rebalanceThread, reflowFrom, toThreadPosts } from '../services/thread-composer';
+import { TWITTER_TEXT_CONFIG } from '../services/tweet-text';
+import { isAbortError } from '../services/abort';
+import { toApexError, type ApexError } from '../services/errors';
+import { ScoreDisplay } from './ScoreDisplay';
+
+interface ThreadComposerProps {
+    analysis: DocumentAnalysis;
+    onThreadChange: (thread: DocumentThread | undefined) => void;
+}
+
+const POST_COUNT_OPTIONS = [3, 4, 5, 6, 8, 10];
+
+const TIER_STYLES: Record<string, string> = {
+    S: 'bg-green-500/20 text-green-300',
+    A: 'bg-green-500/10 text-green-300',
+    B: 'bg-yellow-500/10 text-yellow-300',
+    C: 'bg-red-500/10 text-red-300',
+    F: 'bg-red-500/20 text-red-300',
+};
+
+function ThreadPostEditor({ post, index, total, numbered, onChange, onFit, onRemove }: {
+    post: ThreadPost;
+    index: number;
+    total: number;
+    numbered: boolean;
+    onChange: (text: string) => void;
+    onFit: () => void;
+    onRemove: () => void;
+}) {
+    const limit = TWITTER_TEXT_CONFIG.maxWeightedTweetLength;
+    const over = post.weightedLength > limit;
+    return (
+        <div className={`p-3 rounded-lg border ${over ? 'border-red-500/40 bg-red-900/10' : 'border-slate-700/50 bg-slate-900/40'} space-y-2`}>
+            <div className="flex justify-between items-center text-xs">
+                <span className="font-mono text-slate-400">{numbered ? `${index + 1}/${total}` : `#${index + 1}`}</span>
+                <span className="flex items-center gap-3">
+                    {post.sanctum && (
+                        <span className={`px-2 py-0.5 rounded font-bold ${TIER_STYLES[post.sanctum.qualityTier] ?? TIER_STYLES.B}`} title={`Toxicity ${post.sanctum.toxicityScore}%`}>
+                            Tier {post.sanctum.qualityTier}
+                        </span>
+                    )}
+                    {post.stale && <span className="text-amber-400 font-semibold" title="Edited since it was scored">Edited</span>}
+                    <span className={`font-mono ${over ? 'text-red-400 font-bold' : post.weightedLength > limit - 20 ? 'text-yellow-400' : 'text-slate-500'}`}>
+                        {post.weightedLength}/{limit}
+                    </span>
+                    {over && <button type="button" onClick={onFit} className="text-cyan-400 hover:text-cyan-300 font-semibold">Fit</button>}
+                    <button type="button" onClick={onRemove} disabled={total <= 1} aria-label={`Remove post ${index + 1}`} className="text-slate-500 hover:text-red-400 font-semibold disabled:opacity-40">Remove</button>
+                </span>
+            </div>
+            <textarea
+                value={post.text}
+                onChange={(e) => onChange(e.target.value)}
+                rows={4}
+                aria-label={`Post ${index + 1}`}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+            />
+            {post.sanctum && post.sanctum.flags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {post.sanctum.flags.map(flag => (
+                        <span key={flag} className="text-[10px] px-1.5 py-0.5 rounded bg-red-500/10 text-red-300 border border-red-500/20">{flag}</span>
+                    ))}
+                </div>
+            )}
+            {post.scores && (
+                <div className={post.stale ? 'opacity-50' : ''}>
+                    <ScoreDisplay scores={post.scores} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Turns a document analysis into an editable, numbered X thread. Every post is
+ * measured with the twitter-text weighted length and scored like a reply.
+ */
+export function ThreadComposer({ analysis, onThreadChange }: ThreadComposerProps) {
+    const thread = analysis.thread;
+    const [postCount, setPostCount] = useState<number | 'auto'>('auto');
+    const [pending, setPending] = useState<'generate' | 'score' | null>(null);
+    const [error, setError] = useState<ApexError | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    const numbered = thread?.numbered ?? true;
+
+    // A new analysis (or unmount) abandons any request still in flight
+    useEffect(() => () => controllerRef.current?.abort(), [analysis.title]);
+
+    const run = async (kind: 'generate' | 'score', task: (signal: AbortSignal) => Promise<DocumentThread>) => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setPending(kind);
+        setError(null);
+        try {
+            const next = await task(controller.signal);
+            if (controllerRef.current !== controller) return;
+            onThreadChange(next);
+        } catch (err) {
+            if (controllerRef.current !== controller || isAbortError(err)) return;
+            setError(toApexError(err));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setPending(null);
+            }
+        }
+    };
+
+    const handleGenerate = () => run('generate', signal => generateDocumentThread(analysis, {
+        postCount: postCount === 'auto' ? undefined : postCount,
+        numbered,
+        signal,
+    }));
+
+    const handleScore = () => {
+        if (!thread) return;
+        run('score', async signal => ({ ...thread, posts: await scoreThreadPosts(thread.posts.map(p => p.text), thread.numbered, { signal }) }));
+    };
+
+    const updateBodies = (bodies: string[], nextNumbered: boolean = numbered) => {
+        if (!thread) return;
+        onThreadChange({ ...thread, numbered: nextNumbered, posts: toThreadPosts(bodies, nextNumbered, thread.posts) });
+    };
+
+    const bodies = thread?.posts.map(p => p.text) ?? [];
+    const needsScoring = !!thread?.posts.some(p => p.stale || !p.scores);
+    const overLimit = !!thread?.posts.some(p => p.weightedLength > TWITTER_TEXT_CONFIG.maxWeightedTweetLength);
+
+    const handleCopy = () => {
+        if (!thread) return;
+        navigator.clipboard.writeText(bodies.map((b, i) => formatThreadPost(b, i, bodies.length, numbered)).join('\n\n---\n\n'));
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2500);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    value={postCount}
+                    onChange={(e) => setPostCount(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                    aria-label="Number of posts"
+                    className="bg-slate-900/50 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200"
+                >
+                    <option value="auto">Auto length</option>
+                    {POST_COUNT_OPTIONS.map(n => <option key={n} value={n}>{n} posts</option>)}
+                </select>
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input type="checkbox" checked={numbered} onChange={(e) => (thread ? updateBodies(rebalanceThread(bodies, e.target.checked), e.target.checked) : undefined)} disabled={!thread} />
+                    Number posts (1/n)
+                </label>
+                <button
+                    type="button"
+                    onClick={handleGenerate}
+                    disabled={!!pending}
+                    className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                >
+                    {pending === 'generate' ? 'Writing thread...' : thread ? 'Regenerate' : 'Thread from Document'}
+                </button>
+                {pending && (
+                    <button type="button" onClick={() => { controllerRef.current?.abort(); controllerRef.current = null; setPending(null); }} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">
+                        Cancel
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-sm text-red-400">{error.title}: {error.message}</p>}
+
+            {thread && (
+                <>
+                    <div className="flex flex-wrap items-center gap-3 text-xs">
+                        <button type="button" onClick={() => updateBodies(rebalanceThread(bodies, numbered))} disabled={!!pending} className="px-3 py-1 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 font-semibold disabled:opacity-50">
+                            Rebalance
+                        </button>
+                        <button type="button" onClick={handleScore} disabled={!!pending || !needsScoring} className="px-3 py-1 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 font-semibold disabled:opacity-50">
+                            {pending === 'score' ? 'Scoring...' : 'Re-score'}
+                        </button>
+                        <button type="button" onClick={handleCopy} disabled={overLimit} className="px-3 py-1 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 font-semibold disabled:opacity-50">
+                            {isCopied ? 'Copied!' : 'Copy Thread'}
+                        </button>
+                        <button type="button" onClick={() => onThreadChange(undefined)} disabled={!!pending} className="text-slate-500 hover:text-slate-300 font-semibold">
+                            Discard
+                        </button>
+                        <span className="text-slate-500">{thread.posts.length} posts{overLimit ? ' · some posts are over the limit' : ''}</span>
+                    </div>
+                    {!!thread.droppedPosts && (
+                        <p className="text-xs text-amber-400">
+                            The draft ran past {MAX_THREAD_POSTS} posts, so the last {thread.droppedPosts} were left out. Regenerate with fewer posts to cover everything.
+                        </p>
+                    )}
+                    <div className="space-y-3">
+                        {thread.posts.map((post, i) => (
+                            <div key={i}>
+                                <ThreadPostEditor
+                                    post={post}
+                                    index={i}
+                                    total={thread.posts.length}
+                                    numbered={numbered}
+                                    onChange={(text) => updateBodies(bodies.map((b, j) => (j === i ? text : b)))}
+                                    onFit={() => updateBodies(reflowFrom(bodies, i, numbered))}
+                                    onRemove={() => updateBodies(bodies.filter((_, j) => j !== i))}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { type VoiceProfile } from '../types';
+import { createVoiceProfileId } from '../services/voice-profiles';
+
+interface VoiceProfileEditorProps {
+    profile: VoiceProfile | null; // null creates a new profile
+    onSave: (profile: VoiceProfile) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+const splitLines = (value: string) => value.split('\n').map(v => v.trim()).filter(Boolean);
+
+const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+/**
+ * Form for creating or editing a locally stored voice profile. Built-in profiles are read-only.
+ */
+export function VoiceProfileEditor({ profile, onSave, onDelete, onClose }: VoiceProfileEditorProps) {
+    const [name, setName] = useState('');
+    const [tone, setTone] = useState('');
+    const [personaBio, setPersonaBio] = useState('');
+    const [expertiseAreas, setExpertiseAreas] = useState('');
+    const [vocabulary, setVocabulary] = useState('');
+    const [exampleReplies, setExampleReplies] = useState('');
+    const [forbiddenWords, setForbiddenWords] = useState('');
+    const [emojiPolicy, setEmojiPolicy] = useState<VoiceProfile['emojiPolicy']>('sparing');
+    const [maxLength, setMaxLength] = useState('');
+    const readOnly = !!profile?.builtIn;
+
+    useEffect(() => {
+        setName(profile?.name ?? '');
+        setTone(profile?.tone ?? '');
+        setPersonaBio(profile?.personaBio ?? '');
+        setExpertiseAreas(profile?.expertiseAreas.join(', ') ?? '');
+        setVocabulary(profile?.vocabulary.join(', ') ?? '');
+        setExampleReplies(profile?.exampleReplies.join('\n') ?? '');
+        setForbiddenWords(profile?.forbiddenWords.join(', ') ?? '');
+        setEmojiPolicy(profile?.emojiPolicy ?? 'sparing');
+        setMaxLength(profile?.maxLength ? String(profile.maxLength) : '');
+    }, [profile]);
+
+    const handleSave = () => {
+        if (!name.trim() || readOnly) return;
+        const parsedMax = parseInt(maxLength, 10);
+        onSave({
+            id: profile?.id ?? createVoiceProfileId(name),
+            name: name.trim(),
+            tone: tone.trim(),
+            personaBio: personaBio.trim(),
+            expertiseAreas: splitList(expertiseAreas),
+            vocabulary: splitList(vocabulary),
+            exampleReplies: splitLines(exampleReplies),
+            forbiddenWords: splitList(forbiddenWords),
+            emojiPolicy,
+            maxLength: parsedMax > 0 ? Math.min(parsedMax, 280) : undefined,
+        });
+    };
+
+    return (
+        <div className="p-4 bg-slate-900/40 border border-slate-700/50 rounded-lg space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="text-sm font-bold text-white">{profile ? (readOnly ? `${profile.name} (built-in)` : `Edit "${profile.name}"`) : 'New Voice Profile'}</h4>
+                <button type="button" onClick={onClose} className="text-xs text-slate-500 hover:text-slate-300 font-semibold">Close</button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-xs text-slate-400">Name
+                    <input type="text" value={name} disabled={readOnly} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Founder account" />
+                </label>
+                <label className="text-xs text-slate-400">Tone
+                    <input type="text" value={tone} disabled={readOnly} onChange={(e) => setTone(e.target.value)} className={inputClass} placeholder="dry, precise, quietly confident" />
+                </label>
+            </div>
+            <label className="block text-xs text-slate-400">Persona Bio
+                <textarea value={personaBio} disabled={readOnly} onChange={(e) => setPersonaBio(e.target.value)} rows={2} className={inputClass} />
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-xs text-slate-400">Expertise Areas (comma-separated)
+                    <input type="text" value={expertiseAreas} disabled={readOnly} onChange={(e) => setExpertiseAreas(e.target.value)} className={inputClass} />
+                </label>
+                <label className="text-xs text-slate-400">Preferred Vocabulary (comma-separated)
+                    <input type="text" value={vocabulary} disabled={readOnly} onChange={(e) => setVocabulary(e.target.value)} className={inputClass} />
+                </label>
+            </div>
+            <label className="block text-xs text-slate-400">Forbidden Words / Phrases (comma-separated)
+                <input type="text" value={forbiddenWords} disabled={readOnly} onChange={(e) => setForbiddenWords(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block text-xs text-slate-400">Example Replies (one per line)
+                <textarea value={exampleReplies} disabled={readOnly} onChange={(e) => setExampleReplies(e.target.value)} rows={3} className={inputClass} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs text-slate-400">Emoji Policy
+                    <select value={emojiPolicy} disabled={readOnly} onChange={(e) => setEmojiPolicy(e.target.value as VoiceProfile['emojiPolicy'])} className={inputClass}>
+                        <option value="none">None</option>
+                        <option value="sparing">Sparing (max 1)</option>
+                        <option value="free">Free</option>
+                    </select>
+                </label>
+                <label className="text-xs text-slate-400">Preferred Max Length
+                    <input type="number" min={1} max={280} value={maxLength} disabled={readOnly} onChange={(e) => setMaxLength(e.target.value)} className={inputClass} placeholder="280" />
+                </label>
+            </div>
+            {!readOnly && (
+                <div className="flex justify-between pt-1">
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={!name.trim()}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white font-semibold rounded-lg text-sm"
+                    >
+                        Save Profile
+                    </button>
+                    {profile && (
+                        <button type="button" onClick={() => onDelete(profile.id)} className="text-xs text-red-400 hover:text-red-300 font-semibold">
+                            Delete
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -110,3 +110,13 @@ export function DocumentIcon(props: IconProps) {
         </svg>
     );
 }
+
+export function HistoryIcon(props: IconProps) {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+            <path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path>
+            <polyline points="3 3 3 8 8 8"></polyline>
+            <polyline points="12 7 12 12 16 14"></polyline>
+        </svg>
+    );
+}
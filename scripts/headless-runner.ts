@@ -0,0 +1,84 @@
+/**
+ * Runs reply automation without the UI and serves the metrics registry for Prometheus.
+ *
+ *   npm run headless
+ *
+ * Environment:
+ *   GEMINI_API_KEY (or LLM_PROVIDER=fixture)
+ *   X_BEARER_TOKEN, X_APP_KEY, X_APP_SECRET, X_ACCESS_TOKEN, X_ACCESS_SECRET
+ *   AUTOMATION_INTERVAL_MINUTES  minutes between runs, default 15
+ *   AUTOMATION_LIVE=1            actually post replies; without it every run is a dry run
+ *   METRICS_PORT                 port of the GET /metrics endpoint, default 9464
+ */
+
+import { createServer } from 'node:http';
+import { type XApiCredentials } from '../types';
+
+// The browser build gets the key injected by vite.config.ts; set it before the services load
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+const { metricsRegistry, OPENMETRICS_CONTENT_TYPE } = await import('../services/metrics-registry');
+const { createXAutomationService, DEFAULT_AUTOMATION_CONFIG, DEFAULT_SEARCH_CRITERIA } = await import('../services/x-automation-service');
+// Registers the LLM provider, cache and scheduler collectors
+await import('../services/geminiService');
+
+function requireEnv(name: string): string {
+    const value = process.env[name];
+    if (!value) {
+        console.error(`Missing ${name}.`);
+        process.exit(1);
+    }
+    return value;
+}
+
+const credentials: XApiCredentials = {
+    bearerToken: requireEnv('X_BEARER_TOKEN'),
+    appKey: requireEnv('X_APP_KEY'),
+    appSecret: requireEnv('X_APP_SECRET'),
+    accessToken: requireEnv('X_ACCESS_TOKEN'),
+    accessSecret: requireEnv('X_ACCESS_SECRET'),
+};
+const intervalMinutes = Number(process.env.AUTOMATION_INTERVAL_MINUTES) || 15;
+const port = Number(process.env.METRICS_PORT) || 9464;
+
+const service = createXAutomationService(credentials, {
+    ...DEFAULT_AUTOMATION_CONFIG,
+    enabled: true,
+    dryRun: process.env.AUTOMATION_LIVE !== '1',
+});
+
+const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (req.method !== 'GET' || path !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found\n');
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE }).end(metricsRegistry.renderOpenMetrics());
+});
+server.listen(port, () => console.log(`Serving OpenMetrics on http://localhost:${port}/metrics`));
+
+let running = false;
+async function runOnce() {
+    // A slow run must not overlap the next one
+    if (running) return;
+    running = true;
+    try {
+        for (const result of await service.runAutomation(DEFAULT_SEARCH_CRITERIA)) {
+            console.log(result.success ? `Replied: ${result.replyId ?? '(dry run)'}` : `Skipped: ${result.error}`);
+        }
+    } catch (err) {
+        console.error('Automation run failed:', err);
+    } finally {
+        running = false;
+    }
+}
+
+await runOnce();
+const interval = setInterval(runOnce, intervalMinutes * 60 * 1000);
+
+const shutdown = () => {
+    clearInterval(interval);
+    server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
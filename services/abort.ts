@@ -0,0 +1,99 @@
+/**
+ * Helpers for AbortSignal-aware service calls.
+ */
+
+export function createAbortError(reason: string = 'Request cancelled'): Error {
+    const error = new Error(`Cancelled: ${reason}`);
+    error.name = 'AbortError';
+    return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * setTimeout that rejects with an AbortError as soon as `signal` fires.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Collapses identical concurrent requests onto one underlying promise.
+ *
+ * Each caller gets its own promise that rejects immediately when that caller's
+ * signal aborts. The shared work is only aborted once every subscriber has
+ * cancelled, so one impatient caller cannot kill another caller's request.
+ */
+export class InFlightRequests {
+    private inFlight = new Map<string, { promise: Promise<unknown>; controller: AbortController; subscribers: number }>();
+
+    run<T>(key: string, factory: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        throwIfAborted(signal);
+
+        let entry = this.inFlight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            const promise = factory(controller.signal).finally(() => {
+                if (this.inFlight.get(key)?.promise === promise) this.inFlight.delete(key);
+            });
+            entry = { promise, controller, subscribers: 0 };
+            this.inFlight.set(key, entry);
+        }
+        const shared = entry;
+        shared.subscribers++;
+
+        return new Promise<T>((resolve, reject) => {
+            let settled = false;
+            const onAbort = () => {
+                if (settled) return;
+                settled = true;
+                shared.subscribers--;
+                if (shared.subscribers === 0) {
+                    shared.controller.abort();
+                    if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+                }
+                reject(createAbortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            (shared.promise as Promise<T>).then(
+                value => {
+                    if (settled) return;
+                    settled = true;
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value);
+                },
+                error => {
+                    if (settled) return;
+                    settled = true;
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            );
+        });
+    }
+
+    get size(): number {
+        return this.inFlight.size;
+    }
+}
@@ -0,0 +1,186 @@
+import { type ArchivedAnalysis, type ArchivedUsage, type PostAnalysis, type ReplyStrategy } from '../types';
+import { openDatabase, trimStore, updateInStore, withStore } from './idb';
+
+const DB_NAME = 'apex-analysis-archive';
+const STORE = 'analyses';
+
+export const MAX_ARCHIVED_ANALYSES = 1000;
+
+const TIER_ORDER = ['S', 'A', 'B', 'C', 'F'];
+
+export interface ArchiveFilters {
+    query?: string;
+    author?: string;
+    cluster?: string;
+    tier?: string; // best Sanctum tier among the session's strategies
+}
+
+/**
+ * Every reply session, kept locally so earlier work can be searched and reopened.
+ * Records live in IndexedDB; without it (private browsing, headless Node) they are
+ * kept in memory for the session only.
+ */
+export class AnalysisArchive {
+    private db: Promise<IDBDatabase | null>;
+    private memory = new Map<string, ArchivedAnalysis>();
+    private readonly maxEntries: number;
+
+    constructor(options: { maxEntries?: number } = {}) {
+        this.maxEntries = options.maxEntries ?? MAX_ARCHIVED_ANALYSES;
+        this.db = openDatabase(DB_NAME, 1, db => {
+            const store = db.createObjectStore(STORE, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+        });
+    }
+
+    async put(record: ArchivedAnalysis): Promise<void> {
+        const db = await this.db;
+        if (!db) {
+            this.memory.set(record.id, record);
+        } else {
+            try {
+                await withStore(db, STORE, 'readwrite', store => store.put(record));
+            } catch (err) {
+                console.warn('Archive write failed:', err);
+                return;
+            }
+        }
+        await this.prune();
+    }
+
+    async get(id: string): Promise<ArchivedAnalysis | undefined> {
+        const db = await this.db;
+        if (!db) return this.memory.get(id);
+        return withStore<ArchivedAnalysis | undefined>(db, STORE, 'readonly', store => store.get(id));
+    }
+
+    /**
+     * All archived sessions, most recently updated first.
+     */
+    async list(): Promise<ArchivedAnalysis[]> {
+        const db = await this.db;
+        const records = db ? await withStore<ArchivedAnalysis[]>(db, STORE, 'readonly', store => store.getAll()) : [...this.memory.values()];
+        return records.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    async update(id: string, changes: Partial<Pick<ArchivedAnalysis, 'strategies' | 'usage'>>): Promise<ArchivedAnalysis | undefined> {
+        return this.modify(id, record => ({ ...record, ...changes }));
+    }
+
+    async recordUsage(id: string, usage: ArchivedUsage): Promise<ArchivedAnalysis | undefined> {
+        return this.modify(id, record => ({ ...record, usage: [...record.usage, usage] }));
+    }
+
+    async delete(id: string): Promise<void> {
+        this.memory.delete(id);
+        const db = await this.db;
+        if (!db) return;
+        try {
+            await withStore(db, STORE, 'readwrite', store => store.delete(id));
+        } catch (err) {
+            console.warn('Archive delete failed:', err);
+        }
+    }
+
+    /**
+     * Applies `fn` to the stored record and bumps `updatedAt`, reading and writing in
+     * one transaction so a copy recorded during a refinement isn't lost.
+     */
+    private async modify(id: string, fn: (record: ArchivedAnalysis) => ArchivedAnalysis): Promise<ArchivedAnalysis | undefined> {
+        const apply = (record: ArchivedAnalysis | undefined) => record && { ...fn(record), updatedAt: Date.now() };
+        const db = await this.db;
+        if (!db) {
+            const updated = apply(this.memory.get(id));
+            if (updated) this.memory.set(id, updated);
+            return updated;
+        }
+        try {
+            return await updateInStore<ArchivedAnalysis>(db, STORE, id, apply);
+        } catch (err) {
+            console.warn('Archive write failed:', err);
+            return undefined;
+        }
+    }
+
+    /**
+     * Drops the least recently updated sessions beyond the cap.
+     */
+    private async prune(): Promise<void> {
+        const db = await this.db;
+        if (!db) {
+            const excess = [...this.memory.values()].sort((a, b) => a.updatedAt - b.updatedAt).slice(0, Math.max(0, this.memory.size - this.maxEntries));
+            for (const record of excess) this.memory.delete(record.id);
+            return;
+        }
+        try {
+            await trimStore(db, STORE, 'updatedAt', this.maxEntries);
+        } catch (err) {
+            console.warn('Archive prune failed:', err);
+        }
+    }
+}
+
+export function createArchiveId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createArchiveRecord(
+    analysis: PostAnalysis,
+    strategies: ReplyStrategy[],
+    options: Partial<Pick<ArchivedAnalysis, 'voiceProfileId' | 'targetLanguage' | 'media' | 'usage'>> = {}
+): ArchivedAnalysis {
+    const { usage = [], ...rest } = options;
+    const now = Date.now();
+    return { id: createArchiveId(), createdAt: now, updatedAt: now, analysis, strategies, usage, ...rest };
+}
+
+export function bestTier(record: ArchivedAnalysis): string | undefined {
+    const tiers = record.strategies.map(s => s.gauntletResults?.sanctum?.qualityTier).filter((t): t is NonNullable<typeof t> => !!t);
+    return tiers.sort((a, b) => TIER_ORDER.indexOf(a) - TIER_ORDER.indexOf(b))[0];
+}
+
+export const clusterOf = (record: ArchivedAnalysis) => record.analysis.deconstruction?.graphJetContext?.cluster?.trim() || undefined;
+
+const authorOf = (record: ArchivedAnalysis) => record.analysis.originalAuthorHandle?.trim() || 'Unknown';
+
+function searchableText(record: ArchivedAnalysis): string {
+    const { analysis } = record;
+    return [
+        analysis.originalPostText,
+        analysis.originalAuthorHandle,
+        analysis.tone,
+        analysis.deconstruction?.coreThesis,
+        clusterOf(record),
+        ...record.strategies.flatMap(s => [s.strategy, s.replyText, s.strategicAngle, ...(s.abVariants?.map(v => v.text) ?? []), ...(s.history?.map(h => h.replyText) ?? [])]),
+    ].filter(Boolean).join('\n').toLowerCase();
+}
+
+/**
+ * Full-text search (every word must appear somewhere in the post, its analysis or
+ * any reply, including earlier versions) combined with the facet filters.
+ */
+export function searchArchive(records: ArchivedAnalysis[], filters: ArchiveFilters): ArchivedAnalysis[] {
+    const terms = (filters.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    return records.filter(record => {
+        if (filters.author && authorOf(record) !== filters.author) return false;
+        if (filters.cluster && clusterOf(record) !== filters.cluster) return false;
+        if (filters.tier && bestTier(record) !== filters.tier) return false;
+        if (terms.length === 0) return true;
+        const text = searchableText(record);
+        return terms.every(term => text.includes(term));
+    });
+}
+
+/**
+ * Distinct authors, clusters and tiers in the archive, for the filter menus.
+ */
+export function archiveFacets(records: ArchivedAnalysis[]): { authors: string[]; clusters: string[]; tiers: string[] } {
+    const distinct = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))];
+    return {
+        authors: distinct(records.map(authorOf)).sort((a, b) => a.localeCompare(b)),
+        clusters: distinct(records.map(clusterOf)).sort((a, b) => a.localeCompare(b)),
+        tiers: distinct(records.map(bestTier)).sort((a, b) => TIER_ORDER.indexOf(a) - TIER_ORDER.indexOf(b)),
+    };
+}
+
+export const analysisArchive = new AnalysisArchive();
@@ -0,0 +1,235 @@
+import { type AnalysisDiff, type DocumentAnalysis, type DocumentComparison, type DocumentTemplate, type FieldChange, type ListItemChange, type Milestone, type MilestoneChange, type TemplateFieldValue, type TextDiffSegment } from '../types';
+import { similarity, normalizeLink } from './document-merge';
+import { parseDateRange } from './date-range';
+import { formatRange } from './timeline';
+
+const DAY_MS = 86400000;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Pairs items across versions: identical items first, then the most similar
+ * remaining pairs above `threshold`. Returns the unmatched indices on each side.
+ */
+function matchItems<T>(before: T[], after: T[], key: (item: T) => string, score: (a: T, b: T) => number, threshold: number) {
+    const pairs: [number, number][] = [];
+    const freeBefore = new Set(before.map((_, i) => i));
+    const freeAfter = new Set(after.map((_, i) => i));
+    for (const i of freeBefore) {
+        const j = [...freeAfter].find(j => key(before[i]) === key(after[j]));
+        if (j === undefined) continue;
+        pairs.push([i, j]);
+        freeBefore.delete(i);
+        freeAfter.delete(j);
+    }
+    const candidates: { i: number; j: number; score: number }[] = [];
+    for (const i of freeBefore) {
+        for (const j of freeAfter) {
+            const value = score(before[i], after[j]);
+            if (value >= threshold) candidates.push({ i, j, score: value });
+        }
+    }
+    for (const { i, j } of candidates.sort((a, b) => b.score - a.score)) {
+        if (!freeBefore.has(i) || !freeAfter.has(j)) continue;
+        pairs.push([i, j]);
+        freeBefore.delete(i);
+        freeAfter.delete(j);
+    }
+    return { pairs, removed: [...freeBefore], added: [...freeAfter] };
+}
+
+function diffList(before: string[], after: string[]): ListItemChange[] {
+    const { pairs, removed, added } = matchItems(before, after, normalize, similarity, 0.5);
+    return [
+        ...pairs.filter(([i, j]) => normalize(before[i]) !== normalize(after[j])).map(([i, j]): ListItemChange => ({ kind: 'modified', before: before[i], after: after[j] })),
+        ...removed.map((i): ListItemChange => ({ kind: 'removed', before: before[i] })),
+        ...added.map((j): ListItemChange => ({ kind: 'added', after: after[j] })),
+    ];
+}
+
+const formatResource = (r: DocumentAnalysis['keyResources'][number]) => (r.link ? `${r.name} (${r.link})` : r.name);
+
+function diffResources(before: DocumentAnalysis['keyResources'], after: DocumentAnalysis['keyResources']): ListItemChange[] {
+    const key = (r: DocumentAnalysis['keyResources'][number]) => `${normalize(r.name)}|${r.link ? normalizeLink(r.link) : ''}`;
+    const score = (a: DocumentAnalysis['keyResources'][number], b: DocumentAnalysis['keyResources'][number]) =>
+        (a.link && b.link && normalizeLink(a.link) === normalizeLink(b.link) ? 1 : similarity(a.name, b.name));
+    const { pairs, removed, added } = matchItems(before, after, key, score, 0.6);
+    return [
+        ...pairs.filter(([i, j]) => key(before[i]) !== key(after[j])).map(([i, j]): ListItemChange => ({ kind: 'modified', before: formatResource(before[i]), after: formatResource(after[j]) })),
+        ...removed.map((i): ListItemChange => ({ kind: 'removed', before: formatResource(before[i]) })),
+        ...added.map((j): ListItemChange => ({ kind: 'added', after: formatResource(after[j]) })),
+    ];
+}
+
+function rangeOf(milestone: Milestone) {
+    return milestone.dateRange ?? parseDateRange(milestone.date) ?? undefined;
+}
+
+function diffMilestones(before: Milestone[], after: Milestone[]): MilestoneChange[] {
+    const { pairs, removed, added } = matchItems(before, after, m => normalize(m.event), (a, b) => similarity(a.event, b.event), 0.6);
+    const changes: MilestoneChange[] = [];
+    for (const [i, j] of pairs) {
+        const a = before[i];
+        const b = after[j];
+        const rangeA = rangeOf(a);
+        const rangeB = rangeOf(b);
+        const moved = rangeA && rangeB
+            ? rangeA.start !== rangeB.start || rangeA.end !== rangeB.end
+            : normalize(a.date) !== normalize(b.date);
+        if (moved) {
+            const shiftDays = rangeA && rangeB ? Math.round((Date.parse(rangeB.end) - Date.parse(rangeA.end)) / DAY_MS) : undefined;
+            changes.push({ kind: 'moved', before: a, after: b, shiftDays });
+        } else if (normalize(a.event) !== normalize(b.event) || normalize(a.details ?? '') !== normalize(b.details ?? '')) {
+            changes.push({ kind: 'modified', before: a, after: b });
+        }
+    }
+    removed.forEach(i => changes.push({ kind: 'removed', before: before[i] }));
+    added.forEach(j => changes.push({ kind: 'added', after: after[j] }));
+    return changes;
+}
+
+const fieldKey = (value: TemplateFieldValue | undefined) =>
+    JSON.stringify(Array.isArray(value) ? value.map(v => (typeof v === 'string' ? normalize(v) : v)).sort() : typeof value === 'string' ? normalize(value) : value ?? null);
+
+function diffFields(before: DocumentAnalysis, after: DocumentAnalysis, template?: DocumentTemplate): FieldChange[] {
+    const keys = [...new Set([...Object.keys(before.fields ?? {}), ...Object.keys(after.fields ?? {})])];
+    return keys
+        .filter(key => fieldKey(before.fields?.[key]) !== fieldKey(after.fields?.[key]))
+        .map(key => ({
+            key,
+            label: template?.fields.find(f => f.key === key)?.label ?? key,
+            before: before.fields?.[key],
+            after: after.fields?.[key],
+        }));
+}
+
+/**
+ * Structured differences between the analyses of two versions of a document:
+ * moved, added and removed milestones, list items that appeared, disappeared or
+ * were reworded, and changed template fields.
+ */
+export function diffAnalyses(before: DocumentAnalysis, after: DocumentAnalysis, template?: DocumentTemplate): AnalysisDiff {
+    const lists: AnalysisDiff['lists'] = {
+        objectives: diffList(before.objectives, after.objectives),
+        submissionRequirements: diffList(before.submissionRequirements, after.submissionRequirements),
+        modelsAndApproaches: diffList(before.modelsAndApproaches, after.modelsAndApproaches),
+        keyResources: diffResources(before.keyResources, after.keyResources),
+    };
+    const milestones = diffMilestones(before.milestones, after.milestones);
+    const fields = diffFields(before, after, template);
+    const titleChanged = normalize(before.title) !== normalize(after.title);
+    const summaryChanged = normalize(before.summary) !== normalize(after.summary);
+    const listChanges = Object.values(lists).reduce((sum, changes) => sum + (changes?.length ?? 0), 0);
+    return {
+        titleChanged,
+        summaryChanged,
+        milestones,
+        lists,
+        fields,
+        changeCount: milestones.length + listChanges + fields.length,
+    };
+}
+
+export const LIST_LABELS: Record<keyof AnalysisDiff['lists'], string> = {
+    objectives: 'Objectives',
+    submissionRequirements: 'Submission Requirements',
+    modelsAndApproaches: 'Models & Approaches',
+    keyResources: 'Key Resources',
+};
+
+export function formatMilestoneDate(milestone: Milestone): string {
+    const range = rangeOf(milestone);
+    return range ? formatRange(range) : milestone.date;
+}
+
+export function formatShift(days: number): string {
+    if (days === 0) return 'same end date';
+    const abs = Math.abs(days);
+    return `${days > 0 ? '+' : '-'}${abs} day${abs === 1 ? '' : 's'}`;
+}
+
+const formatFieldValue = (value: TemplateFieldValue | undefined) =>
+    value === undefined || value === null || (Array.isArray(value) && value.length === 0) ? '_not stated_' : Array.isArray(value) ? value.join('; ') : String(value);
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+// Unchanged text this short between two edits on one line joins them into one passage
+const isBridge = (segment: TextDiffSegment, next?: TextDiffSegment) =>
+    segment.type === 'equal' && segment.text.length <= 12 && !segment.text.includes('\n') && !!next && next.type !== 'equal';
+
+/**
+ * Changed passages as before/after pairs, for the Markdown report.
+ */
+function changedPassages(segments: TextDiffSegment[], limit: number): { deleted: string; inserted: string }[] {
+    const passages: { deleted: string; inserted: string }[] = [];
+    for (let i = 0; i < segments.length && passages.length < limit; i++) {
+        if (segments[i].type === 'equal') continue;
+        const passage = { deleted: '', inserted: '' };
+        for (; i < segments.length && (segments[i].type !== 'equal' || isBridge(segments[i], segments[i + 1])); i++) {
+            if (segments[i].type !== 'insert') passage.deleted += segments[i].text;
+            if (segments[i].type !== 'delete') passage.inserted += segments[i].text;
+        }
+        if (passage.deleted.trim() || passage.inserted.trim()) passages.push(passage);
+    }
+    return passages;
+}
+
+const MAX_REPORT_PASSAGES = 50;
+const clip = (text: string, max = 400) => {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    return collapsed.length > max ? `${collapsed.slice(0, max)}…` : collapsed;
+};
+
+/**
+ * Markdown report of a comparison: the structured changes, then the changed
+ * passages of the text itself.
+ */
+export function comparisonToMarkdown(comparison: DocumentComparison, textDiff: TextDiffSegment[], now: Date = new Date()): string {
+    const { before, after, diff } = comparison;
+    const lines: string[] = [
+        `# Changes: ${after.title}`,
+        '',
+        `_Compared ${now.toISOString().slice(0, 10)}. ${diff.changeCount} structured change${diff.changeCount === 1 ? '' : 's'}._`,
+        '',
+    ];
+    if (diff.titleChanged) lines.push(`**Title:** ~~${before.title}~~ → ${after.title}`, '');
+    if (diff.summaryChanged) lines.push('## Summary', '', `**Before:** ${before.summary}`, '', `**After:** ${after.summary}`, '');
+
+    if (diff.milestones.length > 0) {
+        lines.push('## Milestones', '', '| Change | Milestone | Before | After |', '| --- | --- | --- | --- |');
+        for (const change of diff.milestones) {
+            const event = change.after?.event ?? change.before?.event ?? '';
+            const kind = change.kind === 'moved' && change.shiftDays !== undefined ? `moved (${formatShift(change.shiftDays)})` : change.kind;
+            lines.push(`| ${kind} | ${escapeCell(event)} | ${change.before ? escapeCell(formatMilestoneDate(change.before)) : ''} | ${change.after ? escapeCell(formatMilestoneDate(change.after)) : ''} |`);
+        }
+        lines.push('');
+    }
+
+    for (const [list, changes] of Object.entries(diff.lists) as [keyof AnalysisDiff['lists'], ListItemChange[]][]) {
+        if (changes.length === 0) continue;
+        lines.push(`## ${LIST_LABELS[list]}`, '');
+        for (const change of changes) {
+            if (change.kind === 'added') lines.push(`- **Added:** ${change.after}`);
+            else if (change.kind === 'removed') lines.push(`- **Removed:** ~~${change.before}~~`);
+            else lines.push(`- **Changed:** ~~${change.before}~~ → ${change.after}`);
+        }
+        lines.push('');
+    }
+
+    if (diff.fields.length > 0) {
+        lines.push('## Fields', '', '| Field | Before | After |', '| --- | --- | --- |');
+        diff.fields.forEach(f => lines.push(`| ${escapeCell(f.label)} | ${escapeCell(formatFieldValue(f.before))} | ${escapeCell(formatFieldValue(f.after))} |`));
+        lines.push('');
+    }
+
+    const passages = changedPassages(textDiff, MAX_REPORT_PASSAGES);
+    if (passages.length > 0) {
+        lines.push('## Text Changes', '');
+        for (const { deleted, inserted } of passages) {
+            if (deleted.trim()) lines.push(`- ~~${clip(deleted)}~~${inserted.trim() ? ` → ${clip(inserted)}` : ''}`);
+            else lines.push(`- **Added:** ${clip(inserted)}`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+}
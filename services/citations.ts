@@ -0,0 +1,215 @@
+import { type DocumentSource, type KeyResource } from '../types';
+import { splitSentences } from './thread-composer';
+import { normalizeLink } from './document-merge';
+
+const SOURCES_HEADING = /^\s*(?:#{1,6}\s*)?(?:sources|references|notes|footnotes|bibliography|citations|works cited)\s*:?\s*$/i;
+const HEADING = /^\s*#{1,6}\s+(.*)$/;
+const FOOTNOTE_DEFINITION = /^\s*\[\^(\d+)\]:\s*(.*)$/;
+const NUMBERED_ENTRY = /^\s*(?:\[(\d+)\]:?|\^?(\d+)[.):])\s*(.*)$/;
+const MARKER = /\[\^?(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+const TRAILING_MARKERS = /([.!?])((?:\[\^?\d+(?:\s*[-–,]\s*\d+)*\])+)/g;
+const URL = /https?:\/\/[^\s<>)\]]+/i;
+const DOMAIN = /\b(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s<>)\]]*)?/i;
+const MAX_RANGE = 50;
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'page', 'site', 'website', 'resource', 'resources']);
+
+interface Citation {
+    sentence: string;
+    numbers: number[];
+}
+
+// The body of one document and the source list that closes it; a bundle of files has one per file
+interface CitationScope {
+    section?: string;
+    body: string[];
+    entries: string[];
+    footnotes: { number: number; label: string }[];
+    inSources: boolean;
+}
+
+export interface CitationIndex {
+    references: DocumentSource[];
+    referenceScopes: number[]; // parallel to references
+    citations: (Citation & { scope: number })[];
+    warnings: string[];
+}
+
+function markerNumbers(text: string): number[] {
+    const numbers: number[] = [];
+    for (const [, list] of text.matchAll(MARKER)) {
+        for (const part of list.split(',')) {
+            const [from, to = from] = part.split(/[-–]/).map(n => Number(n.trim()));
+            const end = to >= from && to - from <= MAX_RANGE ? to : from;
+            for (let n = from; n <= end; n++) if (!numbers.includes(n)) numbers.push(n);
+        }
+    }
+    return numbers;
+}
+
+const stripMarkers = (text: string) => text.replace(MARKER, '').replace(/\s+([.,;:!?])/g, '$1').replace(/\s+/g, ' ').trim();
+
+function linkOf(label: string): string | undefined {
+    const match = label.match(URL)?.[0] ?? label.match(DOMAIN)?.[0];
+    return match?.replace(/^https?:\/\//i, '').replace(/[.,;:]+$/, '');
+}
+
+/**
+ * Sentences carrying citation markers. Markers placed after the full stop
+ * ("…was shown.[2]") are moved before it so they stay with their sentence.
+ */
+function citingSentences(lines: string[]): Citation[] {
+    const citations: Citation[] = [];
+    for (const line of lines) {
+        if (!line.match(MARKER)) continue;
+        for (const sentence of splitSentences(line.replace(TRAILING_MARKERS, '$2$1'))) {
+            const numbers = markerNumbers(sentence);
+            const text = stripMarkers(sentence);
+            if (numbers.length > 0 && text) citations.push({ sentence: text, numbers });
+        }
+    }
+    return citations;
+}
+
+/**
+ * Source list entries. Explicitly numbered lists ("[3] …", "3. …") keep their
+ * numbers and unnumbered lines continue the previous entry; otherwise entries are
+ * numbered in order. Copied lists often carry stray UI labels ("help"), so
+ * unnumbered one-word lines without a link are skipped.
+ */
+function parseEntries(entries: string[]): { number: number; label: string }[] {
+    const numbered = entries.some(entry => NUMBERED_ENTRY.test(entry));
+    const sources: { number: number; label: string }[] = [];
+    for (const entry of entries) {
+        const match = entry.match(NUMBERED_ENTRY);
+        const label = (match ? match[3] : entry).trim();
+        if (match) {
+            sources.push({ number: Number(match[1] ?? match[2]), label });
+        } else if (numbered) {
+            if (sources.length > 0) sources[sources.length - 1].label += ` ${label}`;
+        } else if (linkOf(label) || label.split(/\s+/).length > 1) {
+            sources.push({ number: sources.length + 1, label });
+        }
+    }
+    return sources;
+}
+
+function splitScopes(text: string): CitationScope[] {
+    const scopes: CitationScope[] = [];
+    const open = (section?: string): CitationScope => {
+        const scope: CitationScope = { section, body: [], entries: [], footnotes: [], inSources: false };
+        scopes.push(scope);
+        return scope;
+    };
+    let scope = open();
+    for (const line of text.split('\n')) {
+        const footnote = line.match(FOOTNOTE_DEFINITION);
+        const heading = line.match(HEADING);
+        if (footnote) {
+            scope.footnotes.push({ number: Number(footnote[1]), label: footnote[2].trim() });
+        } else if (SOURCES_HEADING.test(line)) {
+            scope.inSources = true;
+        } else if (heading && scope.inSources) {
+            scope = open(heading[1].trim());
+            scope.body.push(line);
+        } else if (scope.inSources) {
+            if (line.trim()) scope.entries.push(line);
+        } else {
+            if (heading && /^\s*#\s/.test(line) && scope.body.every(l => !l.trim())) scope.section = heading[1].trim();
+            scope.body.push(line);
+        }
+    }
+    return scopes;
+}
+
+const formatNumbers = (numbers: number[]) => numbers.map(n => `[${n}]`).join(', ');
+
+/**
+ * Parses a document's citation markers ([1], [2][3], [4-6], [^7]) and its
+ * Sources/References list or footnotes, resolving each marker to its entry.
+ */
+export function parseCitations(text: string): CitationIndex {
+    const scopes = splitScopes(text);
+    const multiple = scopes.filter(s => s.entries.length > 0 || s.footnotes.length > 0).length > 1;
+    const index: CitationIndex = { references: [], referenceScopes: [], citations: [], warnings: [] };
+
+    scopes.forEach((scope, scopeIndex) => {
+        const where = multiple && scope.section ? ` in ${scope.section}` : '';
+        const entries = [...parseEntries(scope.entries), ...scope.footnotes];
+        const citations = citingSentences(scope.body);
+        const first = index.references.length;
+        for (const entry of entries) {
+            if (index.references.slice(first).some(r => r.number === entry.number)) continue;
+            const link = linkOf(entry.label);
+            index.references.push({
+                number: entry.number,
+                label: entry.label,
+                ...(link && { link }),
+                citedBy: citations.filter(c => c.numbers.includes(entry.number)).map(c => c.sentence),
+                ...(multiple && scope.section && { section: scope.section }),
+            });
+            index.referenceScopes.push(scopeIndex);
+        }
+        index.citations.push(...citations.map(c => ({ ...c, scope: scopeIndex })));
+
+        const known = new Set(entries.map(e => e.number));
+        const dangling = [...new Set(citations.flatMap(c => c.numbers))].filter(n => !known.has(n)).sort((a, b) => a - b);
+        if (dangling.length > 0) {
+            index.warnings.push(entries.length === 0
+                ? `Citation${dangling.length === 1 ? '' : 's'} ${formatNumbers(dangling)}${where} cannot be resolved: no Sources list was found.`
+                : `Citation${dangling.length === 1 ? '' : 's'} ${formatNumbers(dangling)}${where} ${dangling.length === 1 ? 'has' : 'have'} no matching source entry.`);
+        }
+        for (const reference of index.references.slice(first)) {
+            if (reference.citedBy.length === 0) index.warnings.push(`Source [${reference.number}] (${reference.label})${where} is never cited.`);
+        }
+    });
+    return index;
+}
+
+const significantWords = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+/**
+ * Whether a citing sentence is about a resource: it names it outright, or uses
+ * most of the words of its name.
+ */
+function mentions(sentence: string, resource: KeyResource): boolean {
+    const haystack = sentence.toLowerCase();
+    if (haystack.includes(resource.name.toLowerCase().trim())) return true;
+    const words = significantWords(resource.name);
+    if (words.length === 0) return false;
+    const present = new Set(significantWords(sentence));
+    return words.filter(word => present.has(word)).length / words.length >= 0.6;
+}
+
+/**
+ * Links extracted key resources to the document's own sources: each resource
+ * gets the entries cited alongside it (or sharing its link) and the sentences
+ * citing it, and a missing link is filled from the first cited entry.
+ */
+export function resolveCitations(text: string, resources: KeyResource[]): { keyResources: KeyResource[]; references: DocumentSource[]; citationWarnings: string[] } {
+    const { references, referenceScopes, citations, warnings } = parseCitations(text);
+    const keyResources = resources.map(resource => {
+        const cited = new Set<number>();
+        const citedBy: string[] = [];
+        for (const citation of citations.filter(c => mentions(c.sentence, resource))) {
+            for (const n of citation.numbers) {
+                const at = references.findIndex((r, i) => r.number === n && referenceScopes[i] === citation.scope);
+                if (at >= 0) cited.add(at);
+            }
+            if (!citedBy.includes(citation.sentence)) citedBy.push(citation.sentence);
+        }
+        if (resource.link) {
+            references.forEach((reference, i) => {
+                if (reference.link && normalizeLink(reference.link) === normalizeLink(resource.link as string)) cited.add(i);
+            });
+        }
+        if (cited.size === 0) return resource;
+        const indexes = [...cited].sort((a, b) => a - b);
+        // Prefer the cited entry whose link carries the resource's name ("Cradle" → cradle.bio)
+        const words = significantWords(resource.name);
+        const links = indexes.map(i => references[i].link).filter((link): link is string => !!link);
+        const link = resource.link || links.find(l => words.some(word => l.toLowerCase().includes(word))) || links[0];
+        return { ...resource, ...(link && { link }), citations: indexes, ...(citedBy.length > 0 && { citedBy }) };
+    });
+    return { keyResources, references, citationWarnings: warnings };
+}
@@ -0,0 +1,80 @@
+import { type ConversationContext, type ContextPost, type PostAnalysis } from '../types';
+
+// Only a sample of top replies is useful; more just dilutes the prompt
+export const MAX_TOP_REPLIES = 5;
+const MAX_CONTEXT_POST_LENGTH = 600;
+
+export const EMPTY_CONVERSATION_CONTEXT: ConversationContext = { parents: [], topReplies: [] };
+
+export function isEmptyContext(context?: ConversationContext): boolean {
+    return !context || (context.parents.length === 0 && !context.quoted && context.topReplies.length === 0);
+}
+
+/**
+ * Drops entries without text (e.g. half-filled editor rows). Returns undefined when nothing is left.
+ */
+export function pruneContext(context?: ConversationContext): ConversationContext | undefined {
+    if (!context) return undefined;
+    const hasText = (post: ContextPost) => post.text.trim().length > 0;
+    const pruned: ConversationContext = {
+        parents: context.parents.filter(hasText),
+        quoted: context.quoted && hasText(context.quoted) ? context.quoted : undefined,
+        topReplies: context.topReplies.filter(hasText),
+    };
+    return isEmptyContext(pruned) ? undefined : pruned;
+}
+
+function normalizeHandle(handle: string): string {
+    return handle.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * A target that replies to its own author's post continues a thread; replying to
+ * someone else makes it a reply. Quoting wins over both, since the quoted post is
+ * what the author is reacting to. A standalone post with images is 'media'.
+ */
+export function inferPostType(
+    authorHandle: string,
+    context?: ConversationContext,
+    hasMedia: boolean = false
+): NonNullable<PostAnalysis['postType']> {
+    if (context?.quoted) return 'quote';
+    if (context && context.parents.length > 0) {
+        const author = normalizeHandle(authorHandle);
+        const selfThread = author !== '' && context.parents.every(p => normalizeHandle(p.authorHandle) === author);
+        return selfThread ? 'thread' : 'reply';
+    }
+    return hasMedia ? 'media' : 'single';
+}
+
+function formatPost(post: ContextPost): string {
+    const text = post.text.trim().replace(/\s+/g, ' ');
+    const clipped = text.length > MAX_CONTEXT_POST_LENGTH ? `${text.slice(0, MAX_CONTEXT_POST_LENGTH)}…` : text;
+    return `${post.authorHandle || 'Unknown'}: ${clipped}`;
+}
+
+/**
+ * Renders the context as a prompt section. Returns an empty string when there is none.
+ */
+export function formatConversationContext(context?: ConversationContext): string {
+    if (!context || isEmptyContext(context)) return '';
+
+    const sections: string[] = ['CONVERSATION CONTEXT:'];
+    if (context.parents.length > 0) {
+        sections.push('Earlier posts in the conversation (oldest first; the target replies to the last one):');
+        context.parents.forEach((post, i) => sections.push(`  [${i + 1}] ${formatPost(post)}`));
+    }
+    if (context.quoted) {
+        sections.push('The target quotes this post:');
+        sections.push(`  [Q] ${formatPost(context.quoted)}`);
+    }
+    const topReplies = context.topReplies.slice(0, MAX_TOP_REPLIES);
+    if (topReplies.length > 0) {
+        sections.push('Existing top replies under the target (do NOT repeat their points):');
+        topReplies.forEach((post, i) => sections.push(`  [R${i + 1}] ${formatPost(post)}`));
+    }
+    sections.push(
+        'Use this context to understand what the author is responding to. Every reply must add something none of the existing replies already said.'
+    );
+    return sections.join('\n');
+}
@@ -0,0 +1,227 @@
+import { type DateRange } from '../types';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+// First month of each season (northern hemisphere); winter runs into the next year
+const SEASONS: Record<string, number> = { spring: 2, summer: 5, fall: 8, autumn: 8, winter: 11 };
+
+interface DatePoint {
+    year?: number;
+    month?: number; // 0-11
+    day?: number;
+}
+
+function monthIndex(name: string): number {
+    return MONTHS.findIndex(m => m.startsWith(name.toLowerCase().replace('.', '').slice(0, 3)));
+}
+
+function toIso(year: number, month: number, day: number): string {
+    const date = new Date(Date.UTC(year, month, day));
+    return date.toISOString().slice(0, 10);
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Resolves a date without a year to its next occurrence: in the reference year, or
+ * in the following one if it would already be over by then.
+ */
+function nextOccurrence<T extends { end: string }>(resolve: (year: number) => T | null, reference: Date): T | null {
+    const year = reference.getUTCFullYear();
+    const current = resolve(year);
+    const today = toIso(year, reference.getUTCMonth(), reference.getUTCDate());
+    return current && current.end < today ? resolve(year + 1) : current;
+}
+
+/**
+ * Parses one side of a range. Returns only the parts the text actually states.
+ */
+function parsePoint(text: string): DatePoint | null {
+    const s = text.trim().replace(/,/g, ' ').replace(/\s+/g, ' ');
+    let m: RegExpMatchArray | null;
+
+    if ((m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) return { year: +m[1], month: +m[2] - 1, day: +m[3] };
+    if ((m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/))) {
+        const year = m[3].length === 2 ? 2000 + +m[3] : +m[3];
+        // US order unless the first number can't be a month
+        return +m[1] > 12 ? { year, month: +m[2] - 1, day: +m[1] } : { year, month: +m[1] - 1, day: +m[2] };
+    }
+    if ((m = s.match(new RegExp(`^${MONTH_PATTERN} (\\d{1,2})(?: (\\d{4}))?$`, 'i')))) return { month: monthIndex(m[1]), day: +m[2], year: m[3] ? +m[3] : undefined };
+    if ((m = s.match(new RegExp(`^(\\d{1,2}) ${MONTH_PATTERN}(?: (\\d{4}))?$`, 'i')))) return { day: +m[1], month: monthIndex(m[2]), year: m[3] ? +m[3] : undefined };
+    if ((m = s.match(new RegExp(`^${MONTH_PATTERN}(?: (\\d{4}))?$`, 'i')))) return { month: monthIndex(m[1]), year: m[2] ? +m[2] : undefined };
+    if ((m = s.match(/^(\d{1,2})(?: (\d{4}))?$/))) return { day: +m[1], year: m[2] ? +m[2] : undefined };
+    if ((m = s.match(/^(\d{4})$/))) return { year: +m[1] };
+    return null;
+}
+
+function clean(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/\([^)]*\)/g, ' ')
+        .replace(/\b(mon|tue|wed|thu|fri|sat|sun)[a-z]*\b,?/g, ' ')
+        .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+        .replace(/\b(at|@)\s*\d{1,2}(:\d{2})?\s*(am|pm)?\b.*$/, ' ') // times
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+const PREFIXES: { pattern: RegExp; kind?: DateRange['kind'] }[] = [
+    { pattern: /^(?:by|before|no later than|due(?: by| on)?|deadline:?|until)\s+/, kind: 'deadline' },
+    { pattern: /^(?:week of|the week of)\s+/, kind: 'week' },
+    { pattern: /^(?:from|between|starting|starts|beginning|on|around|approx\.?|approximately|circa)\s+/ },
+];
+
+interface Period {
+    modifier?: string; // early, mid, late or "end of"
+    month: number; // first month, 0-11
+    months: number;
+    year?: number;
+}
+
+/**
+ * Named spans of months: quarters, halves, seasons and whole years, optionally
+ * narrowed by early/mid/late ("Spring 2026", "Late 2025", "End of Q4 2025",
+ * "Mid-October").
+ */
+function parsePeriod(s: string): Period | null {
+    let m = s.match(/^(early|mid|late|end of)[ -](.*)$/);
+    const modifier = m?.[1];
+    let rest = m ? m[2] : s;
+    m = rest.match(/^(.*?) ?(\d{4})$/);
+    const year = m ? +m[2] : undefined;
+    rest = (m ? m[1] : rest).replace(/^the /, '').replace(/ of$/, '');
+
+    if (!rest) return modifier && year !== undefined ? { modifier, month: 0, months: 12, year } : null;
+    if ((m = rest.match(/^(?:q([1-4])|([1-4])(?:st|nd|rd|th)? quarter)$/))) return { modifier, month: (+(m[1] ?? m[2]) - 1) * 3, months: 3, year };
+    if ((m = rest.match(/^(?:h([12])|(first|second|1st|2nd) half)$/))) return { modifier, month: m[1] === '2' || m[2] === 'second' || m[2] === '2nd' ? 6 : 0, months: 6, year };
+    if (rest in SEASONS) return { modifier, month: SEASONS[rest], months: 3, year };
+    // Bare months are left to the general parser, which also handles days
+    if (modifier && (m = rest.match(new RegExp(`^${MONTH_PATTERN}$`)))) return { modifier, month: monthIndex(m[1]), months: 1, year };
+    return null;
+}
+
+function expandPeriod(period: Period, year: number): { start: string; end: string; granularity: DateRange['granularity'] } {
+    let { month, months } = period;
+    let [from, to] = [1, 0]; // 0: the last day of the last month
+    if (period.modifier && months === 1) {
+        // Early/mid/late month: the first, second and last ten days or so
+        [from, to] = period.modifier === 'early' ? [1, 10] : period.modifier === 'mid' ? [11, 20] : [21, 0];
+    } else if (period.modifier) {
+        months /= 3;
+        month += period.modifier === 'early' ? 0 : period.modifier === 'mid' ? months : months * 2;
+    }
+    const lastMonth = month + months - 1;
+    return {
+        start: toIso(year, month, from),
+        end: toIso(year, lastMonth, to || lastDayOfMonth(year, lastMonth)),
+        granularity: months === 1 ? 'month' : months <= 3 ? 'quarter' : months <= 6 ? 'half' : 'year',
+    };
+}
+
+function expandPartial(point: DatePoint, year: number): { start: string; end: string; granularity: DateRange['granularity'] } | null {
+    if (point.month === undefined) {
+        return { start: toIso(year, 0, 1), end: toIso(year, 11, 31), granularity: 'year' };
+    }
+    if (point.day === undefined) {
+        return { start: toIso(year, point.month, 1), end: toIso(year, point.month, lastDayOfMonth(year, point.month)), granularity: 'month' };
+    }
+    if (point.day < 1 || point.day > lastDayOfMonth(year, point.month)) return null;
+    const iso = toIso(year, point.month, point.day);
+    return { start: iso, end: iso, granularity: 'day' };
+}
+
+/**
+ * Normalizes free-text milestone dates ("Week of October 20, 2025", "October 27 -
+ * November 17, 2025", "Q1 2026", "Late 2025", "By Nov 24") into inclusive ISO
+ * start/end dates. Missing years are taken from the other end of a range, else the
+ * date is the next occurrence on or after `reference`, with lower confidence.
+ * Returns null when nothing date-like is found.
+ */
+export function parseDateRange(text: string, reference: Date = new Date()): DateRange | null {
+    let s = clean(text);
+    if (!s) return null;
+    let kind: DateRange['kind'] = 'point';
+    for (const prefix of PREFIXES) {
+        if (prefix.pattern.test(s)) {
+            s = s.replace(prefix.pattern, '');
+            if (prefix.kind) kind = prefix.kind;
+        }
+    }
+
+    // Quarters, halves, seasons and early/mid/late spans
+    const period = parsePeriod(s);
+    if (period) {
+        const expanded = period.year !== undefined ? expandPeriod(period, period.year) : nextOccurrence(year => expandPeriod(period, year), reference)!;
+        const baseConfidence = expanded.granularity === 'year' ? 0.3 : expanded.granularity === 'half' ? 0.4 : 0.5;
+        return {
+            ...expanded,
+            ...(kind === 'deadline' && { start: expanded.end }),
+            confidence: period.year !== undefined ? baseConfidence : Number((baseConfidence * 0.6).toFixed(2)),
+            kind: kind === 'deadline' ? 'deadline' : 'range',
+        };
+    }
+
+    // ISO ranges first, since their hyphens would otherwise split the dates
+    const isoDates = s.match(/\d{4}-\d{1,2}-\d{1,2}/g);
+    const isoOnly = isoDates && !s.replace(/\d{4}-\d{1,2}-\d{1,2}|–|—|-|\bto\b|\bthrough\b|\buntil\b|\band\b|\s/g, '');
+    const parts = isoOnly
+        ? isoDates
+        : s.split(/\s*(?:–|—|\s-\s|-(?=\s*[a-z\d])|\bto\b|\bthrough\b|\bthru\b|\buntil\b|\band\b)\s*/).filter(Boolean);
+    if (parts.length === 0 || parts.length > 2) return null;
+
+    const start = parsePoint(parts[0]);
+    const end = parts[1] !== undefined ? parsePoint(parts[1]) : start;
+    if (!start || !end) return null;
+
+    // Fill gaps from the other side: "November 18 - 21, 2025", "Oct 27 - Nov 17, 2025"
+    if (parts.length === 2) {
+        const startYearInferred = start.year === undefined;
+        if (end.month === undefined && end.day !== undefined) end.month = start.month;
+        if (start.year === undefined) start.year = end.year;
+        if (end.year === undefined) end.year = start.year;
+        if (startYearInferred && start.year !== undefined && (start.month ?? 0) > (end.month ?? 11)) {
+            start.year -= 1; // "December 15 - January 10, 2026"
+        }
+    }
+    const yearStated = start.year !== undefined || end.year !== undefined;
+    const resolve = (year: number) => {
+        const startRange = expandPartial(start, start.year ?? year);
+        let endRange = expandPartial(end, end.year ?? start.year ?? year);
+        // Without any year, "December 15 - January 10" runs into the next one
+        if (!yearStated && startRange && endRange && endRange.end < startRange.start) endRange = expandPartial(end, year + 1);
+        if (!startRange || !endRange || endRange.end < startRange.start) return null;
+        return { startRange, endRange, end: endRange.end };
+    };
+    const resolved = yearStated ? resolve(reference.getUTCFullYear()) : nextOccurrence(resolve, reference);
+    if (!resolved) return null;
+    const { startRange, endRange } = resolved;
+
+    const granularity = kind === 'week' ? 'week' : startRange.granularity === 'day' && endRange.granularity === 'day' ? 'day' : startRange.granularity === 'year' ? 'year' : 'month';
+    const baseConfidence = { day: 0.95, week: 0.8, month: 0.6, quarter: 0.5, year: 0.3 }[granularity];
+    const range: DateRange = {
+        start: startRange.start,
+        end: kind === 'week' ? toIso(+startRange.start.slice(0, 4), +startRange.start.slice(5, 7) - 1, +startRange.start.slice(8, 10) + 6) : endRange.end,
+        granularity,
+        confidence: Number((yearStated ? baseConfidence : baseConfidence / 2).toFixed(2)),
+        kind: kind !== 'point' ? kind : startRange.start === endRange.end ? 'point' : 'range',
+    };
+    if (kind === 'deadline') range.start = range.end;
+    return range;
+}
+
+/**
+ * The earliest date a document states with its year. Year-less dates in the same
+ * document are resolved from here, so "By Nov 24" in a brief whose schedule starts
+ * in October 2025 means November 2025 whenever the brief is read.
+ */
+export function documentReferenceDate(dates: string[], fallback: Date = new Date()): Date {
+    const starts = dates
+        .filter(date => /\b\d{4}\b/.test(date))
+        .map(date => parseDateRange(date, fallback)?.start)
+        .filter((start): start is string => !!start)
+        .sort();
+    return starts.length > 0 ? new Date(`${starts[0]}T00:00:00Z`) : fallback;
+}
@@ -0,0 +1,101 @@
+import { type DocumentChunkInfo } from '../types';
+
+export interface DocumentChunk extends DocumentChunkInfo {
+    text: string;
+}
+
+// Roughly 3k tokens per chunk: small enough for thorough extraction, large enough to keep sections whole
+export const DEFAULT_CHUNK_CHARS = 12000;
+
+const HEADING_PATTERNS = [
+    /^#{1,6}\s+\S/, // Markdown
+    /^(?:[IVXLC]+|\d+(?:\.\d+)*|[A-Z])[.)]\s+\S.{0,80}$/, // "II. Key Milestones", "2.1 Scope"
+    /^(?:section|part|article|appendix|chapter)\s+[\w.]+/i,
+    /^[A-Z][A-Z0-9 &/,'-]{3,80}$/, // ALL CAPS line
+];
+
+function isHeading(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length > 0 && trimmed.length <= 100 && HEADING_PATTERNS.some(p => p.test(trimmed));
+}
+
+function cleanHeading(line: string): string {
+    return line.trim().replace(/^#+\s*/, '');
+}
+
+interface Section {
+    heading?: string;
+    start: number;
+    end: number;
+}
+
+function findSections(text: string): Section[] {
+    const sections: Section[] = [];
+    let current: Section = { start: 0, end: text.length };
+    let offset = 0;
+    for (const line of text.split('\n')) {
+        if (isHeading(line) && offset > current.start) {
+            current.end = offset;
+            sections.push(current);
+            current = { heading: cleanHeading(line), start: offset, end: text.length };
+        } else if (isHeading(line) && !current.heading) {
+            current.heading = cleanHeading(line);
+        }
+        offset += line.length + 1;
+    }
+    sections.push(current);
+    return sections.filter(s => text.slice(s.start, s.end).trim().length > 0);
+}
+
+/**
+ * Splits an oversized range at the last paragraph, line or sentence break that fits.
+ */
+function splitRange(text: string, start: number, end: number, maxChars: number): [number, number][] {
+    const ranges: [number, number][] = [];
+    let from = start;
+    while (end - from > maxChars) {
+        const window = text.slice(from, from + maxChars);
+        const floor = Math.floor(maxChars / 2);
+        let cut = window.lastIndexOf('\n\n');
+        if (cut < floor) cut = window.lastIndexOf('\n');
+        if (cut < floor) cut = window.lastIndexOf('. ') + 1;
+        if (cut < floor) cut = maxChars;
+        ranges.push([from, from + cut]);
+        from += cut;
+    }
+    ranges.push([from, end]);
+    return ranges;
+}
+
+/**
+ * Splits a document into chunks along its section headings. Consecutive small
+ * sections are packed together; sections longer than `maxChars` are split at
+ * paragraph boundaries. Offsets refer to the original text.
+ */
+export function chunkDocument(text: string, maxChars: number = DEFAULT_CHUNK_CHARS): DocumentChunk[] {
+    const pieces: Section[] = [];
+    for (const section of findSections(text)) {
+        splitRange(text, section.start, section.end, maxChars).forEach(([start, end], i) => {
+            pieces.push({ heading: section.heading ? (i === 0 ? section.heading : `${section.heading} (cont.)`) : undefined, start, end });
+        });
+    }
+
+    const chunks: DocumentChunk[] = [];
+    let current: Section | null = null;
+    const flush = () => {
+        if (!current) return;
+        chunks.push({ index: chunks.length, heading: current.heading, startOffset: current.start, endOffset: current.end, text: text.slice(current.start, current.end) });
+        current = null;
+    };
+    for (const piece of pieces) {
+        if (current && piece.end - current.start <= maxChars) {
+            current.end = piece.end;
+            current.heading ??= piece.heading;
+        } else {
+            flush();
+            current = { ...piece };
+        }
+    }
+    flush();
+    return chunks;
+}
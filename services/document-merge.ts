@@ -0,0 +1,227 @@
+import { type DocumentAnalysis, type DocumentSourceMap, type DocumentTemplate, type Milestone, type TemplateField, type TemplateFieldValue, type TemplateScalar } from '../types';
+import { parseDateRange } from './date-range';
+
+export interface ChunkExtraction {
+    chunkIndex: number;
+    analysis: DocumentAnalysis;
+}
+
+export interface MergedExtraction extends Pick<DocumentAnalysis, 'objectives' | 'milestones' | 'modelsAndApproaches' | 'keyResources' | 'submissionRequirements'> {
+    sources: DocumentSourceMap;
+    reconciliationNotes: string[];
+}
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function tokens(value: string): Set<string> {
+    return new Set(normalize(value).split(' ').filter(t => t.length > 1 || /\d/.test(t)));
+}
+
+/**
+ * Token-set overlap, or containment of one normalized string in the other.
+ */
+export function similarity(a: string, b: string): number {
+    const na = normalize(a);
+    const nb = normalize(b);
+    if (!na || !nb) return 0;
+    if (na === nb) return 1;
+    const [shorter, longer] = na.length < nb.length ? [na, nb] : [nb, na];
+    if (shorter.length >= 12 && longer.includes(shorter)) return 0.9;
+    const ta = tokens(a);
+    const tb = tokens(b);
+    const shared = [...ta].filter(t => tb.has(t)).length;
+    return shared / (ta.size + tb.size - shared || 1);
+}
+
+function addSource(sources: number[], chunkIndex: number): number[] {
+    return sources.includes(chunkIndex) ? sources : [...sources, chunkIndex].sort((a, b) => a - b);
+}
+
+const section = (chunkIndex: number) => `section ${chunkIndex + 1}`;
+
+/**
+ * De-duplicates items across chunks, keeping the most detailed wording and the
+ * union of source chunks. Items from the same chunk are never merged with each
+ * other; the model already listed them as distinct. Items stay in document order.
+ */
+function mergeItems<T>(
+    extractions: ChunkExtraction[],
+    pick: (analysis: DocumentAnalysis) => T[] | undefined,
+    isSame: (a: T, b: T) => boolean,
+    combine: (existing: T, incoming: T) => T
+): { items: T[]; sources: number[][] } {
+    const items: T[] = [];
+    const sources: number[][] = [];
+    for (const { chunkIndex, analysis } of extractions) {
+        for (const item of pick(analysis) ?? []) {
+            const index = items.findIndex((existing, i) => !sources[i].includes(chunkIndex) && isSame(existing, item));
+            if (index === -1) {
+                items.push(item);
+                sources.push([chunkIndex]);
+            } else {
+                items[index] = combine(items[index], item);
+                sources[index] = addSource(sources[index], chunkIndex);
+            }
+        }
+    }
+    return { items, sources };
+}
+
+const longer = (a: string, b: string) => (b.length > a.length ? b : a);
+
+function mergeStrings(extractions: ChunkExtraction[], pick: (analysis: DocumentAnalysis) => string[] | undefined) {
+    return mergeItems(extractions, a => pick(a)?.filter(s => s.trim()), (a, b) => similarity(a, b) >= 0.8, longer);
+}
+
+export function normalizeLink(link: string): string {
+    return link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+function normalizeDate(date: string): string {
+    const range = parseDateRange(date);
+    return range ? `${range.start}/${range.end}` : normalize(date);
+}
+
+/**
+ * Milestones are the same event when their descriptions match; differing dates for
+ * one event are reconciled by majority, with ties going to the later section
+ * (amendments usually come after the original schedule). Every conflict is noted.
+ */
+function mergeMilestones(extractions: ChunkExtraction[], notes: string[]) {
+    const items: Milestone[] = [];
+    const sources: number[][] = [];
+    const sightings: { date: string; chunkIndex: number }[][] = [];
+    for (const { chunkIndex, analysis } of extractions) {
+        for (const milestone of analysis.milestones ?? []) {
+            if (!milestone.event?.trim()) continue;
+            let index = items.findIndex((m, i) => !sources[i].includes(chunkIndex) && similarity(m.event, milestone.event) >= 0.6);
+            if (index === -1) {
+                index = items.push({ ...milestone }) - 1;
+                sources.push([chunkIndex]);
+                sightings.push([]);
+            } else {
+                const existing = items[index];
+                items[index] = { ...existing, event: longer(existing.event, milestone.event), details: longer(existing.details ?? '', milestone.details ?? '') };
+                sources[index] = addSource(sources[index], chunkIndex);
+            }
+            if (milestone.date?.trim()) sightings[index].push({ date: milestone.date, chunkIndex });
+        }
+    }
+
+    const milestones = items.map((milestone, i): Milestone => {
+        const byDate = new Map<string, { date: string; count: number; lastChunk: number }>();
+        for (const { date, chunkIndex } of sightings[i]) {
+            const key = normalizeDate(date);
+            const entry = byDate.get(key) ?? { date, count: 0, lastChunk: -1 };
+            byDate.set(key, { date: entry.date, count: entry.count + 1, lastChunk: Math.max(entry.lastChunk, chunkIndex) });
+        }
+        const candidates = [...byDate.values()].sort((a, b) => b.count - a.count || b.lastChunk - a.lastChunk);
+        if (candidates.length > 1) {
+            const listed = candidates.map(c => `${c.date} (${section(c.lastChunk)})`).join(' vs ');
+            notes.push(`"${milestone.event}": conflicting dates ${listed}; using ${candidates[0].date}.`);
+        }
+        return { ...milestone, date: candidates[0]?.date ?? milestone.date };
+    });
+    return { items: milestones, sources };
+}
+
+/**
+ * Reduce step of the chunked document analysis: combines per-chunk extractions
+ * into one set of lists with per-item source chunks.
+ */
+export function mergeChunkExtractions(extractions: ChunkExtraction[]): MergedExtraction {
+    const ordered = [...extractions].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    const reconciliationNotes: string[] = [];
+
+    const objectives = mergeStrings(ordered, a => a.objectives);
+    const modelsAndApproaches = mergeStrings(ordered, a => a.modelsAndApproaches);
+    const submissionRequirements = mergeStrings(ordered, a => a.submissionRequirements);
+    const keyResources = mergeItems(
+        ordered,
+        a => a.keyResources?.filter(r => r.name?.trim()),
+        (a, b) => (a.link && b.link ? normalizeLink(a.link) === normalizeLink(b.link) : similarity(a.name, b.name) >= 0.8),
+        (existing, incoming) => ({ name: longer(existing.name, incoming.name), link: existing.link || incoming.link })
+    );
+    const milestones = mergeMilestones(ordered, reconciliationNotes);
+
+    return {
+        objectives: objectives.items,
+        milestones: milestones.items,
+        modelsAndApproaches: modelsAndApproaches.items,
+        keyResources: keyResources.items,
+        submissionRequirements: submissionRequirements.items,
+        sources: {
+            objectives: objectives.sources,
+            milestones: milestones.sources,
+            modelsAndApproaches: modelsAndApproaches.sources,
+            keyResources: keyResources.sources,
+            submissionRequirements: submissionRequirements.sources,
+        },
+        reconciliationNotes,
+    };
+}
+
+export interface MergedTemplateFields {
+    fields: Record<string, TemplateFieldValue>;
+    fieldSources: Record<string, number[][]>;
+}
+
+function scalarKey(value: TemplateScalar, type: TemplateField['type']): string {
+    if (typeof value !== 'string') return String(value);
+    if (type === 'date') return normalizeDate(value);
+    if (type === 'url') return normalizeLink(value);
+    return normalize(value);
+}
+
+/**
+ * Reduce step for custom templates. List fields are unioned and de-duplicated
+ * like the built-in lists; scalar fields take the majority value across chunks,
+ * ties going to the later section, and disagreements are noted.
+ */
+export function mergeTemplateFields(template: DocumentTemplate, extractions: ChunkExtraction[], notes: string[]): MergedTemplateFields {
+    const ordered = [...extractions].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    const fields: Record<string, TemplateFieldValue> = {};
+    const fieldSources: Record<string, number[][]> = {};
+
+    for (const field of template.fields) {
+        const present = (value: TemplateScalar | undefined): value is Exclude<TemplateScalar, null> =>
+            value !== null && value !== undefined && (typeof value !== 'string' || value.trim() !== '');
+
+        if (field.list) {
+            const merged = mergeItems<Exclude<TemplateScalar, null>>(
+                ordered,
+                a => {
+                    const value = a.fields?.[field.key];
+                    return (Array.isArray(value) ? value : [value]).filter(present);
+                },
+                (a, b) => typeof a === 'string' && typeof b === 'string' && field.type === 'text'
+                    ? similarity(a, b) >= 0.8
+                    : scalarKey(a, field.type) === scalarKey(b, field.type),
+                (existing, incoming) => typeof existing === 'string' && typeof incoming === 'string' ? longer(existing, incoming) : existing
+            );
+            fields[field.key] = merged.items;
+            fieldSources[field.key] = merged.sources;
+            continue;
+        }
+
+        const byValue = new Map<string, { value: Exclude<TemplateScalar, null>; chunks: number[] }>();
+        for (const { chunkIndex, analysis } of ordered) {
+            const raw = analysis.fields?.[field.key];
+            const value = Array.isArray(raw) ? raw.find(present) : raw;
+            if (!present(value)) continue;
+            const key = scalarKey(value, field.type);
+            const entry = byValue.get(key) ?? { value, chunks: [] };
+            byValue.set(key, { value: entry.value, chunks: [...entry.chunks, chunkIndex] });
+        }
+        const candidates = [...byValue.values()].sort((a, b) => b.chunks.length - a.chunks.length || Math.max(...b.chunks) - Math.max(...a.chunks));
+        if (candidates.length > 1) {
+            const listed = candidates.map(c => `${c.value} (${section(c.chunks[c.chunks.length - 1])})`).join(' vs ');
+            notes.push(`${field.label}: conflicting values ${listed}; using ${candidates[0].value}.`);
+        }
+        fields[field.key] = candidates[0]?.value ?? null;
+        fieldSources[field.key] = candidates[0] ? [candidates[0].chunks] : [];
+    }
+    return { fields, fieldSources };
+}
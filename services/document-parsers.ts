@@ -0,0 +1,303 @@
+import { type ParsedDocument } from '../types';
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.txt', '.csv', '.pdf'];
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+type DocumentFormat = ParsedDocument['format'];
+
+export function detectDocumentFormat(file: { name: string; type: string }): DocumentFormat | null {
+    const name = file.name.toLowerCase();
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (file.type === 'text/markdown' || /\.(md|markdown)$/.test(name)) return 'markdown';
+    if (file.type === 'text/html' || /\.html?$/.test(name)) return 'html';
+    if (file.type === 'text/csv' || name.endsWith('.csv')) return 'csv';
+    if (file.type.startsWith('text/') || name.endsWith('.txt')) return 'text';
+    return null;
+}
+
+/**
+ * Line endings, tabs, trailing whitespace and runs of blank lines. Every parser
+ * output goes through this last.
+ */
+export function normalizeText(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\t/g, '    ')
+        .replace(/[ \u00a0]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Keeps headings, lists, tables and footnotes; drops inline markup the model doesn't need.
+ */
+export function parseMarkdown(source: string): string {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+    let inFence = false;
+    for (let i = 0; i < lines.length; i++) {
+        let line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) {
+            out.push(line);
+            continue;
+        }
+        // Setext headings become ATX headings
+        const next = lines[i + 1] ?? '';
+        if (line.trim() && /^=+\s*$/.test(next)) { out.push(`# ${line.trim()}`); i++; continue; }
+        if (line.trim() && /^-+\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) { out.push(`## ${line.trim()}`); i++; continue; }
+        if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) continue; // table delimiter row
+
+        line = line
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images keep their alt text
+            .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)')
+            .replace(/\[\^([^\]]+)\]:/g, '[$1]:') // footnote definitions
+            .replace(/\[\^([^\]]+)\]/g, '[$1]') // footnote references
+            .replace(/(\*\*|__)(.+?)\1/g, '$2')
+            .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*?)[*_](?=[^\w*]|$)/g, '$1$2')
+            .replace(/`([^`]+)`/g, '$1')
+            .replace(/<[^>]+>/g, '');
+        out.push(line);
+    }
+    return normalizeText(out.join('\n'));
+}
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'BLOCKQUOTE', 'PRE', 'FIGCAPTION', 'DT', 'DD', 'ADDRESS', 'HEADER', 'FOOTER', 'ASIDE', 'MAIN']);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'NAV', 'SVG', 'TEMPLATE', 'IFRAME']);
+
+function inlineText(node: Node): string {
+    return (node.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function tableToText(table: Element): string {
+    return Array.from(table.querySelectorAll('tr') as ArrayLike<Element>)
+        .map(row => Array.from(row.querySelectorAll('th,td') as ArrayLike<Element>).map(cell => inlineText(cell)).join(' | '))
+        .filter(row => row.replace(/[|\s]/g, ''))
+        .map(row => `| ${row} |`)
+        .join('\n');
+}
+
+/**
+ * Walks the DOM so headings, list items, tables and footnote markers survive as text.
+ */
+export function parseHtml(source: string): string {
+    const doc = new DOMParser().parseFromString(source, 'text/html');
+    const out: string[] = [];
+    let paragraph = '';
+    const flush = () => {
+        if (paragraph.trim()) out.push(paragraph.replace(/\s+/g, ' ').trim());
+        paragraph = '';
+    };
+
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            paragraph += node.textContent ?? '';
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const el = node as Element;
+        const tag = el.tagName;
+        if (SKIPPED_TAGS.has(tag)) return;
+
+        const heading = /^H([1-6])$/.exec(tag);
+        if (heading) {
+            flush();
+            out.push('', `${'#'.repeat(Number(heading[1]))} ${inlineText(el)}`);
+            return;
+        }
+        if (tag === 'TABLE') {
+            flush();
+            out.push('', tableToText(el), '');
+            return;
+        }
+        if (tag === 'LI') {
+            flush();
+            const marker = el.parentElement?.tagName === 'OL' ? `${Array.from(el.parentElement.children as ArrayLike<Element>).indexOf(el) + 1}.` : '-';
+            out.push(`${marker} ${inlineText(el)}`);
+            return;
+        }
+        if (tag === 'BR') {
+            flush();
+            return;
+        }
+        if (tag === 'SUP') {
+            paragraph += `[${inlineText(el).replace(/^\[|\]$/g, '')}]`;
+            return;
+        }
+        if (tag === 'A' && el.getAttribute('href')?.startsWith('http')) {
+            paragraph += `${inlineText(el)} (${el.getAttribute('href')})`;
+            return;
+        }
+
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) flush();
+        el.childNodes.forEach(walk);
+        if (isBlock) {
+            flush();
+            out.push('');
+        }
+    };
+
+    const title = doc.querySelector('title')?.textContent?.trim();
+    if (title && !doc.querySelector('h1')) out.push(`# ${title}`);
+    walk(doc.body);
+    flush();
+    return normalizeText(out.join('\n'));
+}
+
+/**
+ * RFC 4180 fields: quoted values may contain commas, newlines and doubled quotes.
+ */
+export function parseCsvRows(source: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const text = source.replace(/\r\n?/g, '\n');
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else field += char;
+        } else if (char === '"') quoted = true;
+        else if (char === ',') { row.push(field); field = ''; }
+        else if (char === '\n') { row.push(field); rows.push(row); row = []; field = ''; }
+        else field += char;
+    }
+    if (field || row.length > 0) { row.push(field); rows.push(row); }
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * One "Header: value" line group per row, which reads better to the model than a
+ * wide table and survives chunking without losing the header row.
+ */
+export function parseCsv(source: string): string {
+    const [header, ...rows] = parseCsvRows(source);
+    if (!header) return '';
+    const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`);
+    const records = rows.map((row, r) => {
+        const fields = row
+            .map((value, i) => ({ name: columns[i] ?? `Column ${i + 1}`, value: value.replace(/\s+/g, ' ').trim() }))
+            .filter(f => f.value)
+            .map(f => `${f.name}: ${f.value}`);
+        return `Row ${r + 1}: ${fields.join('; ')}`;
+    });
+    return normalizeText(`Columns: ${columns.join(', ')}\n\n${records.join('\n')}`);
+}
+
+interface PdfLine {
+    y: number;
+    height: number;
+    text: string;
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Extracts the text layer with pdf.js (loaded on demand). Items are regrouped into
+ * lines by baseline; wide horizontal gaps become " | " so table columns stay apart,
+ * lines set noticeably larger than body text become headings, and small text at the
+ * bottom of a page is kept as that page's footnotes.
+ */
+export async function parsePdf(data: ArrayBuffer): Promise<{ text: string; pageCount: number; warnings: string[] }> {
+    const pdfjs = await import('pdfjs-dist');
+    if (typeof window !== 'undefined' && !pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+    }
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    const warnings: string[] = [];
+    const pages: PdfLine[][] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const lines: (PdfLine & { items: { x: number; width: number; str: string }[] })[] = [];
+        for (const item of content.items) {
+            if (!('str' in item) || !item.str.trim()) continue;
+            const [, , , scaleY, x, y] = item.transform as number[];
+            const height = Math.abs(item.height || scaleY);
+            let line = lines.find(l => Math.abs(l.y - y) <= Math.max(2, height * 0.4));
+            if (!line) {
+                line = { y, height, text: '', items: [] };
+                lines.push(line);
+            }
+            line.height = Math.max(line.height, height);
+            line.items.push({ x, width: item.width, str: item.str });
+        }
+        lines.sort((a, b) => b.y - a.y); // PDF y grows upwards
+        pages.push(lines.map(line => {
+            const items = line.items.sort((a, b) => a.x - b.x);
+            let text = '';
+            items.forEach((item, i) => {
+                const previous = items[i - 1];
+                const gap = previous ? item.x - (previous.x + previous.width) : 0;
+                text += !previous ? item.str : gap > line.height * 2 ? ` | ${item.str}` : gap > line.height * 0.15 && !text.endsWith(' ') ? ` ${item.str}` : item.str;
+            });
+            return { y: line.y, height: line.height, text: text.replace(/\s+/g, ' ').trim() };
+        }));
+        page.cleanup();
+    }
+
+    const bodyHeight = median(pages.flat().map(l => l.height));
+    const out: string[] = [];
+    pages.forEach((lines, pageIndex) => {
+        // Footnotes: the trailing run of small lines at the bottom of the page
+        let footnoteStart = lines.length;
+        while (footnoteStart > 0 && lines[footnoteStart - 1].height < bodyHeight * 0.85) footnoteStart--;
+        if (footnoteStart === 0) footnoteStart = lines.length;
+
+        for (const line of lines.slice(0, footnoteStart)) {
+            const isHeading = line.height >= bodyHeight * 1.2 && line.text.length <= 100 && !line.text.includes(' | ');
+            if (isHeading) out.push('', `${line.height >= bodyHeight * 1.6 ? '#' : '##'} ${line.text}`);
+            else out.push(line.text);
+        }
+        const footnotes = lines.slice(footnoteStart);
+        if (footnotes.length > 0) out.push('', `Footnotes (page ${pageIndex + 1}):`, ...footnotes.map(l => l.text), '');
+    });
+
+    const text = normalizeText(out.join('\n'));
+    if (!text) warnings.push('No text layer found; scanned PDFs need OCR before analysis.');
+    return { text, pageCount: pdf.numPages, warnings };
+}
+
+/**
+ * Reads and normalizes one uploaded file. Throws for unsupported or oversized files.
+ */
+export async function parseDocumentFile(file: File): Promise<ParsedDocument> {
+    const format = detectDocumentFormat(file);
+    if (!format) throw new Error(`${file.name}: unsupported file type. Use ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}.`);
+    if (file.size > MAX_DOCUMENT_BYTES) throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`);
+
+    if (format === 'pdf') {
+        const { text, pageCount, warnings } = await parsePdf(await file.arrayBuffer());
+        return { name: file.name, format, text, pageCount, warnings: warnings.length > 0 ? warnings : undefined };
+    }
+    const source = await file.text();
+    const text = format === 'markdown' ? parseMarkdown(source)
+        : format === 'html' ? parseHtml(source)
+        : format === 'csv' ? parseCsv(source)
+        : normalizeText(source);
+    return { name: file.name, format, text };
+}
+
+/**
+ * Joins several documents into one project text. Each file becomes a top-level
+ * heading and its own headings move down a level, so the chunker keeps file
+ * boundaries and section structure.
+ */
+export function buildDocumentBundle(documents: Pick<ParsedDocument, 'name' | 'text'>[]): string {
+    const nonEmpty = documents.filter(d => d.text.trim());
+    if (nonEmpty.length === 1) return nonEmpty[0].text;
+    return nonEmpty
+        .map(d => `# ${d.name}\n\n${d.text.replace(/^(#{1,5}) /gm, '#$1 ')}`)
+        .join('\n\n');
+}
@@ -0,0 +1,87 @@
+import { type DocumentChunkInfo, type DocumentQAMessage, type DocumentQuote } from '../types';
+import { chunkDocument, type DocumentChunk } from './document-chunker';
+
+// Documents up to this size are sent whole; longer ones only send the best-matching chunks
+export const FULL_CONTEXT_CHARS = 30000;
+const RETRIEVAL_CHUNK_CHARS = 4000;
+export const MAX_HISTORY_TURNS = 6;
+
+export const NOT_IN_DOCUMENT_ANSWER = "The document doesn't say.";
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'be', 'what', 'which', 'who', 'when', 'where', 'how', 'do', 'does', 'did', 'it', 'this', 'that', 'with', 'by', 'as', 'at', 'we', 'our', 'i', 'can', 'should', 'there', 'any']);
+
+function terms(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Passages to answer from: the whole document when it fits, otherwise the
+ * chunks sharing the most (rarity-weighted) terms with the question and recent
+ * history, kept in document order.
+ */
+export function selectContext(documentText: string, question: string, history: DocumentQAMessage[] = []): DocumentChunk[] {
+    if (documentText.length <= FULL_CONTEXT_CHARS) {
+        return [{ index: 0, startOffset: 0, endOffset: documentText.length, text: documentText }];
+    }
+    const chunks = chunkDocument(documentText, RETRIEVAL_CHUNK_CHARS);
+    const queryTerms = terms([question, ...history.slice(-2).map(m => m.question)].join(' '));
+    const chunkTerms = chunks.map(c => terms(`${c.heading ?? ''} ${c.text}`));
+    const documentFrequency = new Map<string, number>();
+    chunkTerms.forEach(list => new Set(list).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) ?? 0) + 1)));
+
+    const scored = chunks.map((chunk, i) => {
+        const counts = new Map<string, number>();
+        chunkTerms[i].forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+        const score = queryTerms.reduce((sum, term) => {
+            const tf = counts.get(term) ?? 0;
+            if (tf === 0) return sum;
+            const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) ?? 1));
+            return sum + idf * (tf / (tf + 1.2)); // saturating term frequency
+        }, 0);
+        return { chunk, score };
+    });
+
+    const selected: DocumentChunk[] = [];
+    let size = 0;
+    for (const { chunk, score } of [...scored].sort((a, b) => b.score - a.score)) {
+        if (size + chunk.text.length > FULL_CONTEXT_CHARS || (score === 0 && selected.length > 0)) break;
+        selected.push(chunk);
+        size += chunk.text.length;
+    }
+    return selected.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+function collapse(text: string): string {
+    return text.toLowerCase().replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Checks each quote against the source text. Verified quotes are mapped to the
+ * analysis chunk that contains them.
+ */
+export function verifyQuotes(quotes: string[], documentText: string, chunks?: DocumentChunkInfo[]): DocumentQuote[] {
+    const haystack = collapse(documentText);
+    return quotes
+        .map(q => q.trim().replace(/^["'“”]+|["'“”]+$/g, '').replace(/^\.\.\.|\.\.\.$/g, '').trim())
+        .filter(Boolean)
+        .map(text => {
+            const position = haystack.indexOf(collapse(text));
+            if (position === -1) return { text, verified: false };
+            // Map the position in the collapsed text back to an approximate source offset
+            const ratio = documentText.length / Math.max(1, haystack.length);
+            const offset = Math.floor(position * ratio);
+            const chunk = chunks && chunks.length > 1 ? chunks.find(c => offset >= c.startOffset && offset < c.endOffset) : undefined;
+            return { text, verified: true, chunkIndex: chunk?.index };
+        });
+}
+
+export function createMessageId(): string {
+    return `qa-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function formatHistory(history: DocumentQAMessage[]): string {
+    return history
+        .slice(-MAX_HISTORY_TURNS)
+        .map(m => `Q: ${m.question}\nA: ${m.answerable ? m.answer : NOT_IN_DOCUMENT_ANSWER}`)
+        .join('\n');
+}
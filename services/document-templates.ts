@@ -0,0 +1,198 @@
+import { Type, type Schema } from "@google/genai";
+import { type DocumentTemplate, type TemplateField, type TemplateFieldType } from '../types';
+
+const STORAGE_KEY = 'apex-document-templates';
+
+/**
+ * The original fixed extraction (objectives, milestones, models, resources,
+ * requirements). It has no custom fields; analyzeDocument uses its dedicated schema.
+ */
+export const COMPETITION_BRIEF_TEMPLATE: DocumentTemplate = {
+    id: 'competition-brief',
+    name: 'Competition Brief / RFP',
+    description: 'Objectives, milestones, models and approaches, key resources and submission requirements.',
+    fields: [],
+    builtIn: true,
+};
+
+const field = (key: string, label: string, type: TemplateFieldType, description: string, list = false, required = false): TemplateField =>
+    ({ key, label, type, description, list, required });
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+    COMPETITION_BRIEF_TEMPLATE,
+    {
+        id: 'contract',
+        name: 'Contract',
+        description: 'Parties, term, money and the clauses that create obligations or risk.',
+        builtIn: true,
+        fields: [
+            field('parties', 'Parties', 'text', 'Legal names of every party and their role (e.g. "Acme Corp (Supplier)")', true, true),
+            field('effectiveDate', 'Effective Date', 'date', 'Date the agreement takes effect, as written'),
+            field('termEndDate', 'Term End Date', 'date', 'Date the initial term ends, as written'),
+            field('autoRenewal', 'Auto-Renews', 'boolean', 'Whether the contract renews automatically'),
+            field('totalValue', 'Total Value', 'number', 'Total contract value as a plain number, without currency symbols'),
+            field('paymentTerms', 'Payment Terms', 'text', 'When and how payments are due'),
+            field('obligations', 'Key Obligations', 'text', 'Each material obligation, naming the party that owes it', true),
+            field('terminationClauses', 'Termination', 'text', 'Conditions under which either party may terminate, with notice periods', true),
+            field('liabilityCaps', 'Liability & Indemnity', 'text', 'Liability caps, exclusions and indemnities', true),
+            field('governingLaw', 'Governing Law', 'text', 'Jurisdiction whose law governs the contract'),
+        ],
+    },
+    {
+        id: 'earnings-report',
+        name: 'Earnings Report',
+        description: 'Headline financials, guidance and the risks management called out.',
+        builtIn: true,
+        fields: [
+            field('company', 'Company', 'text', 'Reporting company name and ticker', false, true),
+            field('period', 'Reporting Period', 'text', 'Fiscal quarter or year covered, e.g. "Q3 FY2025"', false, true),
+            field('reportDate', 'Report Date', 'date', 'Date the results were published, as written'),
+            field('revenue', 'Revenue (millions)', 'number', 'Total revenue for the period in millions of the reporting currency'),
+            field('revenueGrowthPct', 'Revenue Growth %', 'number', 'Year-over-year revenue growth in percent'),
+            field('netIncome', 'Net Income (millions)', 'number', 'Net income for the period in millions; negative for a loss'),
+            field('eps', 'Diluted EPS', 'number', 'Diluted earnings per share'),
+            field('guidance', 'Guidance', 'text', 'Forward guidance as stated, with ranges', true),
+            field('segmentHighlights', 'Segment Highlights', 'text', 'Notable results by segment or product line', true),
+            field('keyRisks', 'Key Risks', 'text', 'Risks or headwinds management called out', true),
+        ],
+    },
+    {
+        id: 'research-paper',
+        name: 'Research Paper',
+        description: 'Question, method, data, findings and limitations.',
+        builtIn: true,
+        fields: [
+            field('authors', 'Authors', 'text', 'Author names in order', true),
+            field('publicationDate', 'Publication Date', 'date', 'Publication or preprint date, as written'),
+            field('researchQuestion', 'Research Question', 'text', 'The question or hypothesis the paper addresses', false, true),
+            field('methods', 'Methods', 'text', 'Methods, models or experimental setups used', true),
+            field('datasets', 'Datasets', 'text', 'Datasets or benchmarks used, with sizes where given', true),
+            field('keyFindings', 'Key Findings', 'text', 'Main results, with the numbers that support them', true, true),
+            field('limitations', 'Limitations', 'text', 'Limitations the authors acknowledge', true),
+            field('codeUrl', 'Code / Data URL', 'url', 'Link to released code or data'),
+        ],
+    },
+];
+
+function readStored(): DocumentTemplate[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.warn('Could not read document templates:', err);
+        return [];
+    }
+}
+
+function writeStored(templates: DocumentTemplate[]): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+}
+
+export function loadDocumentTemplates(): DocumentTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...readStored()];
+}
+
+export function getDocumentTemplate(id: string | undefined): DocumentTemplate {
+    return loadDocumentTemplates().find(t => t.id === id) ?? COMPETITION_BRIEF_TEMPLATE;
+}
+
+export function createTemplateId(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+    return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * camelCase identifier from a label; schema property names must be stable and simple.
+ */
+export function toFieldKey(label: string): string {
+    const words = label.replace(/[^A-Za-z0-9 ]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+    const key = words.map((w, i) => i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase()).join('');
+    return /^[a-z]/.test(key) ? key : `field${key}`;
+}
+
+/**
+ * Problems that would make the compiled schema invalid or ambiguous. Empty when the template is usable.
+ */
+export function validateTemplate(template: DocumentTemplate): string[] {
+    const problems: string[] = [];
+    if (!template.name.trim()) problems.push('Template needs a name.');
+    if (template.fields.length === 0) problems.push('Add at least one field.');
+    const seen = new Set<string>();
+    for (const f of template.fields) {
+        if (!f.label.trim()) problems.push('Every field needs a label.');
+        if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(f.key)) problems.push(`"${f.label}" has an invalid key "${f.key}".`);
+        if (seen.has(f.key)) problems.push(`Two fields share the key "${f.key}".`);
+        seen.add(f.key);
+    }
+    return problems;
+}
+
+/**
+ * Inserts or replaces a template by id. Built-in templates cannot be overwritten.
+ */
+export function saveDocumentTemplate(template: DocumentTemplate): DocumentTemplate[] {
+    if (BUILT_IN_TEMPLATES.some(t => t.id === template.id)) return loadDocumentTemplates();
+    const stored = readStored();
+    const index = stored.findIndex(t => t.id === template.id);
+    if (index === -1) stored.push(template);
+    else stored[index] = template;
+    writeStored(stored);
+    return loadDocumentTemplates();
+}
+
+export function deleteDocumentTemplate(id: string): DocumentTemplate[] {
+    writeStored(readStored().filter(t => t.id !== id));
+    return loadDocumentTemplates();
+}
+
+const TYPE_HINTS: Record<TemplateFieldType, string> = {
+    text: '',
+    number: ' Plain number only.',
+    date: ' Copy the date exactly as written.',
+    boolean: '',
+    url: ' Absolute URL.',
+};
+
+function fieldSchema(f: TemplateField): Schema {
+    const base: Schema = {
+        type: f.type === 'number' ? Type.NUMBER : f.type === 'boolean' ? Type.BOOLEAN : Type.STRING,
+        description: `${f.description}${TYPE_HINTS[f.type]}`,
+    };
+    if (!f.list) return { ...base, nullable: true };
+    return { type: Type.ARRAY, description: base.description, items: { type: base.type } };
+}
+
+/**
+ * Response schema for a custom template: title and summary (needed by every
+ * view), plus one property per field under `fields`. Scalars are nullable so the
+ * model can say a field isn't in the document.
+ */
+export function compileTemplateSchema(template: DocumentTemplate): Schema {
+    return {
+        type: Type.OBJECT,
+        required: ['title', 'summary', 'fields'],
+        properties: {
+            title: { type: Type.STRING },
+            summary: { type: Type.STRING },
+            fields: {
+                type: Type.OBJECT,
+                required: template.fields.filter(f => f.required).map(f => f.key),
+                properties: Object.fromEntries(template.fields.map(f => [f.key, fieldSchema(f)])),
+            },
+        },
+    };
+}
+
+/**
+ * Field-by-field extraction guide for the prompt.
+ */
+export function formatTemplateInstructions(template: DocumentTemplate): string {
+    return [
+        `EXTRACTION TEMPLATE: "${template.name}"${template.description ? ` - ${template.description}` : ''}`,
+        ...template.fields.map(f => `- ${f.key} (${f.list ? `list of ${f.type}` : f.type}${f.required ? ', required' : ''}): ${f.description}`),
+        'Use null (or an empty list) for anything the document does not state. Never guess.',
+    ].join('\n');
+}
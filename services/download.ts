@@ -0,0 +1,21 @@
+/**
+ * Saves generated text as a file through a temporary object URL.
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string = 'text/plain'): void {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke after the click has been handled
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * File-name-safe slug of a title, for exported files.
+ */
+export function toFileSlug(title: string, fallback: string = 'export'): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || fallback;
+}
@@ -0,0 +1,230 @@
+import { type ApexErrorCode } from '../types';
+
+/**
+ * Base class for every error the services surface to the UI. Callers decide on
+ * retries and messaging from `code`/`retryable`, never from message text.
+ */
+export class ApexError extends Error {
+    readonly code: ApexErrorCode;
+    readonly title: string;
+    readonly retryable: boolean;
+    readonly remediation: string;
+
+    constructor(
+        message: string,
+        options: { code?: ApexErrorCode; title?: string; retryable?: boolean; remediation?: string; cause?: unknown } = {}
+    ) {
+        super(message, { cause: options.cause });
+        this.name = 'ApexError';
+        this.code = options.code ?? 'UNKNOWN';
+        this.title = options.title ?? 'Unexpected Error';
+        this.retryable = options.retryable ?? false;
+        this.remediation = options.remediation ?? 'Try again. If the problem persists, check the browser console for details.';
+    }
+}
+
+export class RateLimitedError extends ApexError {
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { retryAfterMs?: number; service?: 'gemini' | 'x'; cause?: unknown } = {}) {
+        const seconds = options.retryAfterMs !== undefined ? Math.ceil(options.retryAfterMs / 1000) : undefined;
+        super(message, {
+            code: 'RATE_LIMITED',
+            title: options.service === 'x' ? 'X API Rate Limit' : 'Model Rate Limit',
+            retryable: true,
+            remediation: seconds !== undefined ? `Wait about ${seconds}s before retrying.` : 'Wait a minute before retrying.',
+            cause: options.cause,
+        });
+        this.name = 'RateLimitedError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export class AuthError extends ApexError {
+    readonly service: 'gemini' | 'x';
+
+    constructor(message: string, options: { service?: 'gemini' | 'x'; cause?: unknown } = {}) {
+        const service = options.service ?? 'gemini';
+        super(message, {
+            code: 'AUTH',
+            title: 'Authentication Failed',
+            remediation: service === 'x'
+                ? 'Check the X Bearer Token and, for replies, the App Key/Secret and Access Token/Secret in the Automation tab.'
+                : 'Set a valid Gemini API key in the API_KEY environment variable and reload.',
+            cause: options.cause,
+        });
+        this.name = 'AuthError';
+        this.service = service;
+    }
+}
+
+export class MalformedResponseError extends ApexError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, {
+            code: 'MALFORMED_RESPONSE',
+            title: 'Malformed AI Response',
+            retryable: true,
+            remediation: 'The model returned output that did not match the expected schema. Retrying usually succeeds.',
+            cause: options.cause,
+        });
+        this.name = 'MalformedResponseError';
+    }
+}
+
+export class SafetyBlockedError extends ApexError {
+    readonly reason?: string;
+
+    constructor(message: string, options: { reason?: string; cause?: unknown } = {}) {
+        super(message, {
+            code: 'SAFETY_BLOCKED',
+            title: 'Blocked by Safety Filters',
+            remediation: 'Rephrase or trim the input. Retrying the same content will be blocked again.',
+            cause: options.cause,
+        });
+        this.name = 'SafetyBlockedError';
+        this.reason = options.reason;
+    }
+}
+
+export class NetworkError extends ApexError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, {
+            code: 'NETWORK',
+            title: 'Network Error',
+            retryable: true,
+            remediation: 'Check your connection and retry.',
+            cause: options.cause,
+        });
+        this.name = 'NetworkError';
+    }
+}
+
+export class QuotaExhaustedError extends ApexError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, {
+            code: 'QUOTA_EXHAUSTED',
+            title: 'Quota Exhausted',
+            remediation: 'The daily or billing quota for this API key is used up. Wait for the quota to reset or raise it in Google AI Studio.',
+            cause: options.cause,
+        });
+        this.name = 'QuotaExhaustedError';
+    }
+}
+
+export class ServiceUnavailableError extends ApexError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, {
+            code: 'SERVICE_UNAVAILABLE',
+            title: 'Service Unavailable',
+            retryable: true,
+            remediation: 'The model is overloaded or temporarily down. Retry in a few seconds.',
+            cause: options.cause,
+        });
+        this.name = 'ServiceUnavailableError';
+    }
+}
+
+export class XApiError extends ApexError {
+    readonly status: number;
+    readonly detail: string;
+
+    constructor(status: number, detail: string, options: { title?: string; cause?: unknown } = {}) {
+        super(`X API Error (${status}): ${detail}`, {
+            code: 'X_API',
+            title: options.title ?? 'X API Error',
+            retryable: status >= 500,
+            remediation: X_API_REMEDIATION[status] ?? (status >= 500 ? 'X is having problems. Retry shortly.' : 'Check the request and your app permissions in the X developer portal.'),
+            cause: options.cause,
+        });
+        this.name = 'XApiError';
+        this.status = status;
+        this.detail = detail;
+    }
+}
+
+const X_API_REMEDIATION: Record<number, string> = {
+    400: 'The reply content may be invalid (length, duplicates or forbidden characters). Edit it and try again.',
+    403: 'Your X app lacks permission for this action. Enable Read and Write access and regenerate the access tokens.',
+    404: 'The post no longer exists or is not visible to this account.',
+};
+
+// --- Classification ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const stringOf = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+function statusOf(error: unknown): number | undefined {
+    if (!isRecord(error)) return undefined;
+    if (typeof error.status === 'number') return error.status;
+    const match = typeof error.message === 'string' ? error.message.match(/got status:\s*(\d{3})/) : null;
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Gemini reports the suggested wait as `"retryDelay": "34s"` inside the error body.
+ */
+function retryDelayOf(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Maps anything thrown by the Gemini SDK, the LLM providers or the validator onto
+ * the taxonomy. Callers check `isAbortError` first; cancellation is not a failure.
+ */
+export function toApexError(error: unknown): ApexError {
+    if (error instanceof ApexError) return error;
+
+    const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+    const status = statusOf(error);
+
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+        // Per-minute limits come with a retryDelay; daily and billing quotas don't reset soon enough to wait
+        if (/PerDay|per day/i.test(message) || (/billing|exceeded your current quota/i.test(message) && retryDelayOf(message) === undefined)) {
+            return new QuotaExhaustedError(message, { cause: error });
+        }
+        return new RateLimitedError('Too many requests to the model.', { retryAfterMs: retryDelayOf(message), service: 'gemini', cause: error });
+    }
+    if (status === 401 || status === 403 || /API key not valid|API Key Invalid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+        return new AuthError('The Gemini API key is missing or was rejected.', { service: 'gemini', cause: error });
+    }
+    if ((status !== undefined && status >= 500) || /overloaded|UNAVAILABLE|Service Unavailable/i.test(message)) {
+        return new ServiceUnavailableError('The model is temporarily unavailable.', { cause: error });
+    }
+    if (/SAFETY|blockReason|PROHIBITED_CONTENT/.test(message)) {
+        return new SafetyBlockedError(message, { cause: error });
+    }
+    if (/AI Malformed Response/.test(message) || error instanceof SyntaxError) {
+        return new MalformedResponseError(message.replace(/^AI Malformed Response:?\s*/, '') || 'The model returned an empty response.', { cause: error });
+    }
+    if (/Failed to fetch|fetch failed|NetworkError|ECONNRESET|ETIMEDOUT|ENOTFOUND|network/i.test(message)) {
+        return new NetworkError('Could not reach the service.', { cause: error });
+    }
+    return new ApexError(message, { cause: error });
+}
+
+/**
+ * Maps twitter-api-v2 errors (`code` is the HTTP status, `data` the v2 problem body).
+ */
+export function toXApiError(error: unknown): ApexError {
+    if (error instanceof ApexError) return error;
+
+    if (isRecord(error) && 'data' in error && typeof error.code === 'number') {
+        const status = error.code;
+        const data = isRecord(error.data) ? error.data : {};
+        const firstError = Array.isArray(data.errors) && isRecord(data.errors[0]) ? data.errors[0] : {};
+        const title = stringOf(data.title);
+        const detail = stringOf(data.detail) ?? stringOf(firstError.message) ?? 'No details provided.';
+        if (status === 401) {
+            return new AuthError('X rejected the credentials: they are invalid or have been revoked.', { service: 'x', cause: error });
+        }
+        if (status === 429) {
+            const reset = isRecord(error.rateLimit) ? error.rateLimit.reset : undefined;
+            const retryAfterMs = typeof reset === 'number' ? Math.max(0, reset * 1000 - Date.now()) : undefined;
+            return new RateLimitedError(`X API limit reached: ${title ?? detail}`, { retryAfterMs, service: 'x', cause: error });
+        }
+        return new XApiError(status, detail, { title, cause: error });
+    }
+    return toApexError(error);
+}
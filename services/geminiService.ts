@@ -1,6 +1,30 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { type GeminiResponse, type PostAnalysis, type ReplyStrategy, type DocumentAnalysis } from '../types';
+import { Type, type Schema } from "@google/genai";
+import { type GeminiResponse, type PostAnalysis, type ReplyStrategy, type DocumentAnalysis, type DocumentAnalysisProgress, type DocumentChunkProgress, type DocumentQAMessage, type DocumentTemplate, type DocumentThread, type ThreadPost, type Scores, type SanctumCheck, type ConversationContext, type MediaAttachment, type StrategyDefinition, type VoiceProfile } from '../types';
+import { getLLMProvider, type LLMRequest, type LLMResponse } from './llm-provider';
+import { getWeightedLength, TWITTER_TEXT_CONFIG } from './tweet-text';
+import { MAX_THREAD_POSTS, bodyBudget, formatThreadPost, rebalanceThread, reflowFrom, stripNumbering, toThreadPosts } from './thread-composer';
+import { TieredResponseCache, type CacheEntrySummary, type CacheStats } from './response-cache';
+import { hashString } from './hash';
+import { formatConversationContext, inferPostType, isEmptyContext } from './conversation-context';
+import { MAX_ATTACHMENTS, resolveMediaParts } from './media';
+import { formatVoiceInstructions, scoreVoiceAdherence } from './voice-profiles';
+import { FALLBACK_STRATEGY, MAX_SELECTED_STRATEGIES, findStrategy, formatStrategyInstructions, getEnabledStrategies, loadStrategyCatalog } from './strategy-catalog';
+import { detectLanguage, formatLanguageInstructions, languageName, localizedSanctumFlags, replyLanguageFor } from './language';
+import { InFlightRequests, abortableDelay, isAbortError, throwIfAborted } from './abort';
+import { toApexError, ApexError, MalformedResponseError, RateLimitedError, ServiceUnavailableError } from './errors';
+import { chunkDocument, type DocumentChunk } from './document-chunker';
+import { mergeChunkExtractions, mergeTemplateFields, type ChunkExtraction, type MergedExtraction } from './document-merge';
+import { compileTemplateSchema, formatTemplateInstructions } from './document-templates';
+import { documentReferenceDate, parseDateRange } from './date-range';
+import { resolveCitations } from './citations';
+import { selectContext, verifyQuotes, formatHistory, createMessageId, NOT_IN_DOCUMENT_ANSWER } from './document-qa';
+import { telemetry, type TelemetrySnapshot } from './telemetry';
+import { metricsRegistry } from './metrics-registry';
+import { RequestScheduler, type RequestPriority, type SchedulerStatus } from './request-scheduler';
+import { validateAgainstSchema, parseModelJson, buildRepairPrompt, errorsOf, warningsOf, groupIssuesByIndex, type ValidationIssue } from './schema-validator';
+
+const DEFAULT_MODEL = 'gemini-2.5-pro';
 
 /**
  * Encodes a string to Base64, safely handling UTF-8 characters.
@@ -9,230 +33,233 @@ function utf8ToBase64(str: string): string {
     return btoa(unescape(encodeURIComponent(str)));
 }
 
-/**
- * Strictly simulates the Twitter-Text library weighted character count.
- * Source: https://github.com/twitter/twitter-text/blob/master/java/src/com/twitter/text/Validator.java
- * 
- * Logic:
- * 1. URLs are always 23 weighted characters.
- * 2. CJK, Emoji, and specific ranges are 2 weighted characters.
- * 3. Everything else is 1 weighted character.
- */
-function getWeightedLength(text: string): number {
-    if (!text) return 0;
-
-    let weightedLength = 0;
-    const urlRegex = /https?:\/\/[^\s]+/g;
-    
-    // Split text by URLs to handle them separately
-    const parts = text.split(urlRegex);
-    const urls = text.match(urlRegex) || [];
-    
-    // Add weight for URLs (always 23)
-    weightedLength += urls.length * 23;
-
-    // Calculate weight for non-URL parts
-    const nonUrlText = parts.join('');
-    
-    for (let i = 0; i < nonUrlText.length; i++) {
-        const code = nonUrlText.charCodeAt(i);
-        
-        // Check for ranges that count as 2 weighted characters
-        // Based on twitter-text spec
-        if (
-            (code >= 0x1100 && code <= 0x115F) ||   // Hangul Jamo
-            (code >= 0x2329 && code <= 0x232A) ||   // CJK Brackets
-            (code >= 0x2E80 && code <= 0x303E) ||   // CJK Radicals & Punctuation
-            (code >= 0x3040 && code <= 0xA4CF) ||   // CJK Scripts (Hiragana, Katakana, Bopomofo, Hangul, etc)
-            (code >= 0xAC00 && code <= 0xD7A3) ||   // Hangul Syllables
-            (code >= 0xF900 && code <= 0xFAFF) ||   // CJK Compatibility Ideographs
-            (code >= 0xFE10 && code <= 0xFE19) ||   // Vertical forms
-            (code >= 0xFE30 && code <= 0xFE6F) ||   // CJK Compatibility Forms
-            (code >= 0xFF00 && code <= 0xFF60) ||   // Fullwidth Forms
-            (code >= 0xFFE0 && code <= 0xFFE6) ||   // Fullwidth Signs
-            (code >= 0x20000 && code <= 0x2FA1F)    // CJK Unified Ideographs Extensions (Surrogates covered by logic)
-        ) {
-             weightedLength += 2;
-        } 
-        // Surrogate pairs (Emoji usually fall here)
-        // JS strings are UTF-16. High surrogate: 0xD800-0xDBFF
-        else if (code >= 0xD800 && code <= 0xDBFF) {
-            // It's a surrogate pair, counts as 2 weighted chars total. 
-            // However, in loop, we hit high then low. 
-            // Twitter counts the whole emoji as 2.
-            // JS length is 2. We add 1 per char in pair? No, standard is 1.
-            // Actually, twitter-text counts code points.
-            // A surrogate pair is 1 code point.
-            // 1 Emoji Code Point = 2 weighted length.
-            // In JS loop, we see 2 units. 
-            // Simplification: Treat surrogates as 1 each = 2 total per emoji.
-            weightedLength += 1; 
-        }
-        else {
-            weightedLength += 1;
-        }
-    }
-    
-    return weightedLength;
-}
+const cache = new TieredResponseCache();
+const scheduler = new RequestScheduler();
+const inFlight = new InFlightRequests();
 
-// Enhanced caching system
-class ResponseCache {
-    private cache = new Map<string, { data: any; timestamp: number; expires: number }>();
-    private readonly TTL = 30 * 60 * 1000; // 30 minutes
+metricsRegistry.register('gemini', metrics => {
+    metrics.gauge('apex_llm_provider', { provider: getLLMProvider().name }, 1);
 
-    set(key: string, data: any, customTTL?: number): void {
-        const expires = Date.now() + (customTTL || this.TTL);
-        this.cache.set(key, { data, timestamp: Date.now(), expires });
+    const stats = cache.getStats();
+    for (const [namespace, counts] of Object.entries(stats.namespaces)) {
+        metrics.counter('apex_cache_lookups', { namespace, result: 'hit' }, counts.hits);
+        metrics.counter('apex_cache_lookups', { namespace, result: 'miss' }, counts.misses);
     }
-
-    get(key: string): any | null {
-        const item = this.cache.get(key);
-        if (!item) return null;
-        if (Date.now() > item.expires) {
-            this.cache.delete(key);
-            return null;
-        }
-        return item.data;
+    metrics.counter('apex_cache_hits', { tier: 'memory' }, stats.memoryHits);
+    metrics.counter('apex_cache_hits', { tier: 'persistent' }, stats.persistentHits);
+    metrics.counter('apex_cache_removals', { reason: 'evicted' }, stats.evictions);
+    metrics.counter('apex_cache_removals', { reason: 'expired' }, stats.expirations);
+    metrics.gauge('apex_cache_entries', { tier: 'memory' }, stats.size);
+    metrics.gauge('apex_cache_capacity_entries', { tier: 'memory' }, stats.maxMemoryEntries);
+    if (stats.persistentAvailable) {
+        metrics.gauge('apex_cache_entries', { tier: 'persistent' }, stats.persistentSize);
+        metrics.gauge('apex_cache_capacity_entries', { tier: 'persistent' }, stats.maxPersistentEntries);
     }
 
-    clear(): void {
-        this.cache.clear();
+    const status = scheduler.getStatus();
+    metrics.gauge('apex_scheduler_running', {}, status.running);
+    metrics.gauge('apex_scheduler_max_concurrent', {}, status.maxConcurrent);
+    for (const [lane, { queued }] of Object.entries(status.lanes)) {
+        metrics.gauge('apex_scheduler_queued', { lane }, queued);
     }
-
-    getStats(): { size: number } {
-        return { size: this.cache.size };
+    for (const [model, { used, remaining, limit }] of Object.entries(status.models)) {
+        metrics.gauge('apex_rate_limit_used', { model }, used);
+        metrics.gauge('apex_rate_limit_remaining', { model }, remaining);
+        metrics.gauge('apex_rate_limit_limit', { model }, limit);
     }
-}
-
-// Performance monitoring - Rezolus Architecture
-class RezolusTelemetry {
-    private metrics: Array<{ operation: string; duration: number; timestamp: number; success: boolean; error?: string; }> = [];
-
-    startTimer(operation: string): () => void {
-        const start = Date.now();
-        return () => {
-            const duration = Date.now() - start;
-            this.recordMetric(operation, duration, true);
-        };
-    }
-
-    recordError(operation: string, error: string, duration?: number): void {
-        this.recordMetric(operation, duration || 0, false, error);
-    }
-
-    private recordMetric(operation: string, duration: number, success: boolean, error?: string): void {
-        this.metrics.push({
-            operation,
-            duration,
-            timestamp: Date.now(),
-            success,
-            error
-        });
-
-        // Rezolus usually samples, we'll keep a rolling window
-        if (this.metrics.length > 1000) {
-            this.metrics.shift();
-        }
-    }
-
-    getMetrics(): any {
-        const now = Date.now();
-        const recentMetrics = this.metrics.filter(m => now - m.timestamp < 3600000); // Last hour
-        if(recentMetrics.length === 0) return { totalOperations: 0, successRate: 1, p99Latency: 0, errorRate: 0 };
-        
-        const successfulOps = recentMetrics.filter(m => m.success);
-        const durations = successfulOps.map(m => m.duration).sort((a, b) => a - b);
-        const p99Index = Math.floor(durations.length * 0.99);
-        const p99Latency = durations.length > 0 ? durations[p99Index] : 0;
-
-        return {
-            totalOperations: recentMetrics.length,
-            successRate: successfulOps.length / recentMetrics.length,
-            p99Latency: p99Latency,
-            errorRate: recentMetrics.filter(m => !m.success).length / recentMetrics.length
-        };
-    }
-}
-
-// Enhanced rate limiter
-class RateLimiter {
-    private requests: number[] = [];
-    private readonly windowMs: number;
-    private readonly maxRequests: number;
-
-    constructor(maxRequests: number = 60, windowMs: number = 60000) {
-        this.maxRequests = maxRequests;
-        this.windowMs = windowMs;
-    }
-
-    async checkLimit(): Promise<boolean> {
-        const now = Date.now();
-        this.requests = this.requests.filter(timestamp => now - timestamp < this.windowMs);
-        return this.requests.length < this.maxRequests;
-    }
-
-    recordRequest(): void {
-        this.requests.push(Date.now());
-    }
-
-    getStatus(): { remaining: number; resetTime: number } {
-        const now = Date.now();
-        this.requests = this.requests.filter(timestamp => now - timestamp < this.windowMs);
-        
-        const remaining = Math.max(0, this.maxRequests - this.requests.length);
-        const oldestRequest = this.requests[0];
-        const resetTime = oldestRequest ? oldestRequest + this.windowMs : now;
-        
-        return { remaining, resetTime };
-    }
-}
-
-const cache = new ResponseCache();
-const rezolus = new RezolusTelemetry();
-const rateLimiter = new RateLimiter();
+});
 
 function analyzeError(error: unknown): Error {
+    if (isAbortError(error)) return error as Error;
     console.error("Gemini Service Error:", error);
-    if (error instanceof Error) return error;
-    return new Error("Unknown Error: An unexpected error occurred.");
+    return toApexError(error);
 }
 
+// Longest server-suggested wait we honour inside a single call before giving up
+const MAX_RETRY_AFTER_MS = 60000;
+
 async function generateContentWithRetry(
-    aiInstance: GoogleGenAI,
-    params: Parameters<typeof aiInstance.models.generateContent>[0],
-    maxRetries: number = 3
-): Promise<ReturnType<typeof aiInstance.models.generateContent>> {
-    const endTimer = rezolus.startTimer('generate_content');
+    request: LLMRequest,
+    options: { signal?: AbortSignal; priority?: RequestPriority; maxRetries?: number } = {}
+): Promise<LLMResponse> {
+    const { signal, priority = 'interactive', maxRetries = 3 } = options;
+    const provider = getLLMProvider();
+    const timer = telemetry.startTimer('generate_content');
     try {
         for (let attempt = 0; attempt <= maxRetries; attempt++) {
-            if (!(await rateLimiter.checkLimit())) throw new Error("Rate Limit Exceeded");
+            throwIfAborted(signal);
             try {
-                rateLimiter.recordRequest();
-                const response = await aiInstance.models.generateContent(params);
-                endTimer();
+                // Every attempt, retries included, waits its turn in the scheduler
+                const response = await scheduler.schedule(
+                    () => provider.generateContent(request, signal),
+                    { model: request.model, priority, signal }
+                );
+                timer.succeed();
                 return response;
             } catch (error) {
-                if (attempt === maxRetries) throw error;
-                await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
+                if (isAbortError(error)) throw error;
+                const apexError = toApexError(error);
+                if (!apexError.retryable || attempt === maxRetries) throw apexError;
+                const retryAfterMs = apexError instanceof RateLimitedError ? apexError.retryAfterMs : undefined;
+                if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) throw apexError;
+                await abortableDelay(retryAfterMs ?? 1000 * Math.pow(2, attempt), signal);
             }
         }
-        throw new Error("Service Unavailable");
+        throw new ServiceUnavailableError("Retries exhausted.");
     } catch (error) {
-        rezolus.recordError('generate_content', String(error));
+        if (!isAbortError(error)) timer.fail(toApexError(error).code);
         throw error;
     }
 }
 
+/**
+ * Requests JSON from the model and validates it against `schema`. If the response
+ * has unrecoverable errors, a single targeted repair re-prompt is issued for the
+ * broken fields. Residual errors are returned for the caller to decide on.
+ */
+async function generateValidatedJson<T>(
+    request: LLMRequest & { responseSchema: Schema },
+    options: { signal?: AbortSignal; priority?: RequestPriority } = {}
+): Promise<{ value: T; warnings: ValidationIssue[]; errors: ValidationIssue[] }> {
+    const validate = (text: string) => {
+        const parsed = parseModelJson(text);
+        if (parsed === undefined) {
+            return { value: undefined as T, issues: [{ path: '', message: 'Response is not valid JSON', severity: 'error' } as ValidationIssue] };
+        }
+        return validateAgainstSchema<T>(parsed, request.responseSchema);
+    };
+
+    const response = await generateContentWithRetry(request, options);
+    let result = validate(response.text);
+
+    if (errorsOf(result.issues).length > 0) {
+        console.warn("Schema validation failed, issuing repair prompt:", errorsOf(result.issues));
+        const repaired = await generateContentWithRetry({
+            ...request,
+            parts: [{ text: buildRepairPrompt(response.text, errorsOf(result.issues)) }],
+            temperature: 0,
+        }, options);
+        const repairedResult = validate(repaired.text);
+        if (errorsOf(repairedResult.issues).length < errorsOf(result.issues).length) {
+            result = repairedResult;
+        }
+    }
+
+    return { value: result.value, warnings: warningsOf(result.issues), errors: errorsOf(result.issues) };
+}
+
+/** The error for validation errors that survived the repair pass. */
+function schemaError(errors: ValidationIssue[]): MalformedResponseError {
+    return new MalformedResponseError(errors.map(e => `${e.path || 'response'} - ${e.message}`).join('; '));
+}
+
+// Shared numeric ranges used by the schemas below (and enforced by the validator)
+const SCORE = { type: Type.NUMBER, minimum: 0, maximum: 100 };
+const PROBABILITY = { type: Type.NUMBER, minimum: 0, maximum: 1 };
+
+// Shared by reply strategies and thread posts
+const scoresSchema: Schema = {
+  type: Type.OBJECT,
+  required: ['algorithmScore'],
+  properties: {
+    authority: SCORE,
+    hook: SCORE,
+    wealthFit: SCORE,
+    viralPotential: SCORE,
+    emotionalImpact: SCORE,
+    intellectualDepth: SCORE,
+    algorithmScore: SCORE,
+    authenticity: SCORE,
+    memorability: SCORE,
+    networkEffect: SCORE,
+    timingOptimal: SCORE,
+    graphJetRelevance: SCORE,
+  },
+};
+
+const sanctumSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isSafe: { type: Type.BOOLEAN },
+    toxicityScore: SCORE,
+    qualityTier: { type: Type.STRING, enum: ['S', 'A', 'B', 'C', 'F'] },
+    flags: { type: Type.ARRAY, items: { type: Type.STRING } }
+  }
+};
+
+// One reply strategy; also the whole response when a single strategy is refined
+const strategySchema: Schema = {
+  type: Type.OBJECT,
+  required: ['strategy', 'replyText', 'scores'],
+  properties: {
+    strategy: { type: Type.STRING },
+    replyText: { type: Type.STRING },
+    charCount: { type: Type.NUMBER, minimum: 0 },
+    strategicAngle: { type: Type.STRING },
+    riskAssessment: { type: Type.STRING },
+    scores: scoresSchema,
+    gauntletResults: {
+      type: Type.OBJECT,
+      properties: {
+        novelty: { type: Type.BOOLEAN },
+        impact: { type: Type.BOOLEAN },
+        quality: { type: Type.BOOLEAN },
+        authorReply: { type: Type.BOOLEAN },
+        brandSafety: { type: Type.BOOLEAN },
+        contextualRelevance: { type: Type.BOOLEAN },
+        scalabilityPotential: { type: Type.BOOLEAN },
+        communityNotesSafe: { type: Type.BOOLEAN },
+        noteHelpfulnessPrediction: PROBABILITY,
+        sanctum: sanctumSchema
+      },
+    },
+    abVariants: {
+      type: Type.ARRAY,
+      minItems: '2',
+      maxItems: '2',
+      items: {
+          type: Type.OBJECT,
+          required: ['id', 'text'],
+          properties: {
+              id: { type: Type.STRING, enum: ['A', 'B'] },
+              text: { type: Type.STRING },
+              weightedLength: { type: Type.NUMBER, minimum: 0 },
+              predictedConversion: PROBABILITY,
+              rationale: { type: Type.STRING },
+              trafficAllocation: SCORE
+          }
+      }
+    },
+    scoreRationale: { type: Type.STRING },
+    reasoning: { type: Type.STRING },
+    confidence: SCORE,
+    authorReplyProbability: SCORE,
+    strategyCategory: { type: Type.STRING, enum: ['analytical', 'contrarian', 'supportive', 'challenging', 'educational'] },
+    optimalTiming: { type: Type.STRING },
+    fallbackVariations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    riskMitigation: { type: Type.STRING },
+    expectedOutcomes: {
+      type: Type.OBJECT,
+      properties: {
+        bestCase: { type: Type.STRING },
+        worstCase: { type: Type.STRING },
+        mostLikely: { type: Type.STRING },
+      },
+    },
+  },
+};
+
 // Define schema for structured output
-const responseSchema = {
+const responseSchema: Schema = {
   type: Type.OBJECT,
+  required: ['analysis', 'strategies'],
   properties: {
     analysis: {
       type: Type.OBJECT,
+      required: ['deconstruction'],
       properties: {
-        wordCount: { type: Type.NUMBER },
-        sophistication: { type: Type.STRING },
+        wordCount: { type: Type.NUMBER, minimum: 0 },
+        sophistication: { type: Type.STRING, enum: ['LOW', 'MEDIUM', 'HIGH', 'EXPERT'] },
         tone: { type: Type.STRING },
         deconstruction: {
           type: Type.OBJECT,
@@ -242,28 +269,28 @@ const responseSchema = {
             targetAudienceProfile: { type: Type.STRING },
             psychologicalHooks: { type: Type.ARRAY, items: { type: Type.STRING } },
             strategicOpenings: { type: Type.ARRAY, items: { type: Type.STRING } },
-            emotionalTone: { type: Type.STRING },
-            urgencyLevel: { type: Type.STRING },
-            controversyRisk: { type: Type.STRING },
-            authorPersonality: { type: Type.STRING },
-            temporalRelevance: { type: Type.STRING },
-            graphInfluence: { type: Type.STRING },
+            emotionalTone: { type: Type.STRING, enum: ['positive', 'negative', 'neutral', 'mixed'] },
+            urgencyLevel: { type: Type.STRING, enum: ['low', 'medium', 'high', 'critical'] },
+            controversyRisk: { type: Type.STRING, enum: ['minimal', 'low', 'moderate', 'high'] },
+            authorPersonality: { type: Type.STRING, enum: ['thought-leader', 'entrepreneur', 'academic', 'influencer', 'analyst'] },
+            temporalRelevance: { type: Type.STRING, enum: ['evergreen', 'trending', 'breaking', 'seasonal'] },
+            graphInfluence: { type: Type.STRING, enum: ['central', 'peripheral', 'bridge'] },
             graphJetContext: {
                 type: Type.OBJECT,
                 properties: {
                     cluster: { type: Type.STRING },
-                    centrality: { type: Type.NUMBER },
-                    interactionVelocity: { type: Type.STRING }
+                    centrality: SCORE,
+                    interactionVelocity: { type: Type.STRING, enum: ['static', 'rising', 'viral'] }
                 }
             },
             heavyRankerFeatures: {
                 type: Type.OBJECT,
                 properties: {
-                    pReply: { type: Type.NUMBER },
-                    pLike: { type: Type.NUMBER },
-                    pRetweet: { type: Type.NUMBER },
-                    pProfileClick: { type: Type.NUMBER },
-                    authorReputation: { type: Type.NUMBER }
+                    pReply: PROBABILITY,
+                    pLike: PROBABILITY,
+                    pRetweet: PROBABILITY,
+                    pProfileClick: PROBABILITY,
+                    authorReputation: SCORE
                 }
             }
           },
@@ -272,109 +299,119 @@ const responseSchema = {
     },
     strategies: {
       type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          strategy: { type: Type.STRING },
-          replyText: { type: Type.STRING },
-          charCount: { type: Type.NUMBER },
-          strategicAngle: { type: Type.STRING },
-          riskAssessment: { type: Type.STRING },
-          scores: {
-            type: Type.OBJECT,
-            properties: {
-              authority: { type: Type.NUMBER },
-              hook: { type: Type.NUMBER },
-              wealthFit: { type: Type.NUMBER },
-              viralPotential: { type: Type.NUMBER },
-              emotionalImpact: { type: Type.NUMBER },
-              intellectualDepth: { type: Type.NUMBER },
-              algorithmScore: { type: Type.NUMBER },
-              authenticity: { type: Type.NUMBER },
-              memorability: { type: Type.NUMBER },
-              networkEffect: { type: Type.NUMBER },
-              timingOptimal: { type: Type.NUMBER },
-              graphJetRelevance: { type: Type.NUMBER },
-            },
-          },
-          gauntletResults: {
-            type: Type.OBJECT,
-            properties: {
-              novelty: { type: Type.BOOLEAN },
-              impact: { type: Type.BOOLEAN },
-              quality: { type: Type.BOOLEAN },
-              authorReply: { type: Type.BOOLEAN },
-              brandSafety: { type: Type.BOOLEAN },
-              contextualRelevance: { type: Type.BOOLEAN },
-              scalabilityPotential: { type: Type.BOOLEAN },
-              communityNotesSafe: { type: Type.BOOLEAN },
-              noteHelpfulnessPrediction: { type: Type.NUMBER },
-              sanctum: {
-                  type: Type.OBJECT,
-                  properties: {
-                      isSafe: { type: Type.BOOLEAN },
-                      toxicityScore: { type: Type.NUMBER },
-                      qualityTier: { type: Type.STRING },
-                      flags: { type: Type.ARRAY, items: { type: Type.STRING } }
-                  }
-              }
-            },
-          },
-          abVariants: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    id: { type: Type.STRING },
-                    text: { type: Type.STRING },
-                    weightedLength: { type: Type.NUMBER },
-                    predictedConversion: { type: Type.NUMBER },
-                    rationale: { type: Type.STRING },
-                    trafficAllocation: { type: Type.NUMBER }
-                }
-            }
-          },
-          scoreRationale: { type: Type.STRING },
-          reasoning: { type: Type.STRING },
-          confidence: { type: Type.NUMBER },
-          authorReplyProbability: { type: Type.NUMBER },
-          strategyCategory: { type: Type.STRING },
-          optimalTiming: { type: Type.STRING },
-          fallbackVariations: { type: Type.ARRAY, items: { type: Type.STRING } },
-          riskMitigation: { type: Type.STRING },
-          expectedOutcomes: {
-            type: Type.OBJECT,
-            properties: {
-              bestCase: { type: Type.STRING },
-              worstCase: { type: Type.STRING },
-              mostLikely: { type: Type.STRING },
-            },
-          },
-        },
+      items: strategySchema,
+    },
+  },
+};
+
+// Same contract, but the analysis must also say what the attached images show
+const mediaResponseSchema: Schema = {
+  ...responseSchema,
+  properties: {
+    ...responseSchema.properties,
+    analysis: {
+      ...responseSchema.properties!.analysis,
+      required: [...(responseSchema.properties!.analysis.required ?? []), 'mediaDescription'],
+      properties: {
+        ...responseSchema.properties!.analysis.properties,
+        mediaDescription: { type: Type.STRING },
       },
     },
   },
 };
 
+function formatMediaInstructions(count: number): string {
+    return `ATTACHED MEDIA: ${count} image(s) from the post are attached after this prompt.
+Treat them as part of the post: read any chart values, screenshot text or memes and factor them into the deconstruction and every reply.
+Summarize what the images show in 'analysis.mediaDescription' (1-3 sentences, concrete numbers and names where visible).`;
+}
+
+/**
+ * Narrows the response schema to the selected catalog entries: at most one reply
+ * per strategy, each tagged with a known id.
+ */
+function withStrategyCatalog(schema: Schema, strategies: StrategyDefinition[]): Schema {
+    return {
+        ...schema,
+        properties: {
+            ...schema.properties,
+            strategies: {
+                type: Type.ARRAY,
+                maxItems: String(strategies.length),
+                items: {
+                    ...strategySchema,
+                    properties: { ...strategySchema.properties, strategy: { type: Type.STRING, enum: strategies.map(s => s.id) } },
+                },
+            },
+        },
+    };
+}
+
+/**
+ * Local post-processing shared by generated and refined strategies: weighted
+ * lengths, the localized Sanctum pass and voice adherence.
+ */
+function finalizeStrategy(s: ReplyStrategy, options: { replyLanguage: string; voiceProfile?: VoiceProfile; warnings?: ValidationIssue[] }): ReplyStrategy {
+    const { replyLanguage, voiceProfile, warnings } = options;
+    // Localized Sanctum pass: the model's own flags miss wrong-language and non-English slop
+    const sanctum = s.gauntletResults?.sanctum;
+    const modelFlags = sanctum?.flags ?? [];
+    const languageFlags = localizedSanctumFlags(s.replyText, replyLanguage).filter(flag => !modelFlags.includes(flag));
+    return {
+        ...s,
+        weightedLength: getWeightedLength(s.replyText),
+        gauntletResults: sanctum && languageFlags.length > 0
+            ? { ...s.gauntletResults, sanctum: { ...sanctum, flags: [...modelFlags, ...languageFlags] } }
+            : s.gauntletResults,
+        abVariants: s.abVariants?.map(v => ({
+            ...v,
+            weightedLength: getWeightedLength(v.text),
+            voiceAdherence: voiceProfile ? scoreVoiceAdherence(v.text, voiceProfile) : undefined,
+        })) as ReplyStrategy['abVariants'],
+        validationWarnings: warnings?.map(({ path, message }) => ({ path, message })),
+        voiceAdherence: voiceProfile ? scoreVoiceAdherence(s.replyText, voiceProfile) : undefined,
+    };
+}
+
 export async function generateReplies(
     postText: string,
     authorHandle: string,
-    options: { useCache?: boolean; temperature?: number; } = {}
+    options: { useCache?: boolean; temperature?: number; signal?: AbortSignal; priority?: RequestPriority; context?: ConversationContext; media?: MediaAttachment[]; voiceProfile?: VoiceProfile; targetLanguage?: string; strategies?: StrategyDefinition[]; } = {}
 ): Promise<{ analysis: PostAnalysis, strategies: ReplyStrategy[] }> {
-    const { useCache = true, temperature = 0.7 } = options;
-    const cacheKey = `replies:${utf8ToBase64(`${postText}:${authorHandle}:${temperature}:v7.4`)}`;
+    const { useCache = true, temperature = 0.7, signal, priority = 'interactive' } = options;
+    const context = isEmptyContext(options.context) ? undefined : options.context;
+    const media = (options.media ?? []).slice(0, MAX_ATTACHMENTS);
+    const contextKey = context ? `:${hashString(JSON.stringify(context))}` : '';
+    const mediaKey = media.length > 0 ? `:m${hashString(media.map(m => m.data ?? m.url ?? '').join('|'))}` : '';
+    // Built-in profiles describe the prompt's own default voice, so they don't change the prompt
+    const voiceProfile = options.voiceProfile;
+    const customVoice = voiceProfile && !voiceProfile.builtIn ? voiceProfile : undefined;
+    const voiceKey = voiceProfile ? `:v${hashString(JSON.stringify(voiceProfile))}` : '';
+    // 'auto' replies in the post's language; English stays the fallback when detection is unsure
+    const detectedLanguage = detectLanguage(postText);
+    const replyLanguage = options.targetLanguage && options.targetLanguage !== 'auto'
+        ? options.targetLanguage
+        : replyLanguageFor(detectedLanguage);
+    const languageKey = replyLanguage !== 'en' ? `:l${replyLanguage}` : '';
+    // Without a selection, the enabled strategies of the stored catalog are used
+    const selected = (options.strategies ?? getEnabledStrategies()).slice(0, MAX_SELECTED_STRATEGIES);
+    if (selected.length === 0) {
+        throw new ApexError('No reply strategies are enabled.', {
+            title: 'No Strategies Enabled',
+            remediation: 'Choose at least one strategy under Strategies and try again.',
+        });
+    }
+    const strategyKey = `:s${hashString(JSON.stringify(selected.map(s => [s.id, s.category, s.guidance])))}`;
+    const cacheKey = `replies:${utf8ToBase64(`${postText}:${authorHandle}:${temperature}:v7.4`)}${contextKey}${mediaKey}${voiceKey}${languageKey}${strategyKey}`;
 
     if (useCache) {
-        const cached = cache.get(cacheKey);
+        const cached = await cache.get<{ analysis: PostAnalysis, strategies: ReplyStrategy[] }>(cacheKey);
         if (cached) return cached;
     }
 
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key Invalid");
-
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const prompt = `You are the APEX X ULTIMATE SYSTEM v7.4 (SANCTUM PROTOCOL EDITION).
+    return inFlight.run(cacheKey, async sharedSignal => {
+        const mediaParts = await resolveMediaParts(media, sharedSignal);
+        const prompt = `You are the APEX X ULTIMATE SYSTEM v7.4 (SANCTUM PROTOCOL EDITION).
 Your goal is to reverse-engineer the Twitter (X) open-source algorithm to maximize engagement probability while strictly adhering to high-quality standards.
 
 REFERENCE REPOSITORIES (SIMULATION):
@@ -388,16 +425,18 @@ REFERENCE REPOSITORIES (SIMULATION):
 You must act as a strict gatekeeper ("The Sanctum") for all generated replies.
 - **Zero Tolerance** for "cringe", "slop", generic AI-speak, or engagement bait (e.g., "Great post!", "So true!").
 - **Zero Tolerance** for toxic, hateful, or controversial negativity.
-- **High Status Tone**: Replies must sound like an expert, peer, or witty observer, not a bot or a fanboy.
+${customVoice ? `- **Voice**: Replies must follow the "${customVoice.name}" voice profile below exactly, never sounding like a bot.` : '- **High Status Tone**: Replies must sound like an expert, peer, or witty observer, not a bot or a fanboy.'}
 - **Value Add**: Replies must add new information, a counter-point, or a specific insight.
 
 POST TO ANALYZE:
 Author: ${authorHandle || 'Unknown'}
-Content: """${postText}"""
+Content: """${postText}"""${context ? `\n\n${formatConversationContext(context)}` : ''}${mediaParts.length > 0 ? `\n\n${formatMediaInstructions(mediaParts.length)}` : ''}${customVoice ? `\n\n${formatVoiceInstructions(customVoice)}` : ''}${replyLanguage !== 'en' ? `\n\n${formatLanguageInstructions({ code: replyLanguage, name: languageName(replyLanguage) }, detectedLanguage)}` : ''}
+
+${formatStrategyInstructions(selected)}
 
 EXECUTE PROTOCOL:
 1. **GraphJet Analysis**: Deconstruct the post's position in the graph.
-2. **Drafting**: Generate strategies.
+2. **Drafting**: Generate exactly the strategies listed above, one reply each.
 3. **Sanctum QC**: Run each draft through the Sanctum Protocol.
    - Calculate 'toxicityScore' (0-100).
    - Assign 'qualityTier' (S, A, B, C, F).
@@ -406,49 +445,132 @@ EXECUTE PROTOCOL:
 4. **Output**: Return JSON adhering to the schema.
 `;
 
-    try {
-        const response = await generateContentWithRetry(ai, {
-            model: 'gemini-2.5-pro',
-            contents: [{ parts: [{ text: prompt }] }],
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema,
+        try {
+            const { value: resultJson, warnings, errors } = await generateValidatedJson<GeminiResponse>({
+                model: DEFAULT_MODEL,
+                parts: [{ text: prompt }, ...mediaParts],
+                responseSchema: withStrategyCatalog(mediaParts.length > 0 ? mediaResponseSchema : responseSchema, selected),
                 temperature,
+            }, { signal: sharedSignal, priority });
+
+            // Errors inside a single strategy drop that strategy; anything else is fatal
+            const strategyErrors = groupIssuesByIndex(errors, 'strategies');
+            if (strategyErrors.rest.length > 0) {
+                throw schemaError(strategyErrors.rest);
             }
-        });
+            const strategyWarnings = groupIssuesByIndex(warnings, 'strategies');
+
+            // Post-processing for Quality Control (QA)
+            const strategiesWithQC = resultJson.strategies
+                .map((s, index) => ({ s, index }))
+                .filter(({ index }) => {
+                    if (!strategyErrors.byIndex.has(index)) return true;
+                    console.warn(`Dropping strategy ${index} after failed repair:`, strategyErrors.byIndex.get(index));
+                    return false;
+                })
+                // The catalog, not the model, decides each strategy's category; repeats are dropped
+                .filter(({ s }, i, all) => all.findIndex(other => other.s.strategy === s.strategy) === i)
+                .map(({ s, index }) => finalizeStrategy(
+                    { ...s, strategyCategory: findStrategy(selected, s.strategy).category },
+                    { replyLanguage, voiceProfile, warnings: strategyWarnings.byIndex.get(index) }
+                ));
 
-        const candidate = response.candidates?.[0];
-        if (!candidate || !candidate.content.parts[0].text) throw new Error("AI Malformed Response");
-
-        const resultJson: GeminiResponse = JSON.parse(candidate.content.parts[0].text);
-        
-        // Post-processing for Quality Control (QA)
-        const strategiesWithQC = resultJson.strategies.map(s => {
-            const weightedLen = getWeightedLength(s.replyText);
-            return {
-                ...s,
-                weightedLength: weightedLen,
-                abVariants: s.abVariants?.map(v => ({
-                    ...v,
-                    weightedLength: getWeightedLength(v.text)
-                })) as [any, any]
+            if (strategiesWithQC.length === 0) {
+                throw new MalformedResponseError("No strategy passed schema validation.");
+            }
+            const missing = selected
+                .filter(definition => !strategiesWithQC.some(s => s.strategy === definition.id))
+                .map(definition => ({ path: 'strategies', message: `No reply was returned for "${definition.name}".` }));
+
+            const finalResult = {
+                analysis: {
+                    ...resultJson.analysis,
+                    originalPostText: postText,
+                    originalAuthorHandle: authorHandle,
+                    postType: inferPostType(authorHandle, context, mediaParts.length > 0),
+                    conversationContext: context,
+                    mediaCount: mediaParts.length > 0 ? mediaParts.length : undefined,
+                    detectedLanguage,
+                    replyLanguage,
+                    validationWarnings: [...strategyWarnings.rest.map(({ path, message }) => ({ path, message })), ...missing],
+                },
+                strategies: strategiesWithQC,
             };
-        });
 
-        const finalResult = {
-            analysis: { ...resultJson.analysis, originalPostText: postText, originalAuthorHandle: authorHandle },
-            strategies: strategiesWithQC,
-        };
+            if (useCache) {
+                await cache.set(cacheKey, finalResult, { label: `${authorHandle || 'Unknown'}: ${postText.slice(0, 60)}` });
+            }
+            return finalResult;
+        } catch (error) {
+            throw analyzeError(error);
+        }
+    }, signal);
+}
+
+/**
+ * Rewrites one strategy (reply and A/B variants) from free-form feedback and
+ * re-scores it. The version it replaces moves into the strategy's history.
+ */
+export async function refineStrategy(
+    analysis: PostAnalysis,
+    strategy: ReplyStrategy,
+    feedback: string,
+    options: { temperature?: number; signal?: AbortSignal; priority?: RequestPriority; voiceProfile?: VoiceProfile; strategyCatalog?: StrategyDefinition[]; } = {}
+): Promise<ReplyStrategy> {
+    const { temperature = 0.5, signal, priority = 'interactive', voiceProfile, strategyCatalog = loadStrategyCatalog() } = options;
+    const customVoice = voiceProfile && !voiceProfile.builtIn ? voiceProfile : undefined;
+    const replyLanguage = analysis.replyLanguage ?? 'en';
+    const { history = [], ...current } = strategy;
+    const context = isEmptyContext(analysis.conversationContext) ? undefined : analysis.conversationContext;
+    // The category belongs to the catalog entry, not the model; a deleted entry keeps the one it had
+    const definition = findStrategy(strategyCatalog, current.strategy);
+    const strategyCategory = definition === FALLBACK_STRATEGY ? current.strategyCategory : definition.category;
+    const prompt = `You are the APEX X ULTIMATE SYSTEM v7.4 (SANCTUM PROTOCOL EDITION), revising one reply strategy.
+
+POST:
+Author: ${analysis.originalAuthorHandle || 'Unknown'}
+Content: """${analysis.originalPostText}"""${context ? `\n\n${formatConversationContext(context)}` : ''}${analysis.mediaDescription ? `\nAttached media shows: ${analysis.mediaDescription}` : ''}${customVoice ? `\n\n${formatVoiceInstructions(customVoice)}` : ''}${replyLanguage !== 'en' ? `\n\n${formatLanguageInstructions({ code: replyLanguage, name: languageName(replyLanguage) }, analysis.detectedLanguage)}` : ''}
+
+CURRENT STRATEGY "${current.strategy}" (${current.strategicAngle}):
+Reply: ${current.replyText}
+${current.abVariants?.map(v => `Variant ${v.id}: ${v.text}`).join('\n') ?? ''}
+
+USER FEEDBACK:
+"""${feedback}"""
+
+INSTRUCTIONS:
+1. Rewrite the reply and both A/B variants to address the feedback. Keep the strategy and angle unless the feedback asks otherwise.
+2. Change only what the feedback calls for; keep what already works.
+3. Run the new drafts through the Sanctum Protocol and score them from scratch; do not copy the old scores.
+4. Output: JSON for this one strategy, adhering to the schema.
+`;
 
-        if (useCache) cache.set(cacheKey, finalResult);
-        return finalResult;
+    try {
+        const { value, warnings, errors } = await generateValidatedJson<ReplyStrategy>({
+            model: DEFAULT_MODEL,
+            parts: [{ text: prompt }],
+            responseSchema: strategySchema,
+            temperature,
+        }, { signal, priority });
+        if (errors.length > 0) {
+            throw schemaError(errors);
+        }
+        return {
+            ...finalizeStrategy(
+                { ...value, strategy: current.strategy, strategyCategory },
+                { replyLanguage, voiceProfile, warnings }
+            ),
+            refinement: { feedback, refinedAt: new Date().toISOString() },
+            history: [...history, current],
+        };
     } catch (error) {
         throw analyzeError(error);
     }
 }
 
-const documentAnalysisSchema = {
+const documentAnalysisSchema: Schema = {
     type: Type.OBJECT,
+    required: ['title', 'summary', 'objectives', 'milestones', 'modelsAndApproaches', 'keyResources', 'submissionRequirements'],
     properties: {
         title: { type: Type.STRING },
         summary: { type: Type.STRING },
@@ -479,47 +601,480 @@ const documentAnalysisSchema = {
     }
 };
 
+const documentSummarySchema: Schema = {
+    type: Type.OBJECT,
+    required: ['title', 'summary'],
+    properties: {
+        title: { type: Type.STRING },
+        summary: { type: Type.STRING },
+    }
+};
+
+type DocumentRequestOptions = { useCache: boolean; temperature: number; signal: AbortSignal; priority: RequestPriority; template?: DocumentTemplate };
+
+// The competition brief template has no custom fields and keeps the original schema
+const isCustomTemplate = (template?: DocumentTemplate): template is DocumentTemplate => !!template && template.fields.length > 0;
+
+// Edits to a template's fields change its schema, so they invalidate cached results
+function templateCacheTag(template?: DocumentTemplate): string {
+    return isCustomTemplate(template) ? `:t${hashString(JSON.stringify(template.fields))}` : '';
+}
+
+/**
+ * Map step: extracts one chunk. Chunks are cached on their own so a retry after a
+ * partial failure only re-runs the chunks that failed.
+ */
+async function analyzeDocumentChunk(chunk: DocumentChunk, total: number, options: DocumentRequestOptions): Promise<DocumentAnalysis> {
+    const { useCache, temperature, signal, priority, template } = options;
+    const cacheKey = `documents:chunk:${hashString(chunk.text)}:${chunk.text.length}:${total > 1 ? 'part' : 'whole'}:${temperature}${templateCacheTag(template)}`;
+    if (useCache) {
+        const cached = await cache.get<DocumentAnalysis>(cacheKey);
+        if (cached) return cached;
+    }
+
+    const scope = total > 1
+        ? `This is section ${chunk.index + 1} of ${total}${chunk.heading ? ` ("${chunk.heading}")` : ''} of a longer document.
+        Extract only what this section states and leave fields it does not cover empty. Copy ${isCustomTemplate(template) ? '' : 'milestone '}dates exactly as written.`
+        : '';
+    const prompt = `
+        Analyze this document using standard extraction protocols.
+        ${isCustomTemplate(template) ? formatTemplateInstructions(template) : ''}
+        ${scope}
+        DOCUMENT: """${chunk.text}"""
+        OUTPUT: JSON conforming to schema.
+    `;
+
+    const { value: raw, warnings, errors } = await generateValidatedJson<DocumentAnalysis>({
+        model: DEFAULT_MODEL,
+        parts: [{ text: prompt }],
+        responseSchema: isCustomTemplate(template) ? compileTemplateSchema(template) : documentAnalysisSchema,
+        temperature,
+    }, { signal, priority });
+    if (errors.length > 0) {
+        throw schemaError(errors);
+    }
+    if (warnings.length > 0) console.warn(`Document chunk ${chunk.index + 1} coerced by validator:`, warnings);
+    // Custom templates only return title, summary and fields; the built-in lists stay empty
+    const value: DocumentAnalysis = isCustomTemplate(template)
+        ? { objectives: [], milestones: [], modelsAndApproaches: [], keyResources: [], submissionRequirements: [], ...raw }
+        : raw;
+    if (useCache) await cache.set(cacheKey, value, { label: `Chunk ${chunk.index + 1}/${total}: ${chunk.heading || value.title || chunk.text.slice(0, 40)}` });
+    return value;
+}
+
+/**
+ * Title and summary for the whole document, written from the per-chunk summaries.
+ */
+async function summarizeDocument(extractions: ChunkExtraction[], chunks: DocumentChunk[], merged: MergedExtraction, options: DocumentRequestOptions) {
+    const sections = extractions
+        .map(({ chunkIndex, analysis }) => `Section ${chunkIndex + 1}${chunks[chunkIndex].heading ? ` (${chunks[chunkIndex].heading})` : ''}: ${analysis.title} - ${analysis.summary}`)
+        .join('\n');
+    const prompt = `
+        These are summaries of consecutive sections of one document.
+        Write a title and an executive summary for the whole document.
+        SECTIONS:
+        ${sections}
+        OBJECTIVES: ${merged.objectives.join('; ')}
+        OUTPUT: JSON conforming to schema.
+    `;
+    const { value, errors } = await generateValidatedJson<Pick<DocumentAnalysis, 'title' | 'summary'>>({
+        model: DEFAULT_MODEL,
+        parts: [{ text: prompt }],
+        responseSchema: documentSummarySchema,
+        temperature: options.temperature,
+    }, { signal: options.signal, priority: options.priority });
+    if (errors.length > 0) {
+        throw schemaError(errors);
+    }
+    return value;
+}
+
+const DEFAULT_DOCUMENT_TEMPERATURE = 0.2;
+
+function documentCacheKey(documentText: string, temperature: number, template?: DocumentTemplate): string {
+    return `documents:${hashString(documentText)}:${documentText.length}:${temperature}:chunked${templateCacheTag(template)}`;
+}
+
+/**
+ * Normalizes milestone dates. Dates without a year are read against the
+ * document's own earliest dated milestone.
+ */
+function withDateRanges(milestones: DocumentAnalysis['milestones']): DocumentAnalysis['milestones'] {
+    const reference = documentReferenceDate(milestones.map(m => m.date));
+    return milestones.map(m => ({ ...m, dateRange: parseDateRange(m.date, reference) ?? undefined }));
+}
+
+/**
+ * Date fields of a custom template become milestones, so the timeline and
+ * calendar export work for any template.
+ */
+function templateMilestones(template: DocumentTemplate, fields: NonNullable<DocumentAnalysis['fields']>, fieldSources: Record<string, number[][]>) {
+    const milestones: DocumentAnalysis['milestones'] = [];
+    const sources: number[][] = [];
+    for (const field of template.fields.filter(f => f.type === 'date')) {
+        const value = fields[field.key];
+        const dates = (Array.isArray(value) ? value : [value]).filter((d): d is string => typeof d === 'string' && d.trim() !== '');
+        dates.forEach((date, i) => {
+            milestones.push({ date, event: dates.length > 1 ? `${field.label} ${i + 1}` : field.label, details: field.description });
+            sources.push(fieldSources[field.key]?.[field.list ? i : 0] ?? []);
+        });
+    }
+    return { milestones: withDateRanges(milestones), sources };
+}
+
+/**
+ * Map-reduce document analysis. The document is split along its sections, each
+ * chunk is extracted separately, and the results are merged locally with a
+ * reference back to their source chunks. A chunk that fails is reported in
+ * `reconciliationNotes` as long as at least one chunk succeeded. A custom
+ * `template` replaces the built-in lists with its own fields.
+ */
 export async function analyzeDocument(
     documentText: string,
-    options: { temperature?: number; } = {}
+    options: { useCache?: boolean; temperature?: number; signal?: AbortSignal; priority?: RequestPriority; template?: DocumentTemplate; onProgress?: (progress: DocumentAnalysisProgress) => void; } = {}
 ): Promise<DocumentAnalysis> {
-    const { temperature = 0.2 } = options;
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key Invalid");
-    const ai = new GoogleGenAI({ apiKey });
-    
+    const { useCache = true, temperature = DEFAULT_DOCUMENT_TEMPERATURE, signal, priority = 'interactive', template, onProgress } = options;
+    const cacheKey = documentCacheKey(documentText, temperature, template);
+
+    if (useCache) {
+        const cached = await cache.get<DocumentAnalysis>(cacheKey);
+        if (cached) return cached;
+    }
+
+    const chunks = chunkDocument(documentText);
+    const progress: DocumentAnalysisProgress = {
+        phase: 'map',
+        chunks: chunks.map(({ text: _text, ...info }) => ({ ...info, status: 'pending' })),
+    };
+    const report = (update?: { index: number; status: DocumentChunkProgress['status'] }) => {
+        if (update) progress.chunks[update.index] = { ...progress.chunks[update.index], status: update.status };
+        onProgress?.({ phase: progress.phase, chunks: [...progress.chunks] });
+    };
+    report();
+
+    return inFlight.run(cacheKey, async sharedSignal => {
+        const timer = telemetry.startTimer('document');
+        try {
+            const requestOptions = { useCache, temperature, signal: sharedSignal, priority, template };
+            const outcomes = await Promise.all(chunks.map(async chunk => {
+                report({ index: chunk.index, status: 'running' });
+                try {
+                    const analysis = await analyzeDocumentChunk(chunk, chunks.length, requestOptions);
+                    report({ index: chunk.index, status: 'done' });
+                    return { chunkIndex: chunk.index, analysis };
+                } catch (error) {
+                    if (isAbortError(error)) throw error;
+                    report({ index: chunk.index, status: 'failed' });
+                    return { chunkIndex: chunk.index, error: toApexError(error) };
+                }
+            }));
+
+            const extractions = outcomes.filter((o): o is ChunkExtraction => 'analysis' in o);
+            const failures = outcomes.filter((o): o is { chunkIndex: number; error: ApexError } => 'error' in o);
+            if (extractions.length === 0) throw failures[0].error;
+
+            progress.phase = 'reduce';
+            report();
+            const merged = mergeChunkExtractions(extractions);
+            const { title, summary } = extractions.length === 1
+                ? extractions[0].analysis
+                : await summarizeDocument(extractions, chunks, merged, requestOptions);
+
+            const { sources, reconciliationNotes, milestones, ...lists } = merged;
+            let custom: Pick<DocumentAnalysis, 'templateId' | 'fields' | 'fieldSources'> & ReturnType<typeof templateMilestones> | undefined;
+            if (isCustomTemplate(template)) {
+                const { fields, fieldSources } = mergeTemplateFields(template, extractions, reconciliationNotes);
+                custom = { templateId: template.id, fields, fieldSources, ...templateMilestones(template, fields, fieldSources) };
+            }
+            // Citations are resolved against the whole text: the Sources list is usually in the last chunk
+            const { keyResources, references, citationWarnings } = resolveCitations(documentText, lists.keyResources);
+            const result: DocumentAnalysis = {
+                title,
+                summary,
+                ...lists,
+                keyResources,
+                milestones: custom?.milestones ?? withDateRanges(milestones),
+                chunks: progress.chunks.map(({ status: _status, ...info }) => info),
+                sources: custom ? { ...sources, milestones: custom.sources } : sources,
+                ...(custom && { templateId: custom.templateId, fields: custom.fields, fieldSources: custom.fieldSources }),
+                ...(references.length > 0 && { references }),
+                ...(citationWarnings.length > 0 && { citationWarnings }),
+                ...(failures.length > 0 && { failedChunks: failures.map(f => f.chunkIndex) }),
+                reconciliationNotes: [
+                    ...failures.map(f => `Section ${f.chunkIndex + 1} could not be analyzed (${f.error.title}); its items are missing.`),
+                    ...reconciliationNotes,
+                ],
+            };
+
+            progress.phase = 'done';
+            report();
+            // Partial results are not cached so a retry re-runs the failed chunks
+            if (useCache && failures.length === 0) await cache.set(cacheKey, result, { label: result.title || documentText.slice(0, 60) });
+            timer.succeed();
+            return result;
+        } catch (error) {
+            if (!isAbortError(error)) timer.fail(toApexError(error).code);
+            throw analyzeError(error);
+        }
+    }, signal);
+}
+
+/**
+ * Stores an updated analysis (e.g. with its Q&A conversation) under the same cache
+ * entry as the original, so reopening the document restores it. Partial analyses
+ * are skipped, like in `analyzeDocument`, so a retry still re-runs the failed sections.
+ */
+export async function saveDocumentAnalysis(documentText: string, analysis: DocumentAnalysis, template?: DocumentTemplate): Promise<void> {
+    if (analysis.failedChunks?.length) return;
+    await cache.set(documentCacheKey(documentText, DEFAULT_DOCUMENT_TEMPERATURE, template), analysis, { label: analysis.title || documentText.slice(0, 60) });
+}
+
+const documentAnswerSchema: Schema = {
+    type: Type.OBJECT,
+    required: ['answerable', 'answer', 'quotes'],
+    properties: {
+        answerable: { type: Type.BOOLEAN },
+        answer: { type: Type.STRING },
+        quotes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    }
+};
+
+/**
+ * Answers a follow-up question strictly from the document text. Every quote is
+ * checked against the source; an answer with no verifiable quote is turned into
+ * a refusal rather than shown as fact.
+ */
+export async function askDocumentQuestion(
+    documentText: string,
+    analysis: DocumentAnalysis,
+    question: string,
+    options: { signal?: AbortSignal; priority?: RequestPriority; } = {}
+): Promise<DocumentQAMessage> {
+    const { signal, priority = 'interactive' } = options;
+    const history = analysis.conversation ?? [];
+    const passages = selectContext(documentText, question, history);
     const prompt = `
-        Analyze this document using standard extraction protocols.
-        DOCUMENT: """${documentText}"""
+        You answer questions about one document using only the passages below.
+        - Quote the exact sentences that support the answer, copied verbatim (no paraphrase, no added words).
+        - If the passages don't contain the answer, set answerable to false, leave quotes empty and say what is missing.
+        - Never use outside knowledge, even when the document is incomplete.
+        DOCUMENT: "${analysis.title}"
+        ${passages.map(p => `PASSAGE${p.heading ? ` (${p.heading})` : ''}:\n"""${p.text}"""`).join('\n')}
+        ${history.length > 0 ? `EARLIER QUESTIONS:\n${formatHistory(history)}` : ''}
+        QUESTION: ${question}
         OUTPUT: JSON conforming to schema.
     `;
-    
+
     try {
-        const response = await generateContentWithRetry(ai, {
-            model: 'gemini-2.5-pro',
-            contents: [{ parts: [{ text: prompt }] }],
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: documentAnalysisSchema,
-                temperature,
-            }
+        const { value, errors } = await generateValidatedJson<{ answerable: boolean; answer: string; quotes: string[] }>({
+            model: DEFAULT_MODEL,
+            parts: [{ text: prompt }],
+            responseSchema: documentAnswerSchema,
+            temperature: 0,
+        }, { signal, priority });
+        if (errors.length > 0) {
+            throw schemaError(errors);
+        }
+
+        const quotes = verifyQuotes(value.quotes ?? [], documentText, analysis.chunks);
+        const grounded = value.answerable && quotes.some(q => q.verified);
+        const refusal = value.answerable
+            ? `${NOT_IN_DOCUMENT_ANSWER} (An answer was drafted but none of its quotes match the document, so it was withheld.)`
+            : value.answer || NOT_IN_DOCUMENT_ANSWER;
+        return {
+            id: createMessageId(),
+            question,
+            answer: grounded ? value.answer : refusal,
+            answerable: grounded,
+            quotes: grounded ? quotes : [],
+            askedAt: new Date().toISOString(),
+        };
+    } catch (error) {
+        throw analyzeError(error);
+    }
+}
+
+const threadDraftSchema: Schema = {
+    type: Type.OBJECT,
+    required: ['posts'],
+    properties: {
+        posts: { type: Type.ARRAY, minItems: '2', items: { type: Type.STRING } },
+    }
+};
+
+const threadScoresSchema: Schema = {
+    type: Type.OBJECT,
+    required: ['posts'],
+    properties: {
+        posts: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                required: ['scores', 'sanctum'],
+                properties: { scores: scoresSchema, sanctum: sanctumSchema },
+            },
+        },
+    }
+};
+
+function formatAnalysisForThread(analysis: DocumentAnalysis): string {
+    const list = (label: string, items: string[]) => (items.length > 0 ? `${label}:\n${items.map(i => `- ${i}`).join('\n')}` : '');
+    const fields = Object.entries(analysis.fields ?? {})
+        .filter(([, value]) => value !== null && !(Array.isArray(value) && value.length === 0))
+        .map(([key, value]) => `- ${key}: ${Array.isArray(value) ? value.join('; ') : value}`);
+    return [
+        `TITLE: ${analysis.title}`,
+        `SUMMARY: ${analysis.summary}`,
+        list('OBJECTIVES', analysis.objectives),
+        list('KEY DATES', analysis.milestones.map(m => `${m.date}: ${m.event}`)),
+        list('REQUIREMENTS', analysis.submissionRequirements),
+        list('APPROACHES', analysis.modelsAndApproaches),
+        fields.length > 0 ? `FIELDS:\n${fields.join('\n')}` : '',
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Sanctum + Scores pass over thread posts, the same gauntlet reply strategies go
+ * through. Local checks (language, weighted length) are added to the model's flags.
+ */
+export async function scoreThreadPosts(
+    bodies: string[],
+    numbered: boolean,
+    options: { signal?: AbortSignal; priority?: RequestPriority; } = {}
+): Promise<ThreadPost[]> {
+    const { signal, priority = 'interactive' } = options;
+    const posts = toThreadPosts(bodies, numbered);
+    const detected = detectLanguage(bodies.join(' '));
+    const language = replyLanguageFor(detected);
+    const prompt = `
+        Run each post of this X thread through the Sanctum Protocol and score it as you would a reply strategy.
+        - Zero tolerance for slop, generic AI-speak, engagement bait and toxicity.
+        - Score each post in context: post 1 must hook, later posts must each add something.
+        - Return one entry per post, in order.
+        THREAD:
+        ${posts.map((p, i) => `[${i + 1}] ${formatThreadPost(p.text, i, posts.length, numbered)}`).join('\n')}
+        OUTPUT: JSON conforming to schema.
+    `;
+
+    try {
+        const { value, errors } = await generateValidatedJson<{ posts: { scores: Scores; sanctum: SanctumCheck }[] }>({
+            model: DEFAULT_MODEL,
+            parts: [{ text: prompt }],
+            responseSchema: threadScoresSchema,
+            temperature: 0.2,
+        }, { signal, priority });
+        if (errors.length > 0) {
+            throw schemaError(errors);
+        }
+        return posts.map((post, i) => {
+            const scored = value.posts[i];
+            const modelFlags = scored?.sanctum.flags ?? [];
+            const localFlags = [
+                ...localizedSanctumFlags(post.text, language),
+                ...(post.weightedLength > TWITTER_TEXT_CONFIG.maxWeightedTweetLength ? [`Over ${TWITTER_TEXT_CONFIG.maxWeightedTweetLength} weighted characters`] : []),
+            ].filter(flag => !modelFlags.includes(flag));
+            return scored
+                ? { ...post, scores: scored.scores, sanctum: { ...scored.sanctum, flags: [...modelFlags, ...localFlags] }, stale: false }
+                : { ...post, stale: true };
         });
-        const candidate = response.candidates?.[0];
-        if (!candidate) throw new Error("AI Malformed Response");
-        return JSON.parse(candidate.content.parts[0].text || "{}");
     } catch (error) {
         throw analyzeError(error);
     }
 }
 
-export function getSystemMetrics(): any {
+/**
+ * Writes an X thread announcing the analyzed document. The model drafts the
+ * posts; they are then re-split locally at sentence boundaries so every post,
+ * numbering included, fits the weighted limit, and scored post by post. A thread
+ * that still runs past MAX_THREAD_POSTS is cut there and reports what it dropped.
+ */
+export async function generateDocumentThread(
+    analysis: DocumentAnalysis,
+    options: { postCount?: number; numbered?: boolean; signal?: AbortSignal; priority?: RequestPriority; } = {}
+): Promise<DocumentThread> {
+    const { numbered = true, signal, priority = 'interactive' } = options;
+    const postCount = options.postCount && Math.min(options.postCount, MAX_THREAD_POSTS);
+    const prompt = `
+        Write an X (Twitter) thread that announces and summarizes the document below for a professional audience.
+        - ${postCount ? `Exactly ${postCount} posts.` : `Between 3 and 8 posts, as many as the material supports.`}
+        - Post 1 is the hook: the single most important takeaway, no "A thread" or 🧵 filler.
+        - One idea per post, concrete names, numbers and dates from the document. Never invent facts.
+        - Each post under ${bodyBudget(postCount ?? 8, numbered)} characters. Do not number the posts; numbering is added later.
+        - The last post says where to find the document or what to do next.
+        DOCUMENT ANALYSIS:
+        ${formatAnalysisForThread(analysis)}
+        OUTPUT: JSON conforming to schema.
+    `;
+
+    let drafts: string[];
+    try {
+        const { value, errors } = await generateValidatedJson<{ posts: string[] }>({
+            model: DEFAULT_MODEL,
+            parts: [{ text: prompt }],
+            responseSchema: threadDraftSchema,
+            temperature: 0.7,
+        }, { signal, priority });
+        if (errors.length > 0) {
+            throw schemaError(errors);
+        }
+        drafts = value.posts.map(stripNumbering).filter(Boolean);
+        if (drafts.length === 0) throw new MalformedResponseError('The model returned an empty thread.');
+    } catch (error) {
+        throw analyzeError(error);
+    }
+    // Splitting long drafts can push past the cap; packing the sentences tighter usually brings it back
+    let bodies = reflowFrom(drafts, 0, numbered);
+    if (bodies.length > MAX_THREAD_POSTS) bodies = rebalanceThread(bodies, numbered);
+    const droppedPosts = Math.max(bodies.length - MAX_THREAD_POSTS, 0);
+    if (droppedPosts > 0) {
+        console.warn(`Thread cut to ${MAX_THREAD_POSTS} posts, dropping ${droppedPosts}.`);
+        // Numbering is added from the final count, so the kept posts read "n/25"
+        bodies = bodies.slice(0, MAX_THREAD_POSTS);
+    }
+    return {
+        posts: await scoreThreadPosts(bodies, numbered, { signal, priority }),
+        numbered,
+        generatedAt: new Date().toISOString(),
+        ...(droppedPosts > 0 && { droppedPosts }),
+    };
+}
+
+export interface SystemMetricsSnapshot {
+    provider: string;
+    rezolus: TelemetrySnapshot;
+    cache: CacheStats;
+    rateLimiter: { remaining?: number; resetTime?: number }; // default model's window
+    scheduler: SchedulerStatus;
+}
+
+export function getSystemMetrics(): SystemMetricsSnapshot {
+    const schedulerStatus = scheduler.getStatus();
+    const defaultModel = schedulerStatus.models[DEFAULT_MODEL];
     return {
-        rezolus: rezolus.getMetrics(),
+        provider: getLLMProvider().name,
+        rezolus: telemetry.getMetrics(),
         cache: cache.getStats(),
-        rateLimiter: rateLimiter.getStatus()
+        rateLimiter: { remaining: defaultModel?.remaining, resetTime: defaultModel?.resetTime },
+        scheduler: schedulerStatus
     };
 }
 
-export function clearCache(): void {
-    cache.clear();
+/**
+ * Live queue status for loaders and dashboards. Returns an unsubscribe function.
+ */
+export function subscribeToScheduler(listener: (status: SchedulerStatus) => void): () => void {
+    listener(scheduler.getStatus());
+    return scheduler.subscribe(listener);
+}
+
+export async function clearCache(): Promise<void> {
+    await cache.clear();
+}
+
+export function listCacheEntries(): Promise<CacheEntrySummary[]> {
+    return cache.listEntries();
+}
+
+export async function evictCacheEntry(key: string): Promise<void> {
+    await cache.delete(key);
 }
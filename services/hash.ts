@@ -0,0 +1,33 @@
+/**
+ * FNV-1a 32-bit hash. Fast, deterministic and good enough for cache keys,
+ * fixture keys and PRNG seeds (not for anything security related).
+ */
+export function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Hex digest of `fnv1a`, padded to 8 characters.
+ */
+export function hashString(input: string): string {
+    return fnv1a(input).toString(16).padStart(8, '0');
+}
+
+/**
+ * Mulberry32 PRNG. Returns a generator of floats in [0, 1) for a given seed.
+ */
+export function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,80 @@
+import { type DocumentAnalysis } from '../types';
+import { hashString } from './hash';
+import { buildTimeline } from './timeline';
+
+function escapeText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * RFC 5545 limits content lines to 75 octets; longer ones continue on lines starting with a space.
+ */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+const compactDate = (iso: string) => iso.replace(/-/g, '');
+
+function nextDay(iso: string): string {
+    const [y, m, d] = iso.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * All-day events for every milestone with a parseable date; deadlines get a
+ * reminder the day before. Returns the calendar text and the milestones that
+ * were left out because their date couldn't be parsed.
+ */
+export function buildMilestoneCalendar(analysis: DocumentAnalysis, now: Date = new Date()): { ics: string; skipped: string[] } {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const entries = buildTimeline(analysis.milestones, now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//APEX X//Document Analysis//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(analysis.title)}`,
+    ];
+
+    for (const { milestone, range, isDeadline } of entries) {
+        if (!range) continue;
+        const description = [
+            milestone.details,
+            `Source date: ${milestone.date}`,
+            range.confidence < 0.6 ? `Approximate date (confidence ${Math.round(range.confidence * 100)}%)` : '',
+        ].filter(Boolean).join('\n');
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${hashString(`${analysis.title}|${milestone.event}|${milestone.date}`)}@apex-x`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${compactDate(range.start)}`,
+            `DTEND;VALUE=DATE:${compactDate(nextDay(range.end))}`, // exclusive
+            `SUMMARY:${escapeText(isDeadline ? `⏰ ${milestone.event}` : milestone.event)}`,
+            `DESCRIPTION:${escapeText(description)}`,
+            'TRANSP:TRANSPARENT',
+        );
+        if (isDeadline) {
+            lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(milestone.event)}`, 'TRIGGER:-P1D', 'END:VALARM');
+        }
+        lines.push('END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+
+    return {
+        ics: lines.map(foldLine).join('\r\n') + '\r\n',
+        skipped: entries.filter(e => !e.range).map(e => e.milestone.event),
+    };
+}
@@ -0,0 +1,120 @@
+/**
+ * Minimal promise wrappers around IndexedDB. Every helper degrades to `null`
+ * when IndexedDB is unavailable (private browsing, headless Node), so callers
+ * can fall back to memory-only behaviour.
+ */
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function openDatabase(
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    return new Promise(resolve => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn(`IndexedDB "${name}" unavailable:`, request.error);
+            resolve(null);
+        };
+    });
+}
+
+/**
+ * Runs `fn` against an object store inside a single transaction.
+ */
+export async function withStore<T>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const tx = db.transaction(storeName, mode);
+    return promisifyRequest(fn(tx.objectStore(storeName)));
+}
+
+/**
+ * Reads, changes and writes back one record in a single readwrite transaction, so
+ * concurrent updates of the same record can't overwrite each other. When `fn`
+ * returns undefined nothing is written.
+ */
+export function updateInStore<T>(
+    db: IDBDatabase,
+    storeName: string,
+    key: IDBValidKey,
+    fn: (current: T | undefined) => T | undefined
+): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        let result: T | undefined;
+        const request = store.get(key);
+        request.onsuccess = () => {
+            result = fn(request.result);
+            if (result !== undefined) store.put(result);
+        };
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Deletes the records that sort first in `indexName` until at most `keep` remain,
+ * walking the index with a cursor instead of loading the store. Returns how many
+ * were deleted.
+ */
+export function trimStore(db: IDBDatabase, storeName: string, indexName: string, keep: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        let deleted = 0;
+        const count = store.count();
+        count.onsuccess = () => {
+            let excess = count.result - keep;
+            if (excess <= 0) return;
+            const cursor = store.index(indexName).openCursor();
+            cursor.onsuccess = () => {
+                if (!cursor.result || excess <= 0) return;
+                cursor.result.delete();
+                deleted++;
+                excess--;
+                cursor.result.continue();
+            };
+        };
+        tx.oncomplete = () => resolve(deleted);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Deletes every record `shouldDelete` matches in one cursor pass, without loading
+ * the store into memory. Returns how many were deleted.
+ */
+export function deleteWhere<T>(db: IDBDatabase, storeName: string, shouldDelete: (record: T) => boolean): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        let deleted = 0;
+        const cursor = tx.objectStore(storeName).openCursor();
+        cursor.onsuccess = () => {
+            if (!cursor.result) return;
+            if (shouldDelete(cursor.result.value)) {
+                cursor.result.delete();
+                deleted++;
+            }
+            cursor.result.continue();
+        };
+        tx.oncomplete = () => resolve(deleted);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
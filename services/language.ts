@@ -0,0 +1,158 @@
+import { type DetectedLanguage } from '../types';
+
+/**
+ * Languages we generate replies in and search for. `code` is the ISO 639-1 code X
+ * uses for its `lang:` operator.
+ */
+export const SUPPORTED_LANGUAGES: { code: string; name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'zh', name: 'Chinese' },
+    { code: 'ru', name: 'Russian' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'hi', name: 'Hindi' },
+];
+
+export function languageName(code: string): string {
+    return SUPPORTED_LANGUAGES.find(l => l.code === code)?.name ?? code;
+}
+
+// Scripts that identify a language on their own (or nearly so)
+const SCRIPT_LANGUAGES: { code: string; pattern: RegExp }[] = [
+    { code: 'ja', pattern: /[぀-ヿ]/g }, // Hiragana/Katakana; checked before Han
+    { code: 'ko', pattern: /[가-힯ᄀ-ᇿ]/g },
+    { code: 'zh', pattern: /[一-鿿]/g },
+    { code: 'ru', pattern: /[Ѐ-ӿ]/g },
+    { code: 'ar', pattern: /[؀-ۿ]/g },
+    { code: 'hi', pattern: /[ऀ-ॿ]/g },
+];
+
+// High-frequency function words; a handful per language is enough for post-length text
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'a', 'an', 'and', 'is', 'are', 'was', 'to', 'of', 'in', 'on', 'at', 'by', 'from', 'up', 'as', 'i', 'my', 'we', 'our', 'you', 'that', 'it', 'for', 'with', 'this', 'not', 'but', 'have', 'what', 'just', 'your'],
+    es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'en', 'un', 'una', 'por', 'para', 'con', 'no', 'pero', 'muy', 'más', 'lo', 'se', 'del'],
+    pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'em', 'um', 'uma', 'para', 'com', 'não', 'mas', 'muito', 'mais', 'do', 'da', 'você'],
+    fr: ['le', 'la', 'les', 'de', 'des', 'que', 'et', 'est', 'en', 'un', 'une', 'pour', 'avec', 'pas', 'mais', 'très', 'plus', 'du', 'vous', 'ce'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'zu', 'den', 'nicht', 'ein', 'eine', 'mit', 'für', 'auf', 'aber', 'sehr', 'ich', 'sie', 'es', 'auch'],
+    it: ['il', 'la', 'le', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'con', 'non', 'ma', 'molto', 'più', 'del', 'della', 'sono', 'questo'],
+    nl: ['de', 'het', 'een', 'en', 'is', 'van', 'dat', 'niet', 'met', 'voor', 'op', 'maar', 'zijn', 'ook', 'je', 'wat', 'dit'],
+};
+
+// Characters that only occur in one Latin-script language of the set
+const LATIN_MARKERS: Record<string, RegExp> = {
+    es: /[ñ¿¡]/g,
+    pt: /[ãõ]/g,
+    de: /[äöüß]/g,
+    fr: /[çœèêë]/g,
+};
+
+function stripEntities(text: string): string {
+    return text
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[@#][\p{L}\p{N}_]+/gu, ' ');
+}
+
+/**
+ * Lightweight language identification for post-length text: script detection for
+ * non-Latin scripts, then stopword and diacritic scoring for Latin ones. Returns
+ * `und` (undetermined) when there is too little signal.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+    const clean = stripEntities(text);
+    const letters = (clean.match(/\p{L}/gu) ?? []).length;
+    if (letters === 0) return { code: 'und', name: 'Undetermined', confidence: 0 };
+
+    for (const { code, pattern } of SCRIPT_LANGUAGES) {
+        const count = (clean.match(pattern) ?? []).length;
+        // Japanese text mixes kana with Han, so any meaningful kana share decides it
+        const threshold = code === 'ja' ? 0.1 : 0.3;
+        if (count / letters >= threshold) {
+            return { code, name: languageName(code), confidence: Number(Math.min(1, 0.6 + count / letters / 2).toFixed(2)) };
+        }
+    }
+
+    const words = clean.toLowerCase().match(/\p{L}+/gu) ?? [];
+    const scores: Record<string, number> = {};
+    for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+        const set = new Set(stopwords);
+        scores[code] = words.filter(w => set.has(w)).length;
+    }
+    for (const [code, pattern] of Object.entries(LATIN_MARKERS)) {
+        scores[code] += (clean.toLowerCase().match(pattern) ?? []).length * 2;
+    }
+
+    const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+    const [bestCode, best] = ranked[0];
+    const runnerUp = ranked[1][1];
+    if (best === 0) return { code: 'und', name: 'Undetermined', confidence: 0 };
+
+    // Fewer than three matching words is thin evidence, however short the post
+    const confidence = Math.min(1, (best - runnerUp + 1) / (best + 1) * Math.min(1, words.length / 6 + 0.3) * Math.min(1, best / 3));
+    return { code: bestCode, name: languageName(bestCode), confidence: Number(confidence.toFixed(2)) };
+}
+
+// Below this, 'auto' stays in English rather than switching on a weak guess
+export const MIN_LANGUAGE_CONFIDENCE = 0.5;
+
+/**
+ * The language 'auto' replies in: the detected one when detection is confident,
+ * otherwise English.
+ */
+export function replyLanguageFor(detected: DetectedLanguage): string {
+    return detected.code !== 'und' && detected.confidence >= MIN_LANGUAGE_CONFIDENCE ? detected.code : 'en';
+}
+
+/**
+ * Generic "slop" replies per language; the Sanctum rejects these in any language.
+ */
+export const LOCALIZED_SLOP_PHRASES: Record<string, string[]> = {
+    en: ['great post', 'so true', 'well said', 'this is huge', 'couldn\'t agree more'],
+    es: ['gran post', 'muy cierto', 'totalmente de acuerdo', 'excelente publicación', 'qué buena reflexión'],
+    ja: ['素晴らしい投稿', 'その通り', '勉強になります', '完全に同意', 'さすがです'],
+    pt: ['ótimo post', 'muito verdade', 'concordo totalmente', 'excelente publicação'],
+    fr: ['super post', 'tellement vrai', 'entièrement d\'accord', 'excellent post'],
+    de: ['toller beitrag', 'so wahr', 'stimme voll zu', 'genau so ist es'],
+};
+
+/**
+ * Prompt section telling the model which language to write in and how the Sanctum
+ * rules read in that language.
+ */
+export function formatLanguageInstructions(language: { code: string; name: string }, detected?: DetectedLanguage): string {
+    const slop = LOCALIZED_SLOP_PHRASES[language.code];
+    const lines = [
+        `REPLY LANGUAGE: ${language.name} (${language.code}).`,
+        `- Write every replyText, abVariants text and fallbackVariations entry in ${language.name}, as a native speaker would on X.`,
+        '- Keep the analysis, rationale and scoring fields in English.',
+        `- Apply the Sanctum Protocol in ${language.name}: judge cringe, slop and tone by the norms of ${language.name}-speaking X, not by translating English rules.`,
+    ];
+    if (detected && detected.code !== 'und' && detected.code !== language.code) {
+        lines.push(`- The post is in ${detected.name}; reply in ${language.name} anyway, without commenting on the language switch.`);
+    }
+    if (slop) lines.push(`- Examples of generic ${language.name} replies the Sanctum rejects: ${slop.map(p => `"${p}"`).join(', ')}.`);
+    return lines.join('\n');
+}
+
+/**
+ * Local Sanctum pass over a generated reply: wrong-language output and generic
+ * phrases the model was told to avoid. Returns flag strings for `SanctumCheck.flags`.
+ */
+export function localizedSanctumFlags(replyText: string, languageCode: string): string[] {
+    const flags: string[] = [];
+    const detected = detectLanguage(replyText);
+    if (detected.code !== 'und' && detected.code !== languageCode && detected.confidence >= 0.5) {
+        flags.push(`Language mismatch: reply reads as ${detected.name}, expected ${languageName(languageCode)}`);
+    }
+    const lower = replyText.toLowerCase();
+    for (const phrase of LOCALIZED_SLOP_PHRASES[languageCode] ?? []) {
+        if (lower.includes(phrase.toLowerCase())) flags.push(`Generic phrase: "${phrase}"`);
+    }
+    return flags;
+}
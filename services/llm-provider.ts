@@ -0,0 +1,227 @@
+import { GoogleGenAI, Type, type Schema } from "@google/genai";
+import { fnv1a, hashString, seededRandom } from './hash';
+import { abortableDelay, throwIfAborted } from './abort';
+import { AuthError, MalformedResponseError, SafetyBlockedError } from './errors';
+
+export type LLMPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface LLMRequest {
+    model: string;
+    parts: LLMPart[];
+    responseSchema?: Schema;
+    temperature?: number;
+}
+
+export interface LLMResponse {
+    text: string;
+    provider: string;
+    finishReason?: string;
+}
+
+/**
+ * Anything that can turn an `LLMRequest` into raw (JSON) text.
+ * `generateContentWithRetry` in geminiService only talks to this interface.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    generateContent(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+}
+
+/**
+ * Live adapter for the Google Gemini API.
+ */
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    private readonly apiKey?: string;
+    private client: GoogleGenAI | null = null;
+
+    constructor(apiKey: string | undefined = process.env.API_KEY) {
+        this.apiKey = apiKey;
+    }
+
+    async generateContent(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+        if (!this.apiKey) throw new AuthError("No Gemini API key is configured.", { service: 'gemini' });
+        throwIfAborted(signal);
+        if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+
+        const response = await this.client.models.generateContent({
+            model: request.model,
+            contents: [{ parts: request.parts }],
+            config: {
+                responseMimeType: request.responseSchema ? 'application/json' : 'text/plain',
+                responseSchema: request.responseSchema,
+                temperature: request.temperature,
+                abortSignal: signal,
+            }
+        });
+        throwIfAborted(signal);
+
+        const blockReason = response.promptFeedback?.blockReason;
+        if (blockReason) throw new SafetyBlockedError(`The prompt was blocked (${blockReason}).`, { reason: blockReason });
+
+        const candidate = response.candidates?.[0];
+        if (candidate?.finishReason === 'SAFETY' || candidate?.finishReason === 'PROHIBITED_CONTENT') {
+            throw new SafetyBlockedError(`The response was withheld (${candidate.finishReason}).`, { reason: candidate.finishReason });
+        }
+        const text = candidate?.content?.parts?.map(p => p.text ?? '').join('');
+        if (!candidate || !text) throw new MalformedResponseError("The model returned an empty response.");
+        return { text, provider: this.name, finishReason: candidate.finishReason };
+    }
+}
+
+/**
+ * Stable key for a request: model plus every text part. Inline data is reduced to
+ * its hash so recordings stay small.
+ */
+export function fixtureKey(request: LLMRequest): string {
+    const body = request.parts
+        .map(p => 'text' in p ? p.text : `[${p.inlineData.mimeType}:${hashString(p.inlineData.data)}]`)
+        .join('\n');
+    return `${request.model}:${hashString(body)}`;
+}
+
+/**
+ * Offline provider that replays recorded responses and, when asked for something
+ * it has never seen, synthesizes deterministic JSON from the response schema.
+ * The same request always yields the same response, which makes it suitable for
+ * demos, local development and regression runs without network access.
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly name = 'fixture';
+    private recordings = new Map<string, string>();
+    private readonly synthesize: boolean;
+    private readonly latencyMs: number;
+
+    constructor(options: { recordings?: Record<string, string>; synthesize?: boolean; latencyMs?: number } = {}) {
+        this.synthesize = options.synthesize ?? true;
+        this.latencyMs = options.latencyMs ?? 0;
+        if (options.recordings) this.load(options.recordings);
+    }
+
+    async generateContent(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+        await abortableDelay(this.latencyMs, signal);
+
+        const key = fixtureKey(request);
+        const recorded = this.recordings.get(key);
+        if (recorded !== undefined) return { text: recorded, provider: this.name, finishReason: 'STOP' };
+
+        if (!this.synthesize || !request.responseSchema) {
+            throw new Error(`Fixture Missing: No recorded response for request ${key}.`);
+        }
+        const source = extractSourceText(request);
+        const value = synthesizeFromSchema(request.responseSchema, seededRandom(fnv1a(key)), sentencesOf(source));
+        return { text: JSON.stringify(value), provider: this.name, finishReason: 'STOP' };
+    }
+
+    record(request: LLMRequest, text: string): void {
+        this.recordings.set(fixtureKey(request), text);
+    }
+
+    load(recordings: Record<string, string>): void {
+        for (const [key, text] of Object.entries(recordings)) this.recordings.set(key, text);
+    }
+
+    toJSON(): Record<string, string> {
+        return Object.fromEntries(this.recordings);
+    }
+}
+
+/**
+ * Wraps a live provider and copies every successful response into a fixture
+ * provider, so a session against Gemini can be replayed offline later.
+ */
+export class RecordingProvider implements LLMProvider {
+    readonly name: string;
+    private readonly inner: LLMProvider;
+    readonly fixtures: FixtureProvider;
+
+    constructor(inner: LLMProvider, fixtures: FixtureProvider = new FixtureProvider({ synthesize: false })) {
+        this.inner = inner;
+        this.fixtures = fixtures;
+        this.name = `${inner.name}+recording`;
+    }
+
+    async generateContent(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+        const response = await this.inner.generateContent(request, signal);
+        this.fixtures.record(request, response.text);
+        return response;
+    }
+}
+
+// --- Schema-driven synthesis (FixtureProvider) ---
+
+function extractSourceText(request: LLMRequest): string {
+    const text = request.parts.map(p => 'text' in p ? p.text : '').join('\n');
+    const quoted = text.match(/"""([\s\S]*?)"""/);
+    return (quoted ? quoted[1] : text).trim();
+}
+
+function sentencesOf(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(s => s.trim())
+        .filter(s => s.length > 0);
+}
+
+function synthesizeFromSchema(schema: Schema, random: () => number, sentences: string[], key = 'value'): unknown {
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[Math.floor(random() * schema.enum.length)];
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const result: Record<string, unknown> = {};
+            for (const [name, child] of Object.entries(schema.properties ?? {})) {
+                result[name] = synthesizeFromSchema(child, random, sentences, name);
+            }
+            return result;
+        }
+        case Type.ARRAY: {
+            const min = schema.minItems !== undefined ? Number(schema.minItems) : 2;
+            const max = schema.maxItems !== undefined ? Number(schema.maxItems) : Math.max(min, 4);
+            const length = min + Math.floor(random() * (max - min + 1));
+            return Array.from({ length }, (_, i) =>
+                schema.items ? synthesizeFromSchema(schema.items, random, sentences, `${key}[${i}]`) : null
+            );
+        }
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            const min = schema.minimum ?? 0;
+            const max = schema.maximum ?? 100;
+            const value = min + random() * (max - min);
+            return schema.type === Type.INTEGER || max - min > 1 ? Math.round(value) : Number(value.toFixed(2));
+        }
+        case Type.BOOLEAN:
+            return random() > 0.3;
+        case Type.STRING:
+        default: {
+            if (sentences.length === 0) return `${key} (offline fixture)`;
+            return sentences[Math.floor(random() * sentences.length)].slice(0, 240);
+        }
+    }
+}
+
+// --- Active provider ---
+
+let activeProvider: LLMProvider | null = null;
+
+function createDefaultProvider(): LLMProvider {
+    if (process.env.LLM_PROVIDER === 'fixture') {
+        return new FixtureProvider({ latencyMs: 600 });
+    }
+    return new GeminiProvider();
+}
+
+export function getLLMProvider(): LLMProvider {
+    if (!activeProvider) activeProvider = createDefaultProvider();
+    return activeProvider;
+}
+
+/**
+ * Swap the provider used by every service call (e.g. a FixtureProvider in tests).
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+    activeProvider = provider;
+}
@@ -0,0 +1,71 @@
+import { type MediaAttachment } from '../types';
+import { type LLMPart } from './llm-provider';
+import { ApexError } from './errors';
+import { throwIfAborted } from './abort';
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+export const MAX_ATTACHMENTS = 4; // X allows up to four images per post
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // keeps four images under Gemini's 20MB inline request limit
+
+function unsupportedAttachment(message: string): ApexError {
+    return new ApexError(message, {
+        title: 'Unsupported Attachment',
+        remediation: `Attach PNG, JPEG, WebP or HEIC images of at most ${MAX_IMAGE_BYTES / (1024 * 1024)}MB each, up to ${MAX_ATTACHMENTS} per post.`,
+    });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Reads an uploaded or pasted image into an inline attachment.
+ */
+export async function readImageFile(file: File | Blob): Promise<MediaAttachment> {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+        throw unsupportedAttachment(`"${file.type || 'unknown'}" images are not supported.`);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+        throw unsupportedAttachment(`The image is ${(file.size / (1024 * 1024)).toFixed(1)}MB.`);
+    }
+    return { mimeType: file.type, data: await blobToBase64(file) };
+}
+
+export function toDataUrl(media: MediaAttachment): string | undefined {
+    if (media.data) return `data:${media.mimeType};base64,${media.data}`;
+    return media.url;
+}
+
+/**
+ * Turns attachments into inline image parts, downloading remote (X) media first.
+ * Remote images that cannot be fetched are skipped so one broken link does not
+ * fail the whole analysis.
+ */
+export async function resolveMediaParts(media: MediaAttachment[], signal?: AbortSignal): Promise<LLMPart[]> {
+    const parts: LLMPart[] = [];
+    for (const item of media.slice(0, MAX_ATTACHMENTS)) {
+        throwIfAborted(signal);
+        if (item.data) {
+            parts.push({ inlineData: { mimeType: item.mimeType, data: item.data } });
+            continue;
+        }
+        if (!item.url) continue;
+        try {
+            const response = await fetch(item.url, { signal });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const blob = await response.blob();
+            if (blob.size > MAX_IMAGE_BYTES) throw new Error(`${blob.size} bytes exceeds the inline limit`);
+            const mimeType = SUPPORTED_IMAGE_TYPES.includes(blob.type) ? blob.type : item.mimeType;
+            parts.push({ inlineData: { mimeType, data: await blobToBase64(blob) } });
+        } catch (error) {
+            throwIfAborted(signal);
+            console.warn(`Skipping media ${item.url}:`, error);
+        }
+    }
+    return parts;
+}
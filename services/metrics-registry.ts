@@ -0,0 +1,230 @@
+/**
+ * Prometheus/OpenMetrics export of the system's telemetry.
+ *
+ * Every metric the app exposes is declared in METRIC_DEFINITIONS: its type, help
+ * text and label names. Names and labels are part of the scrape contract, so they
+ * only change together with dashboards and alerts. Services register collectors
+ * that report current values when the registry is rendered; nothing is pushed.
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricDefinition {
+    type: MetricType;
+    help: string;
+    unit?: string; // OpenMetrics UNIT; the name must end in `_<unit>`
+    labels: readonly string[];
+}
+
+export const METRIC_DEFINITIONS = {
+    // LLM client and X API calls (see services/telemetry.ts)
+    apex_operation_duration_seconds: {
+        type: 'histogram',
+        help: 'Duration of generate_content, document, search and reply calls, failures included.',
+        unit: 'seconds',
+        labels: ['operation'],
+    },
+    apex_operation_errors: {
+        type: 'counter',
+        help: 'Failed calls by operation and error class (ApexErrorCode).',
+        labels: ['operation', 'error_class'],
+    },
+    apex_llm_provider: {
+        type: 'gauge',
+        help: 'Always 1; the label names the active LLM provider.',
+        labels: ['provider'],
+    },
+
+    // Response cache (services/response-cache.ts)
+    apex_cache_lookups: {
+        type: 'counter',
+        help: 'Cache lookups by namespace and result (hit or miss).',
+        labels: ['namespace', 'result'],
+    },
+    apex_cache_hits: {
+        type: 'counter',
+        help: 'Cache hits by the tier that served them (memory or persistent).',
+        labels: ['tier'],
+    },
+    apex_cache_removals: {
+        type: 'counter',
+        help: 'Entries dropped from the cache by reason (evicted or expired).',
+        labels: ['reason'],
+    },
+    apex_cache_entries: {
+        type: 'gauge',
+        help: 'Entries currently held, by tier.',
+        labels: ['tier'],
+    },
+    apex_cache_capacity_entries: {
+        type: 'gauge',
+        help: 'Maximum entries per tier.',
+        labels: ['tier'],
+    },
+
+    // Request scheduler and its per-model rate limiters (services/request-scheduler.ts)
+    apex_scheduler_running: {
+        type: 'gauge',
+        help: 'LLM requests currently running.',
+        labels: [],
+    },
+    apex_scheduler_max_concurrent: {
+        type: 'gauge',
+        help: 'Concurrency limit of the request scheduler.',
+        labels: [],
+    },
+    apex_scheduler_queued: {
+        type: 'gauge',
+        help: 'Requests waiting, by priority lane.',
+        labels: ['lane'],
+    },
+    apex_rate_limit_used: {
+        type: 'gauge',
+        help: 'Requests made in the current rate-limit window, by model.',
+        labels: ['model'],
+    },
+    apex_rate_limit_remaining: {
+        type: 'gauge',
+        help: 'Requests left in the current rate-limit window, by model.',
+        labels: ['model'],
+    },
+    apex_rate_limit_limit: {
+        type: 'gauge',
+        help: 'Requests allowed per rate-limit window, by model.',
+        labels: ['model'],
+    },
+
+    // Reply automation (services/x-automation-service.ts)
+    apex_reply_bucket_tokens: {
+        type: 'gauge',
+        help: 'Replies the automation token bucket currently allows.',
+        labels: [],
+    },
+    apex_reply_bucket_capacity: {
+        type: 'gauge',
+        help: 'Capacity of the automation token bucket (max replies per day).',
+        labels: [],
+    },
+    apex_circuit_breaker_state: {
+        type: 'gauge',
+        help: '1 for the circuit breaker\'s current state, 0 for the others.',
+        labels: ['state'],
+    },
+    apex_circuit_breaker_failures: {
+        type: 'gauge',
+        help: 'Consecutive X API failures counted by the circuit breaker.',
+        labels: [],
+    },
+} as const satisfies Record<string, MetricDefinition>;
+
+type Definitions = typeof METRIC_DEFINITIONS;
+
+export type MetricName = keyof Definitions;
+
+export type MetricNameOfType<T extends MetricType> = { [N in MetricName]: Definitions[N]['type'] extends T ? N : never }[MetricName];
+
+export type MetricLabels<N extends MetricName> = { [L in Definitions[N]['labels'][number]]: string };
+
+export interface HistogramValue {
+    bounds: number[]; // upper bounds, ascending, without +Inf
+    counts: number[]; // per bin (not cumulative); one more entry than bounds for the +Inf bin
+    sum: number;
+}
+
+export interface MetricsWriter {
+    counter<N extends MetricNameOfType<'counter'>>(name: N, labels: MetricLabels<N>, value: number): void;
+    gauge<N extends MetricNameOfType<'gauge'>>(name: N, labels: MetricLabels<N>, value: number): void;
+    histogram<N extends MetricNameOfType<'histogram'>>(name: N, labels: MetricLabels<N>, value: HistogramValue): void;
+}
+
+export type MetricsCollector = (metrics: MetricsWriter) => void;
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+interface Sample {
+    labels: Record<string, string>;
+    value: number | HistogramValue;
+}
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const escapeHelp = (help: string) => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+function formatNumber(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+// Bucket bounds are floats in canonical form, so whole numbers keep their ".0"
+const formatBound = (bound: number) => (Number.isInteger(bound) ? bound.toFixed(1) : formatNumber(bound));
+
+function formatLabels(labels: Record<string, string>): string {
+    const entries = Object.entries(labels);
+    return entries.length === 0 ? '' : `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`;
+}
+
+export class MetricsRegistry {
+    private collectors = new Map<string, MetricsCollector>();
+
+    /**
+     * Adds a collector under `id`, replacing any earlier one with the same id (e.g.
+     * a recreated service). Returns a function that removes it.
+     */
+    register(id: string, collector: MetricsCollector): () => void {
+        this.collectors.set(id, collector);
+        return () => {
+            if (this.collectors.get(id) === collector) this.collectors.delete(id);
+        };
+    }
+
+    /**
+     * Current samples of every declared metric, in declaration order. A collector
+     * that throws is skipped so one broken source doesn't empty the scrape.
+     */
+    collect(): Map<MetricName, Sample[]> {
+        const samples = new Map<MetricName, Sample[]>(Object.keys(METRIC_DEFINITIONS).map(name => [name as MetricName, []]));
+        const add = (name: MetricName, labels: Record<string, string>, value: number | HistogramValue) => samples.get(name)!.push({ labels, value });
+        const writer: MetricsWriter = { counter: add, gauge: add, histogram: add };
+        for (const [id, collector] of this.collectors) {
+            try {
+                collector(writer);
+            } catch (err) {
+                console.warn(`Metrics collector "${id}" failed:`, err);
+            }
+        }
+        return samples;
+    }
+
+    /**
+     * The registry in OpenMetrics text format, ending with `# EOF`.
+     */
+    renderOpenMetrics(): string {
+        const lines: string[] = [];
+        for (const [name, samples] of this.collect()) {
+            const definition: MetricDefinition = METRIC_DEFINITIONS[name];
+            lines.push(`# TYPE ${name} ${definition.type}`);
+            if (definition.unit) lines.push(`# UNIT ${name} ${definition.unit}`);
+            lines.push(`# HELP ${name} ${escapeHelp(definition.help)}`);
+            for (const { labels, value } of samples) {
+                if (typeof value === 'number') {
+                    const suffix = definition.type === 'counter' ? '_total' : '';
+                    lines.push(`${name}${suffix}${formatLabels(labels)} ${formatNumber(value)}`);
+                    continue;
+                }
+                let cumulative = 0;
+                value.counts.forEach((count, i) => {
+                    cumulative += count;
+                    lines.push(`${name}_bucket${formatLabels({ ...labels, le: formatBound(value.bounds[i] ?? Infinity) })} ${cumulative}`);
+                });
+                lines.push(`${name}_count${formatLabels(labels)} ${cumulative}`);
+                lines.push(`${name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`);
+            }
+        }
+        lines.push('# EOF');
+        return lines.join('\n') + '\n';
+    }
+}
+
+export const metricsRegistry = new MetricsRegistry();
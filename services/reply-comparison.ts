@@ -0,0 +1,101 @@
+import { type GauntletResults, type ReplyStrategy, type Scores } from '../types';
+
+export const MIN_COMPARED_REPLIES = 2;
+export const MAX_COMPARED_REPLIES = 4;
+
+export type ReplyVariantId = 'primary' | 'A' | 'B';
+
+/**
+ * One text that can be put in a comparison column: a strategy's Control reply or
+ * one of its A/B variants. Variants share their strategy's scores and Gauntlet.
+ */
+export interface ComparedReply {
+    key: string; // `${strategyIndex}:${variant}`
+    strategyIndex: number;
+    strategy: ReplyStrategy;
+    variant: ReplyVariantId;
+    text: string;
+    weightedLength: number;
+    predictedConversion?: number; // A/B variants only
+}
+
+export const SCORE_LABELS: { key: keyof Scores; label: string }[] = [
+    { key: 'algorithmScore', label: 'Algorithm' },
+    { key: 'hook', label: 'Hook' },
+    { key: 'intellectualDepth', label: 'Depth' },
+    { key: 'authority', label: 'Authority' },
+    { key: 'emotionalImpact', label: 'Emotion' },
+    { key: 'wealthFit', label: 'Wealth Fit' },
+    { key: 'viralPotential', label: 'Viral' },
+    { key: 'authenticity', label: 'Authenticity' },
+    { key: 'memorability', label: 'Memorability' },
+    { key: 'networkEffect', label: 'Network' },
+    { key: 'timingOptimal', label: 'Timing' },
+    { key: 'graphJetRelevance', label: 'GraphJet' },
+];
+
+type GauntletCheck = Exclude<keyof GauntletResults, 'noteHelpfulnessPrediction' | 'sanctum'>;
+
+const GAUNTLET_LABELS: { key: GauntletCheck; label: string }[] = [
+    { key: 'novelty', label: 'Novelty' },
+    { key: 'impact', label: 'Impact' },
+    { key: 'quality', label: 'Quality' },
+    { key: 'authorReply', label: 'Author Reply' },
+    { key: 'brandSafety', label: 'Brand Safety' },
+    { key: 'contextualRelevance', label: 'Contextual Relevance' },
+    { key: 'scalabilityPotential', label: 'Scalability' },
+    { key: 'communityNotesSafe', label: 'Community Notes Safety' },
+];
+
+export const replyKey = (strategyIndex: number, variant: ReplyVariantId) => `${strategyIndex}:${variant}`;
+
+export const variantLabel = (variant: ReplyVariantId) => (variant === 'primary' ? 'Control' : `Var ${variant}`);
+
+/**
+ * Every text the strategies offer, in card order: each Control followed by its variants.
+ */
+export function listComparableReplies(strategies: ReplyStrategy[]): ComparedReply[] {
+    return strategies.flatMap((strategy, strategyIndex) => {
+        const replies: ComparedReply[] = [{
+            key: replyKey(strategyIndex, 'primary'),
+            strategyIndex,
+            strategy,
+            variant: 'primary',
+            text: strategy.replyText,
+            weightedLength: strategy.weightedLength,
+        }];
+        for (const variant of strategy.abVariants ?? []) {
+            replies.push({
+                key: replyKey(strategyIndex, variant.id),
+                strategyIndex,
+                strategy,
+                variant: variant.id,
+                text: variant.text,
+                weightedLength: variant.weightedLength,
+                predictedConversion: variant.predictedConversion,
+            });
+        }
+        return replies;
+    });
+}
+
+/**
+ * What to compare when the view opens: the recommended strategy's Control against
+ * its variants if it has any, otherwise the two best strategies.
+ */
+export function defaultComparisonKeys(strategies: ReplyStrategy[]): string[] {
+    if (strategies[0]?.abVariants?.length) return listComparableReplies(strategies.slice(0, 1)).map(r => r.key);
+    return strategies.slice(0, MIN_COMPARED_REPLIES).map((_, i) => replyKey(i, 'primary'));
+}
+
+/**
+ * Pass/fail for each Gauntlet check across the compared replies, with the checks
+ * they disagree on first. Sanctum counts as a pass when it judged the reply safe.
+ */
+export function compareGauntlet(replies: ComparedReply[]): { label: string; results: boolean[]; differs: boolean }[] {
+    const checks = [
+        { label: 'Sanctum Protocol', results: replies.map(r => r.strategy.gauntletResults?.sanctum?.isSafe ?? true) },
+        ...GAUNTLET_LABELS.map(({ key, label }) => ({ label, results: replies.map(r => !!r.strategy.gauntletResults?.[key]) })),
+    ].map(check => ({ ...check, differs: new Set(check.results).size > 1 }));
+    return [...checks.filter(c => c.differs), ...checks.filter(c => !c.differs)];
+}
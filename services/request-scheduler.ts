@@ -0,0 +1,248 @@
+import { createAbortError, throwIfAborted } from './abort';
+
+/**
+ * Scheduling lanes, highest priority first. A queued interactive request always
+ * starts before any queued automation or batch request.
+ */
+export type RequestPriority = 'interactive' | 'automation' | 'batch';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = ['interactive', 'automation', 'batch'];
+
+export interface ModelRateLimit {
+    maxRequests: number;
+    windowMs: number;
+}
+
+/**
+ * Per-model sliding-window limits. Models not listed fall back to `default`.
+ */
+export const MODEL_RATE_LIMITS: Record<string, ModelRateLimit> = {
+    'gemini-2.5-pro': { maxRequests: 60, windowMs: 60000 },
+    'gemini-2.5-flash': { maxRequests: 120, windowMs: 60000 },
+    default: { maxRequests: 60, windowMs: 60000 },
+};
+
+export interface LaneStatus {
+    queued: number;
+    etaMs: number; // estimated wait before the last queued request in this lane starts
+}
+
+export interface ModelStatus {
+    used: number;
+    limit: number;
+    remaining: number;
+    resetTime: number;
+}
+
+export interface SchedulerStatus {
+    running: number;
+    maxConcurrent: number;
+    queued: number;
+    lanes: Record<RequestPriority, LaneStatus>;
+    models: Record<string, ModelStatus>;
+    averageDurationMs: number;
+}
+
+interface QueuedJob {
+    model: string;
+    priority: RequestPriority;
+    start: () => void;
+    cancel: () => void;
+}
+
+/**
+ * Queueing rate limiter. Requests wait in priority lanes until both a concurrency
+ * slot and a slot in their model's rate window are free, instead of failing when
+ * the budget is spent.
+ */
+export class RequestScheduler {
+    private lanes: Record<RequestPriority, QueuedJob[]> = { interactive: [], automation: [], batch: [] };
+    private history = new Map<string, number[]>();
+    private running = 0;
+    private averageDurationMs = 2000;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private listeners = new Set<(status: SchedulerStatus) => void>();
+    private readonly maxConcurrent: number;
+    private readonly limits: Record<string, ModelRateLimit>;
+
+    constructor(options: { maxConcurrent?: number; limits?: Record<string, ModelRateLimit> } = {}) {
+        this.maxConcurrent = options.maxConcurrent ?? 4;
+        this.limits = { ...MODEL_RATE_LIMITS, ...options.limits };
+    }
+
+    /**
+     * Runs `task` once it reaches the front of its lane and capacity is available.
+     * Aborting `signal` while queued removes the request without using a slot.
+     */
+    schedule<T>(
+        task: () => Promise<T>,
+        options: { model: string; priority?: RequestPriority; signal?: AbortSignal }
+    ): Promise<T> {
+        const { model, priority = 'interactive', signal } = options;
+        throwIfAborted(signal);
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => job.cancel();
+            const job: QueuedJob = {
+                model,
+                priority,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    const startedAt = Date.now();
+                    this.running++;
+                    this.recordStart(model, startedAt);
+                    task().then(resolve, reject).finally(() => {
+                        this.running--;
+                        this.averageDurationMs = this.averageDurationMs * 0.8 + (Date.now() - startedAt) * 0.2;
+                        this.pump();
+                    });
+                },
+                cancel: () => {
+                    const lane = this.lanes[priority];
+                    const index = lane.indexOf(job);
+                    if (index === -1) return;
+                    lane.splice(index, 1);
+                    reject(createAbortError('Request removed from queue'));
+                    this.pump();
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.lanes[priority].push(job);
+            this.pump();
+        });
+    }
+
+    getStatus(): SchedulerStatus {
+        const now = Date.now();
+        const models: Record<string, ModelStatus> = {};
+        const knownModels = new Set([...Object.keys(this.limits).filter(m => m !== 'default'), ...this.history.keys()]);
+        for (const model of knownModels) {
+            const limit = this.limitFor(model);
+            const recent = this.windowFor(model, now);
+            models[model] = {
+                used: recent.length,
+                limit: limit.maxRequests,
+                remaining: Math.max(0, limit.maxRequests - recent.length),
+                resetTime: recent.length > 0 ? recent[0] + limit.windowMs : now,
+            };
+        }
+
+        const etas = this.estimateStartTimes(now);
+        const lanes = {} as Record<RequestPriority, LaneStatus>;
+        for (const priority of REQUEST_PRIORITIES) {
+            const queue = this.lanes[priority];
+            const last = queue[queue.length - 1];
+            lanes[priority] = { queued: queue.length, etaMs: last ? Math.max(0, (etas.get(last) ?? now) - now) : 0 };
+        }
+
+        return {
+            running: this.running,
+            maxConcurrent: this.maxConcurrent,
+            queued: REQUEST_PRIORITIES.reduce((sum, p) => sum + this.lanes[p].length, 0),
+            lanes,
+            models,
+            averageDurationMs: Math.round(this.averageDurationMs),
+        };
+    }
+
+    /**
+     * Notified whenever a request is queued, started, finished or cancelled.
+     */
+    subscribe(listener: (status: SchedulerStatus) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private pump(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const now = Date.now();
+        let nextWakeAt = Infinity;
+        // Models whose rate window is full; lower lanes may still use other models
+        const blocked = new Set<string>();
+
+        for (const priority of REQUEST_PRIORITIES) {
+            const lane = this.lanes[priority];
+            for (let i = 0; i < lane.length && this.running < this.maxConcurrent; ) {
+                const job = lane[i];
+                if (blocked.has(job.model)) {
+                    i++;
+                    continue;
+                }
+                const limit = this.limitFor(job.model);
+                const recent = this.windowFor(job.model, now);
+                if (recent.length >= limit.maxRequests) {
+                    blocked.add(job.model);
+                    nextWakeAt = Math.min(nextWakeAt, recent[0] + limit.windowMs);
+                    i++;
+                    continue;
+                }
+                lane.splice(i, 1);
+                job.start();
+            }
+        }
+
+        if (nextWakeAt !== Infinity) {
+            this.timer = setTimeout(() => this.pump(), Math.max(0, nextWakeAt - now) + 5);
+        }
+        this.notify();
+    }
+
+    /**
+     * Simulates the queue forward: each job starts at the later of the next free
+     * concurrency slot (based on average duration) and its model's next window slot.
+     */
+    private estimateStartTimes(now: number): Map<QueuedJob, number> {
+        const etas = new Map<QueuedJob, number>();
+        const slots = Array.from({ length: this.maxConcurrent }, (_, i) =>
+            i < this.running ? now + this.averageDurationMs : now
+        );
+        const windows = new Map<string, number[]>();
+
+        for (const priority of REQUEST_PRIORITIES) {
+            for (const job of this.lanes[priority]) {
+                const limit = this.limitFor(job.model);
+                if (!windows.has(job.model)) windows.set(job.model, [...this.windowFor(job.model, now)]);
+                const recent = windows.get(job.model)!;
+
+                slots.sort((a, b) => a - b);
+                let start = slots[0];
+                if (recent.length >= limit.maxRequests) {
+                    start = Math.max(start, recent[recent.length - limit.maxRequests] + limit.windowMs);
+                }
+                recent.push(start);
+                slots[0] = start + this.averageDurationMs;
+                etas.set(job, start);
+            }
+        }
+        return etas;
+    }
+
+    private limitFor(model: string): ModelRateLimit {
+        return this.limits[model] ?? this.limits.default;
+    }
+
+    private windowFor(model: string, now: number): number[] {
+        const { windowMs } = this.limitFor(model);
+        const recent = (this.history.get(model) ?? []).filter(t => now - t < windowMs);
+        this.history.set(model, recent);
+        return recent;
+    }
+
+    private recordStart(model: string, timestamp: number): void {
+        const recent = this.history.get(model) ?? [];
+        recent.push(timestamp);
+        this.history.set(model, recent);
+    }
+
+    private notify(): void {
+        if (this.listeners.size === 0) return;
+        const status = this.getStatus();
+        for (const listener of this.listeners) listener(status);
+    }
+}
@@ -0,0 +1,281 @@
+import { deleteWhere, openDatabase, trimStore, withStore } from './idb';
+
+export type CacheNamespace = 'replies' | 'documents';
+
+/**
+ * Per-namespace TTLs. Reply analyses go stale as a post's engagement moves; documents don't.
+ */
+export const CACHE_NAMESPACE_TTLS: Record<CacheNamespace, number> = {
+    replies: 6 * 60 * 60 * 1000,        // 6 hours
+    documents: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+interface CacheRecord {
+    key: string;
+    namespace: CacheNamespace;
+    label: string;
+    data: unknown;
+    createdAt: number;
+    expires: number;
+    lastAccess: number;
+    sizeBytes: number;
+}
+
+export interface CacheEntrySummary {
+    key: string;
+    namespace: CacheNamespace;
+    label: string;
+    createdAt: number;
+    expires: number;
+    lastAccess: number;
+    sizeBytes: number;
+    inMemory: boolean;
+}
+
+export interface CacheStats {
+    size: number; // entries in the memory tier (kept for the existing UI)
+    maxMemoryEntries: number;
+    persistentSize: number;
+    maxPersistentEntries: number;
+    persistentAvailable: boolean;
+    hits: number;
+    memoryHits: number;
+    persistentHits: number;
+    misses: number;
+    evictions: number;
+    expirations: number;
+    hitRate: number;
+    namespaces: Record<CacheNamespace, { hits: number; misses: number }>;
+}
+
+const DB_NAME = 'apex-response-cache';
+const STORE = 'entries';
+
+// A prune walks the whole store for expired entries, so writes only trigger one this often (or when over the cap)
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+function namespaceOf(key: string): CacheNamespace {
+    return key.startsWith('documents:') ? 'documents' : 'replies';
+}
+
+/**
+ * Two-tier response cache: a bounded LRU in memory in front of an IndexedDB store
+ * that survives reloads. Writes go to both tiers; reads promote persistent hits
+ * back into memory.
+ */
+export class TieredResponseCache {
+    private memory = new Map<string, CacheRecord>();
+    private readonly maxMemoryEntries: number;
+    private readonly maxPersistentEntries: number;
+    private db: Promise<IDBDatabase | null>;
+    private persistentAvailable = false;
+    private persistentSize = 0;
+    private lastPrune = 0;
+
+    private counters = {
+        memoryHits: 0,
+        persistentHits: 0,
+        misses: 0,
+        evictions: 0,
+        expirations: 0,
+        namespaces: {
+            replies: { hits: 0, misses: 0 },
+            documents: { hits: 0, misses: 0 },
+        } as Record<CacheNamespace, { hits: number; misses: number }>,
+    };
+
+    constructor(options: { maxMemoryEntries?: number; maxPersistentEntries?: number } = {}) {
+        this.maxMemoryEntries = options.maxMemoryEntries ?? 100;
+        this.maxPersistentEntries = options.maxPersistentEntries ?? 500;
+        this.db = openDatabase(DB_NAME, 1, db => {
+            const store = db.createObjectStore(STORE, { keyPath: 'key' });
+            store.createIndex('lastAccess', 'lastAccess');
+        });
+        this.db.then(db => {
+            this.persistentAvailable = db !== null;
+            return this.prunePersistent();
+        }).catch(err => console.warn('Cache persistence disabled:', err));
+    }
+
+    /**
+     * The cached value, typed by the caller: a key's namespace and shape decide what it holds.
+     */
+    async get<T>(key: string): Promise<T | null> {
+        const namespace = namespaceOf(key);
+        const now = Date.now();
+
+        const memoryItem = this.memory.get(key);
+        if (memoryItem) {
+            if (now > memoryItem.expires) {
+                this.counters.expirations++;
+                await this.delete(key);
+            } else {
+                // Re-insert to mark as most recently used
+                this.memory.delete(key);
+                memoryItem.lastAccess = now;
+                this.memory.set(key, memoryItem);
+                this.counters.memoryHits++;
+                this.counters.namespaces[namespace].hits++;
+                return memoryItem.data as T;
+            }
+        }
+
+        const persisted = await this.readPersistent(key);
+        if (persisted) {
+            if (now > persisted.expires) {
+                this.counters.expirations++;
+                await this.delete(key);
+            } else {
+                persisted.lastAccess = now;
+                this.setMemory(persisted);
+                this.writePersistent(persisted);
+                this.counters.persistentHits++;
+                this.counters.namespaces[namespace].hits++;
+                return persisted.data as T;
+            }
+        }
+
+        this.counters.misses++;
+        this.counters.namespaces[namespace].misses++;
+        return null;
+    }
+
+    async set<T>(key: string, data: T, options: { label?: string; ttl?: number } = {}): Promise<void> {
+        const namespace = namespaceOf(key);
+        const now = Date.now();
+        const record: CacheRecord = {
+            key,
+            namespace,
+            label: options.label ?? key.slice(0, 48),
+            data,
+            createdAt: now,
+            expires: now + (options.ttl ?? CACHE_NAMESPACE_TTLS[namespace]),
+            lastAccess: now,
+            sizeBytes: JSON.stringify(data).length,
+        };
+        this.setMemory(record);
+        await this.writePersistent(record);
+        // Persistence is best-effort: a failing store must not turn a paid-for response into an error
+        try {
+            await this.refreshPersistentSize();
+            if (this.persistentSize > this.maxPersistentEntries || now - this.lastPrune >= PRUNE_INTERVAL_MS) {
+                await this.prunePersistent();
+            }
+        } catch (err) {
+            console.warn('Cache prune failed:', err);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.memory.delete(key);
+        const db = await this.db;
+        if (!db) return;
+        try {
+            await withStore(db, STORE, 'readwrite', store => store.delete(key));
+            await this.refreshPersistentSize();
+        } catch (err) {
+            console.warn('Cache delete failed:', err);
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.memory.clear();
+        const db = await this.db;
+        if (!db) return;
+        try {
+            await withStore(db, STORE, 'readwrite', store => store.clear());
+            this.persistentSize = 0;
+        } catch (err) {
+            console.warn('Cache clear failed:', err);
+        }
+    }
+
+    /**
+     * All live entries across both tiers, most recently used first.
+     */
+    async listEntries(): Promise<CacheEntrySummary[]> {
+        const records = new Map<string, CacheRecord>();
+        const db = await this.db;
+        if (db) {
+            const persisted = await withStore<CacheRecord[]>(db, STORE, 'readonly', store => store.getAll());
+            for (const record of persisted) records.set(record.key, record);
+        }
+        for (const record of this.memory.values()) records.set(record.key, record);
+
+        const now = Date.now();
+        return [...records.values()]
+            .filter(r => r.expires > now)
+            .sort((a, b) => b.lastAccess - a.lastAccess)
+            .map(({ data, ...summary }) => ({ ...summary, inMemory: this.memory.has(summary.key) }));
+    }
+
+    getStats(): CacheStats {
+        const { memoryHits, persistentHits, misses, evictions, expirations, namespaces } = this.counters;
+        const hits = memoryHits + persistentHits;
+        return {
+            size: this.memory.size,
+            maxMemoryEntries: this.maxMemoryEntries,
+            persistentSize: this.persistentSize,
+            maxPersistentEntries: this.maxPersistentEntries,
+            persistentAvailable: this.persistentAvailable,
+            hits,
+            memoryHits,
+            persistentHits,
+            misses,
+            evictions,
+            expirations,
+            hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+            namespaces,
+        };
+    }
+
+    private setMemory(record: CacheRecord): void {
+        this.memory.delete(record.key);
+        this.memory.set(record.key, record);
+        while (this.memory.size > this.maxMemoryEntries) {
+            // Map iteration order is insertion order, so the first key is least recently used
+            const oldest = this.memory.keys().next().value as string;
+            this.memory.delete(oldest);
+            this.counters.evictions++;
+        }
+    }
+
+    private async readPersistent(key: string): Promise<CacheRecord | undefined> {
+        const db = await this.db;
+        if (!db) return undefined;
+        try {
+            return await withStore<CacheRecord | undefined>(db, STORE, 'readonly', store => store.get(key));
+        } catch (err) {
+            console.warn('Cache read failed:', err);
+            return undefined;
+        }
+    }
+
+    private async writePersistent(record: CacheRecord): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+        try {
+            await withStore(db, STORE, 'readwrite', store => store.put(record));
+        } catch (err) {
+            console.warn('Cache write failed:', err);
+        }
+    }
+
+    /**
+     * Drops expired records, then least recently used ones beyond the persistent cap.
+     */
+    private async prunePersistent(): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+        const now = Date.now();
+        this.lastPrune = now;
+        this.counters.expirations += await deleteWhere<CacheRecord>(db, STORE, record => record.expires <= now);
+        this.counters.evictions += await trimStore(db, STORE, 'lastAccess', this.maxPersistentEntries);
+        await this.refreshPersistentSize();
+    }
+
+    private async refreshPersistentSize(): Promise<void> {
+        const db = await this.db;
+        if (db) this.persistentSize = await withStore<number>(db, STORE, 'readonly', store => store.count());
+    }
+}
@@ -0,0 +1,204 @@
+import { Type, type Schema } from "@google/genai";
+import { type ValidationWarning } from '../types';
+
+export interface ValidationIssue extends ValidationWarning {
+    /** Errors could not be coerced and need a repair pass; warnings were fixed in place. */
+    severity: 'error' | 'warning';
+}
+
+export interface ValidationResult<T = unknown> {
+    value: T;
+    issues: ValidationIssue[];
+}
+
+const normalizeToken = (s: string) => s.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+function joinPath(base: string, key: string | number): string {
+    if (typeof key === 'number') return `${base}[${key}]`;
+    return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Strips markdown code fences and parses model output as JSON.
+ * Returns undefined (not throws) on failure so the caller can issue a repair.
+ */
+export function parseModelJson(text: string): unknown {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Validates a parsed model response against the Gemini response schema it was
+ * requested with. Recoverable problems (numeric strings, out-of-range scores,
+ * percentages where a probability was expected, enum casing, oversized arrays)
+ * are coerced and reported as warnings. Anything else is reported as an error.
+ */
+export function validateAgainstSchema<T = unknown>(value: unknown, schema: Schema, path: string = ''): ValidationResult<T> {
+    const issues: ValidationIssue[] = [];
+    const result = validateNode(value, schema, path, issues);
+    return { value: result as T, issues };
+}
+
+function validateNode(value: unknown, schema: Schema, path: string, issues: ValidationIssue[]): unknown {
+    const warn = (message: string) => issues.push({ path, message, severity: 'warning' });
+    const fail = (message: string) => issues.push({ path, message, severity: 'error' });
+
+    if (value === undefined || value === null) {
+        if (schema.nullable) return value;
+        fail('Missing value');
+        return value;
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                fail(`Expected object, got ${Array.isArray(value) ? 'array' : typeof value}`);
+                return value;
+            }
+            const input = value as Record<string, unknown>;
+            const output: Record<string, unknown> = { ...input };
+            const required = new Set(schema.required ?? []);
+            for (const [key, child] of Object.entries(schema.properties ?? {})) {
+                const childPath = joinPath(path, key);
+                if (input[key] === undefined || input[key] === null) {
+                    if (required.has(key)) issues.push({ path: childPath, message: 'Missing required field', severity: 'error' });
+                    continue;
+                }
+                output[key] = validateNode(input[key], child, childPath, issues);
+            }
+            return output;
+        }
+
+        case Type.ARRAY: {
+            let items: unknown[];
+            if (Array.isArray(value)) {
+                items = value;
+            } else {
+                warn('Expected array, wrapped single value');
+                items = [value];
+            }
+            const maxItems = schema.maxItems !== undefined ? Number(schema.maxItems) : undefined;
+            const minItems = schema.minItems !== undefined ? Number(schema.minItems) : undefined;
+            if (maxItems !== undefined && items.length > maxItems) {
+                warn(`Expected at most ${maxItems} items, truncated from ${items.length}`);
+                items = items.slice(0, maxItems);
+            }
+            if (minItems !== undefined && items.length < minItems) {
+                fail(`Expected at least ${minItems} items, got ${items.length}`);
+            }
+            return schema.items ? items.map((item, i) => validateNode(item, schema.items!, joinPath(path, i), issues)) : items;
+        }
+
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            let num: number;
+            if (typeof value === 'number') {
+                num = value;
+            } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(parseFloat(value))) {
+                num = parseFloat(value);
+                warn(`Coerced string "${value}" to number`);
+            } else {
+                fail(`Expected number, got ${JSON.stringify(value)}`);
+                return value;
+            }
+            if (!Number.isFinite(num)) {
+                fail('Expected a finite number');
+                return value;
+            }
+            const { minimum, maximum } = schema;
+            // Probabilities are frequently returned as percentages (e.g. 42 instead of 0.42)
+            if (maximum === 1 && (minimum ?? 0) === 0 && num > 1 && num <= 100) {
+                warn(`Rescaled percentage ${num} to probability ${num / 100}`);
+                num = num / 100;
+            }
+            if (minimum !== undefined && num < minimum) {
+                warn(`Clamped ${num} to minimum ${minimum}`);
+                num = minimum;
+            }
+            if (maximum !== undefined && num > maximum) {
+                warn(`Clamped ${num} to maximum ${maximum}`);
+                num = maximum;
+            }
+            if (schema.type === Type.INTEGER && !Number.isInteger(num)) {
+                num = Math.round(num);
+            }
+            return num;
+        }
+
+        case Type.BOOLEAN: {
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 1) { warn('Coerced to boolean true'); return true; }
+            if (value === 'false' || value === 0) { warn('Coerced to boolean false'); return false; }
+            fail(`Expected boolean, got ${JSON.stringify(value)}`);
+            return value;
+        }
+
+        case Type.STRING:
+        default: {
+            let str: string;
+            if (typeof value === 'string') {
+                str = value;
+            } else if (typeof value === 'number' || typeof value === 'boolean') {
+                str = String(value);
+                warn(`Coerced ${typeof value} to string`);
+            } else {
+                fail(`Expected string, got ${typeof value}`);
+                return value;
+            }
+            if (schema.enum && schema.enum.length > 0 && !schema.enum.includes(str)) {
+                const match = schema.enum.find(option => normalizeToken(option) === normalizeToken(str));
+                if (match) {
+                    warn(`Normalized "${str}" to "${match}"`);
+                    return match;
+                }
+                fail(`"${str}" is not one of: ${schema.enum.join(', ')}`);
+            }
+            return str;
+        }
+    }
+}
+
+export const errorsOf = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'error');
+export const warningsOf = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'warning');
+
+/**
+ * Builds a targeted re-prompt asking the model to fix only the broken fields.
+ */
+export function buildRepairPrompt(rawText: string, errors: ValidationIssue[]): string {
+    const list = errors.map(e => `- ${e.path || '(root)'}: ${e.message}`).join('\n');
+    return `Your previous JSON response failed schema validation.
+
+INVALID FIELDS:
+${list}
+
+PREVIOUS RESPONSE:
+"""${rawText}"""
+
+Return the complete JSON object again, correcting ONLY the invalid fields listed above.
+Keep every other field exactly as it was. Use only the allowed enum values and numeric ranges from the schema.`;
+}
+
+/**
+ * Splits issues under an array prefix (e.g. "strategies") by item index,
+ * rewriting paths to be relative to the item.
+ */
+export function groupIssuesByIndex(issues: ValidationIssue[], prefix: string): { byIndex: Map<number, ValidationIssue[]>; rest: ValidationIssue[] } {
+    const byIndex = new Map<number, ValidationIssue[]>();
+    const rest: ValidationIssue[] = [];
+    const pattern = new RegExp(`^${prefix}\\[(\\d+)\\]\\.?`);
+    for (const issue of issues) {
+        const match = issue.path.match(pattern);
+        if (!match) {
+            rest.push(issue);
+            continue;
+        }
+        const index = Number(match[1]);
+        const relative = { ...issue, path: issue.path.slice(match[0].length) };
+        byIndex.set(index, [...(byIndex.get(index) ?? []), relative]);
+    }
+    return { byIndex, rest };
+}
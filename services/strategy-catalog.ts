@@ -0,0 +1,209 @@
+import { type StrategyCategory, type StrategyDefinition } from '../types';
+
+const STORAGE_KEY = 'apex-strategy-catalog';
+
+export const MAX_SELECTED_STRATEGIES = 8;
+
+export const STRATEGY_CATEGORIES: StrategyCategory[] = ['analytical', 'contrarian', 'supportive', 'challenging', 'educational'];
+
+/**
+ * The strategies the reply cards have always known. Their wording can't be edited,
+ * but each can be switched on or off.
+ */
+export const BUILT_IN_STRATEGIES: StrategyDefinition[] = [
+    {
+        id: 'quantitative',
+        name: 'Quantitative Signal',
+        icon: '📊',
+        description: 'Adds a hard number, benchmark or base rate the post is missing.',
+        guidance: 'Lead with one specific, checkable figure (metric, benchmark, base rate) that sharpens or reframes the post. No made-up precision.',
+        category: 'analytical',
+        enabled: true,
+    },
+    {
+        id: 'first-principles',
+        name: 'First Principles',
+        icon: '🎯',
+        description: 'Reduces the claim to the mechanism underneath it.',
+        guidance: 'Strip the claim to its underlying mechanism or constraint and state it in one plain sentence, then the implication.',
+        category: 'educational',
+        enabled: true,
+    },
+    {
+        id: 'institutional',
+        name: 'Institutional',
+        icon: '🏛️',
+        description: 'How large players, regulators or incumbents will respond.',
+        guidance: 'Add the view from incumbents, regulators or large buyers: how they will react and why it matters to the author.',
+        category: 'analytical',
+        enabled: false,
+    },
+    {
+        id: 'contrarian',
+        name: 'Contrarian',
+        icon: '⚡',
+        description: 'A respectful, evidence-backed counter-point.',
+        guidance: 'Disagree with one specific part of the post, respectfully, with a reason or example. Never contrarian for its own sake.',
+        category: 'contrarian',
+        enabled: true,
+    },
+    {
+        id: 'historical',
+        name: 'Historical',
+        icon: '📜',
+        description: 'A precedent that rhymes with the situation.',
+        guidance: 'Connect the post to a concrete historical precedent and say what happened next.',
+        category: 'educational',
+        enabled: false,
+    },
+    {
+        id: 'risk-opportunity',
+        name: 'Risk/Reward',
+        icon: '⚖️',
+        description: 'Weighs the upside against the overlooked risk.',
+        guidance: 'Name the overlooked risk or the overlooked upside and weigh it against the obvious one.',
+        category: 'analytical',
+        enabled: false,
+    },
+    {
+        id: 'predictive',
+        name: 'Predictive',
+        icon: '🔮',
+        description: 'A falsifiable call on what happens next.',
+        guidance: 'Make one concrete, falsifiable prediction that follows from the post, with a rough time frame.',
+        category: 'analytical',
+        enabled: false,
+    },
+    {
+        id: 'surgical',
+        name: 'Surgical',
+        icon: '🔪',
+        description: 'A short, precise question or correction that cuts to the core.',
+        guidance: 'One short, precise question or correction aimed at the weakest or most interesting point. Under 100 characters if possible.',
+        category: 'challenging',
+        enabled: false,
+    },
+    {
+        id: 'lead-lag',
+        name: 'Lead-Lag',
+        icon: '⏱️',
+        description: 'What this signals ahead of the rest of the market.',
+        guidance: 'Point out what this is a leading (or lagging) indicator of, and who will feel it next.',
+        category: 'analytical',
+        enabled: false,
+    },
+    {
+        id: 'memetic',
+        name: 'Memetic Hook',
+        icon: '🔥',
+        description: 'A quotable, witty line that still adds substance.',
+        guidance: 'A witty, quotable line that riffs on the post while still adding a real insight. No empty jokes, no engagement bait.',
+        category: 'supportive',
+        enabled: true,
+    },
+];
+
+// Shown for anything the catalog doesn't know, e.g. strategies in old cached results
+export const FALLBACK_STRATEGY: StrategyDefinition = {
+    id: 'general',
+    name: 'General Strategy',
+    icon: '💡',
+    description: '',
+    guidance: '',
+    category: 'analytical',
+    enabled: false,
+    builtIn: true,
+};
+
+interface StoredCatalog {
+    custom: StrategyDefinition[];
+    enabled: Record<string, boolean>; // on/off overrides for built-in strategies
+}
+
+function readStored(): StoredCatalog {
+    const empty = { custom: [], enabled: {} };
+    if (typeof localStorage === 'undefined') return empty;
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return parsed && Array.isArray(parsed.custom) ? { custom: parsed.custom, enabled: parsed.enabled ?? {} } : empty;
+    } catch (err) {
+        console.warn('Could not read the strategy catalog:', err);
+        return empty;
+    }
+}
+
+function writeStored(catalog: StoredCatalog): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(catalog));
+}
+
+export function loadStrategyCatalog(): StrategyDefinition[] {
+    const { custom, enabled } = readStored();
+    return [
+        ...BUILT_IN_STRATEGIES.map(s => ({ ...s, builtIn: true, enabled: enabled[s.id] ?? s.enabled })),
+        ...custom,
+    ];
+}
+
+export function getEnabledStrategies(catalog: StrategyDefinition[] = loadStrategyCatalog()): StrategyDefinition[] {
+    return catalog.filter(s => s.enabled).slice(0, MAX_SELECTED_STRATEGIES);
+}
+
+/**
+ * Looks up the strategy a reply was written for. Matches ids first, then names,
+ * ignoring case and punctuation, so older results still find their entry.
+ */
+export function findStrategy(catalog: StrategyDefinition[], idOrName: string | undefined): StrategyDefinition {
+    const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+    const wanted = key(idOrName ?? '');
+    if (!wanted) return FALLBACK_STRATEGY;
+    return catalog.find(s => key(s.id) === wanted) ?? catalog.find(s => key(s.name) === wanted) ?? FALLBACK_STRATEGY;
+}
+
+export function createStrategyId(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'strategy';
+    return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Turns a strategy on or off. Returns the updated catalog.
+ */
+export function setStrategyEnabled(id: string, enabled: boolean): StrategyDefinition[] {
+    const stored = readStored();
+    if (BUILT_IN_STRATEGIES.some(s => s.id === id)) {
+        stored.enabled[id] = enabled;
+    } else {
+        stored.custom = stored.custom.map(s => (s.id === id ? { ...s, enabled } : s));
+    }
+    writeStored(stored);
+    return loadStrategyCatalog();
+}
+
+/**
+ * Inserts or replaces a custom strategy by id. Built-in strategies cannot be overwritten.
+ */
+export function saveStrategyDefinition(strategy: StrategyDefinition): StrategyDefinition[] {
+    if (BUILT_IN_STRATEGIES.some(s => s.id === strategy.id)) return loadStrategyCatalog();
+    const stored = readStored();
+    const index = stored.custom.findIndex(s => s.id === strategy.id);
+    if (index === -1) stored.custom.push(strategy);
+    else stored.custom[index] = strategy;
+    writeStored(stored);
+    return loadStrategyCatalog();
+}
+
+export function deleteStrategyDefinition(id: string): StrategyDefinition[] {
+    const stored = readStored();
+    stored.custom = stored.custom.filter(s => s.id !== id);
+    writeStored(stored);
+    return loadStrategyCatalog();
+}
+
+/**
+ * Prompt section listing exactly which strategies to write, in order.
+ */
+export function formatStrategyInstructions(strategies: StrategyDefinition[]): string {
+    return `STRATEGIES TO GENERATE (exactly ${strategies.length}, one each, in this order; set 'strategy' to the id and 'strategyCategory' to the category shown):
+${strategies.map(s => `- ${s.id} — ${s.name} (${s.category}): ${s.guidance || s.description}`).join('\n')}`;
+}
@@ -0,0 +1,261 @@
+// Performance monitoring - Rezolus Architecture
+//
+// Calls are not kept individually. Each one lands in a fixed-width time bucket per
+// operation, which holds counts, error classes and a latency histogram with fixed
+// bounds. Memory is therefore capped at operations × (window / bucket width) ×
+// histogram bins however busy the app gets, and the window can cover a full day.
+// Lifetime totals per operation are kept alongside for the Prometheus export.
+
+import { metricsRegistry } from './metrics-registry';
+
+export type TelemetryOperation = 'generate_content' | 'search' | 'reply' | 'document';
+
+export const TELEMETRY_OPERATIONS: TelemetryOperation[] = ['generate_content', 'search', 'reply', 'document'];
+
+export interface TelemetrySamplingPolicy {
+    windowMs: number; // how far back buckets are kept
+    bucketMs: number; // width of one bucket (and one sparkline point)
+}
+
+export const DEFAULT_SAMPLING_POLICY: TelemetrySamplingPolicy = {
+    windowMs: 24 * 60 * 60 * 1000,
+    bucketMs: 5 * 60 * 1000,
+};
+
+// Upper bounds (ms) of the latency histogram bins; the last bin is open-ended
+export const LATENCY_BOUNDS_MS = [50, 100, 200, 300, 500, 750, 1000, 1500, 2000, 3000, 5000, 7500, 10000, 15000, 20000, 30000, 60000, 120000];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Bucket {
+    start: number;
+    count: number;
+    failures: number;
+    histogram: number[]; // LATENCY_BOUNDS_MS.length + 1 bins
+    maxDuration: number;
+    errorClasses: Record<string, number>;
+}
+
+export interface HistogramBin {
+    le: number; // upper bound in ms, Infinity for the last bin
+    count: number;
+}
+
+export interface TimeSeriesPoint {
+    start: number;
+    count: number;
+    failures: number;
+    p90: number;
+}
+
+export interface OperationStats {
+    operation: string;
+    count: number;
+    failures: number;
+    successRate: number;
+    errorRate: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    histogram: HistogramBin[];
+    errorClasses: Record<string, number>;
+    series: TimeSeriesPoint[]; // one point per bucket across the whole retained window, oldest first
+}
+
+export interface TelemetrySnapshot {
+    // Summary over the requested window, kept flat for existing consumers
+    totalOperations: number;
+    successRate: number;
+    errorRate: number;
+    p99Latency: number;
+    windowMs: number;
+    policy: TelemetrySamplingPolicy;
+    operations: OperationStats[];
+}
+
+// Since startup; never reset, so they can be exported as counters
+export interface OperationTotals {
+    operation: string;
+    count: number;
+    durationSumMs: number;
+    histogram: number[]; // per bin, LATENCY_BOUNDS_MS.length + 1 bins
+    errorClasses: Record<string, number>;
+}
+
+export interface OperationTimer {
+    succeed(): void;
+    fail(errorClass: string): void;
+}
+
+const binIndex = (duration: number) => {
+    const index = LATENCY_BOUNDS_MS.findIndex(bound => duration <= bound);
+    return index === -1 ? LATENCY_BOUNDS_MS.length : index;
+};
+
+/**
+ * Estimates a percentile from histogram bins by interpolating linearly inside the
+ * bin it falls in. The open-ended bin is capped at the largest duration seen.
+ */
+export function histogramPercentile(histogram: number[], percentile: number, maxDuration: number): number {
+    const total = histogram.reduce((sum, n) => sum + n, 0);
+    if (total === 0) return 0;
+    const rank = percentile * total;
+    let seen = 0;
+    for (let i = 0; i < histogram.length; i++) {
+        if (histogram[i] === 0) continue;
+        if (seen + histogram[i] >= rank) {
+            const lower = i === 0 ? 0 : LATENCY_BOUNDS_MS[i - 1];
+            const upper = Math.min(LATENCY_BOUNDS_MS[i] ?? maxDuration, maxDuration);
+            return Math.round(lower + (Math.max(upper, lower) - lower) * ((rank - seen) / histogram[i]));
+        }
+        seen += histogram[i];
+    }
+    return maxDuration;
+}
+
+function mergeBuckets(buckets: Bucket[]): Omit<Bucket, 'start'> {
+    const merged = { count: 0, failures: 0, histogram: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0), maxDuration: 0, errorClasses: {} as Record<string, number> };
+    for (const bucket of buckets) {
+        merged.count += bucket.count;
+        merged.failures += bucket.failures;
+        merged.maxDuration = Math.max(merged.maxDuration, bucket.maxDuration);
+        bucket.histogram.forEach((n, i) => { merged.histogram[i] += n; });
+        for (const [errorClass, n] of Object.entries(bucket.errorClasses)) {
+            merged.errorClasses[errorClass] = (merged.errorClasses[errorClass] ?? 0) + n;
+        }
+    }
+    return merged;
+}
+
+export class RezolusTelemetry {
+    private buckets = new Map<string, Bucket[]>(); // per operation, oldest first
+    private totals = new Map<string, OperationTotals>();
+    private readonly policy: TelemetrySamplingPolicy;
+
+    constructor(policy: Partial<TelemetrySamplingPolicy> = {}) {
+        this.policy = { ...DEFAULT_SAMPLING_POLICY, ...policy };
+    }
+
+    /**
+     * Times one call. Failures keep their real duration so slow timeouts show up in the latency.
+     */
+    startTimer(operation: TelemetryOperation | string): OperationTimer {
+        const start = Date.now();
+        let done = false;
+        const finish = (errorClass?: string) => {
+            if (done) return;
+            done = true;
+            this.record(operation, Date.now() - start, errorClass);
+        };
+        return { succeed: () => finish(), fail: errorClass => finish(errorClass || 'UNKNOWN') };
+    }
+
+    record(operation: string, duration: number, errorClass?: string, timestamp = Date.now()): void {
+        const totals = this.totals.get(operation) ?? { operation, count: 0, durationSumMs: 0, histogram: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0), errorClasses: {} };
+        this.totals.set(operation, totals);
+        totals.count++;
+        totals.durationSumMs += duration;
+        totals.histogram[binIndex(duration)]++;
+        if (errorClass) totals.errorClasses[errorClass] = (totals.errorClasses[errorClass] ?? 0) + 1;
+
+        const buckets = this.buckets.get(operation) ?? [];
+        this.buckets.set(operation, buckets);
+
+        const start = timestamp - (timestamp % this.policy.bucketMs);
+        // Almost always the newest bucket; late arrivals are slotted in to keep the order
+        let index = buckets.length;
+        while (index > 0 && buckets[index - 1].start > start) index--;
+        let bucket = buckets[index - 1];
+        if (!bucket || bucket.start !== start) {
+            bucket = { start, count: 0, failures: 0, histogram: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0), maxDuration: 0, errorClasses: {} };
+            buckets.splice(index, 0, bucket);
+        }
+        bucket.count++;
+        bucket.histogram[binIndex(duration)]++;
+        bucket.maxDuration = Math.max(bucket.maxDuration, duration);
+        if (errorClass) {
+            bucket.failures++;
+            bucket.errorClasses[errorClass] = (bucket.errorClasses[errorClass] ?? 0) + 1;
+        }
+        this.prune(timestamp);
+    }
+
+    /**
+     * Per-operation breakdown over the last `windowMs` (an hour by default), plus a
+     * time series spanning the whole retained window for sparklines.
+     */
+    getMetrics(options: { windowMs?: number; now?: number } = {}): TelemetrySnapshot {
+        const { windowMs = HOUR_MS, now = Date.now() } = options;
+        this.prune(now);
+        const { bucketMs } = this.policy;
+        const seriesStart = now - (now % bucketMs) - this.policy.windowMs + bucketMs;
+
+        const operations = [...new Set([...TELEMETRY_OPERATIONS, ...this.buckets.keys()])].map(operation => {
+            const buckets = this.buckets.get(operation) ?? [];
+            const recent = mergeBuckets(buckets.filter(b => b.start + bucketMs > now - windowMs));
+            const byStart = new Map(buckets.map(b => [b.start, b]));
+            const series: TimeSeriesPoint[] = [];
+            for (let start = seriesStart; start <= now; start += bucketMs) {
+                const bucket = byStart.get(start);
+                series.push({
+                    start,
+                    count: bucket?.count ?? 0,
+                    failures: bucket?.failures ?? 0,
+                    p90: bucket ? histogramPercentile(bucket.histogram, 0.9, bucket.maxDuration) : 0,
+                });
+            }
+            return {
+                operation,
+                count: recent.count,
+                failures: recent.failures,
+                successRate: recent.count ? (recent.count - recent.failures) / recent.count : 1,
+                errorRate: recent.count ? recent.failures / recent.count : 0,
+                p50: histogramPercentile(recent.histogram, 0.5, recent.maxDuration),
+                p90: histogramPercentile(recent.histogram, 0.9, recent.maxDuration),
+                p99: histogramPercentile(recent.histogram, 0.99, recent.maxDuration),
+                histogram: recent.histogram.map((count, i) => ({ le: LATENCY_BOUNDS_MS[i] ?? Infinity, count })),
+                errorClasses: recent.errorClasses,
+                series,
+            };
+        });
+
+        const all = mergeBuckets([...this.buckets.values()].flat().filter(b => b.start + bucketMs > now - windowMs));
+        return {
+            totalOperations: all.count,
+            successRate: all.count ? (all.count - all.failures) / all.count : 1,
+            errorRate: all.count ? all.failures / all.count : 0,
+            p99Latency: histogramPercentile(all.histogram, 0.99, all.maxDuration),
+            windowMs,
+            policy: this.policy,
+            operations,
+        };
+    }
+
+    getTotals(): OperationTotals[] {
+        return [...this.totals.values()];
+    }
+
+    private prune(now: number): void {
+        const oldest = now - this.policy.windowMs;
+        for (const [operation, buckets] of this.buckets) {
+            const firstKept = buckets.findIndex(b => b.start + this.policy.bucketMs > oldest);
+            if (firstKept === -1) this.buckets.delete(operation);
+            else if (firstKept > 0) buckets.splice(0, firstKept);
+        }
+    }
+}
+
+export const telemetry = new RezolusTelemetry();
+
+metricsRegistry.register('telemetry', metrics => {
+    for (const { operation, durationSumMs, histogram, errorClasses } of telemetry.getTotals()) {
+        metrics.histogram('apex_operation_duration_seconds', { operation }, {
+            bounds: LATENCY_BOUNDS_MS.map(ms => ms / 1000),
+            counts: histogram,
+            sum: durationSumMs / 1000,
+        });
+        for (const [errorClass, count] of Object.entries(errorClasses)) {
+            metrics.counter('apex_operation_errors', { operation, error_class: errorClass }, count);
+        }
+    }
+});
@@ -0,0 +1,127 @@
+import { type TextDiffSegment } from '../types';
+
+type Edit = { type: TextDiffSegment['type']; aIndex: number; bIndex: number };
+
+/**
+ * Myers' O((N+M)D) shortest edit script. Cheap when the inputs are mostly the
+ * same, which is the common case for document revisions. Gives up (returning
+ * null) past `maxEdits` so two unrelated documents can't stall the UI.
+ */
+function myers<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean, maxEdits: number): Edit[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, maxEdits);
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    // trace[d] holds diagonals -d-1..d+1 as they were before step d
+    const trace: number[][] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && equals(a[x], b[y])) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrack(trace, n, m);
+        }
+    }
+    return null;
+}
+
+function backtrack(trace: number[][], n: number, m: number): Edit[] {
+    const edits: Edit[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const at = (k: number) => trace[d][k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
+        while (x > prevX && y > prevY) {
+            edits.push({ type: 'equal', aIndex: --x, bIndex: --y });
+        }
+        if (d > 0) {
+            if (x === prevX) edits.push({ type: 'insert', aIndex: x, bIndex: --y });
+            else edits.push({ type: 'delete', aIndex: --x, bIndex: y });
+        }
+    }
+    return edits.reverse();
+}
+
+/**
+ * Joins consecutive edits of the same type into segments.
+ */
+function toSegments<T>(edits: Edit[], a: T[], b: T[], text: (item: T) => string): TextDiffSegment[] {
+    const segments: TextDiffSegment[] = [];
+    for (const edit of edits) {
+        const value = text(edit.type === 'insert' ? b[edit.bIndex] : a[edit.aIndex]);
+        const last = segments[segments.length - 1];
+        if (last && last.type === edit.type) last.text += value;
+        else segments.push({ type: edit.type, text: value });
+    }
+    return segments;
+}
+
+const MAX_WORD_EDITS = 1000;
+const MAX_LINE_EDITS = 2000;
+
+// Words keep their trailing whitespace so segments concatenate back to the input
+function tokenize(text: string): string[] {
+    return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Word-level diff of two short texts.
+ */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const edits = myers(a, b, (x, y) => x === y, MAX_WORD_EDITS);
+    if (!edits) return [{ type: 'delete', text: before }, { type: 'insert', text: after }].filter(s => s.text) as TextDiffSegment[];
+    return toSegments(edits, a, b, t => t);
+}
+
+/**
+ * Line-level diff of two documents, with changed runs of lines refined to a
+ * word-level diff so small wording changes stand out.
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+    const a = before.split(/(?<=\n)/);
+    const b = after.split(/(?<=\n)/);
+    const edits = myers(a, b, (x, y) => x.trimEnd() === y.trimEnd(), MAX_LINE_EDITS);
+    if (!edits) return [{ type: 'delete', text: before }, { type: 'insert', text: after }];
+
+    const segments: TextDiffSegment[] = [];
+    const push = (segment: TextDiffSegment) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === segment.type) last.text += segment.text;
+        else if (segment.text) segments.push({ ...segment });
+    };
+    for (let i = 0; i < edits.length;) {
+        if (edits[i].type === 'equal') {
+            push({ type: 'equal', text: b[edits[i].bIndex] });
+            i++;
+            continue;
+        }
+        // A run of deletes/inserts between equal lines is one changed block
+        let deleted = '';
+        let inserted = '';
+        for (; i < edits.length && edits[i].type !== 'equal'; i++) {
+            if (edits[i].type === 'delete') deleted += a[edits[i].aIndex];
+            else inserted += b[edits[i].bIndex];
+        }
+        const refined = deleted && inserted ? diffWords(deleted, inserted) : [{ type: deleted ? 'delete' : 'insert', text: deleted || inserted } as TextDiffSegment];
+        refined.forEach(push);
+    }
+    return segments;
+}
+
+export function diffStats(segments: TextDiffSegment[]): { inserted: number; deleted: number } {
+    const count = (type: TextDiffSegment['type']) => segments.filter(s => s.type === type).reduce((sum, s) => sum + (s.text.match(/[\p{L}\p{N}]+/gu)?.length ?? 0), 0);
+    return { inserted: count('insert'), deleted: count('delete') };
+}
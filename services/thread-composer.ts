@@ -0,0 +1,208 @@
+import { type ThreadPost } from '../types';
+import { parseTweet, TWITTER_TEXT_CONFIG } from './tweet-text';
+
+export const MAX_THREAD_POSTS = 25;
+
+// A segment ending in one of these isn't the end of a sentence
+const ABBREVIATION = /\b(?:e\.g|i\.e|vs|etc|approx|Mr|Mrs|Ms|Dr|Prof|St|No|Fig|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)\.$/i;
+
+/**
+ * Splits text into sentences, keeping trailing punctuation and closing quotes.
+ * Uses Intl.Segmenter where available, with a regex fallback.
+ */
+export function splitSentences(text: string): string[] {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    if (!normalized) return [];
+    const segments: string[] = typeof Intl.Segmenter === 'function'
+        ? Array.from(new Intl.Segmenter('en', { granularity: 'sentence' }).segment(normalized), s => s.segment.trim())
+        : normalized.split(/(?<=[.!?…]["”')\]]?)\s+(?=["“(\[]?[\p{Lu}\p{N}])/u);
+    return segments.filter(Boolean).reduce<string[]>((sentences, segment) => {
+        const previous = sentences[sentences.length - 1];
+        if (previous && ABBREVIATION.test(previous)) sentences[sentences.length - 1] = `${previous} ${segment}`;
+        else sentences.push(segment);
+        return sentences;
+    }, []);
+}
+
+export function formatNumbering(index: number, total: number): string {
+    return `${index + 1}/${total}`;
+}
+
+/**
+ * Post text as published: the body followed by its "n/total" marker.
+ */
+export function formatThreadPost(body: string, index: number, total: number, numbered: boolean): string {
+    return numbered ? `${body.trim()}\n\n${formatNumbering(index, total)}` : body.trim();
+}
+
+function weigh(text: string): number {
+    return parseTweet(text).weightedLength;
+}
+
+/**
+ * Weighted budget left for the body once the numbering marker is added. The
+ * marker is sized for the widest index so every post gets the same budget.
+ */
+export function bodyBudget(total: number, numbered: boolean, limit: number = TWITTER_TEXT_CONFIG.maxWeightedTweetLength): number {
+    return numbered ? limit - weigh(`\n\n${formatNumbering(total - 1, total)}`) : limit;
+}
+
+/**
+ * Breaks a single sentence that is too long on its own: at clause punctuation
+ * first, then between words, and only mid-word as a last resort.
+ */
+function splitOversizeSentence(sentence: string, budget: number): string[] {
+    const pieces: string[] = [];
+    let rest = sentence;
+    while (weigh(rest) > budget) {
+        // validRange is computed against the full limit; shrink it to the body budget
+        let end = Math.min(rest.length, parseTweet(rest).validRange.end + 1);
+        while (end > 0 && weigh(rest.slice(0, end)) > budget) end--;
+        const window = rest.slice(0, end);
+        const clause = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '), window.lastIndexOf(' - '));
+        const space = window.lastIndexOf(' ');
+        const cut = clause > end * 0.5 ? clause + 1 : space > 0 ? space : end;
+        pieces.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut).trim();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+function toUnits(text: string, budget: number): string[] {
+    return splitSentences(text).flatMap(s => (weigh(s) > budget ? splitOversizeSentence(s, budget) : [s]));
+}
+
+// How many leading units fit in one post (at least one, so packing always advances)
+function countFitting(units: string[], budget: number): number {
+    let count = 1;
+    while (count < units.length && weigh(units.slice(0, count + 1).join(' ')) <= budget) count++;
+    return count;
+}
+
+function packGreedy(units: string[], budget: number): string[] {
+    const posts: string[] = [];
+    for (let i = 0; i < units.length;) {
+        const count = countFitting(units.slice(i), budget);
+        posts.push(units.slice(i, i + count).join(' '));
+        i += count;
+    }
+    return posts;
+}
+
+/**
+ * Packs sentences into exactly `count` posts of similar length (least squared
+ * slack, like paragraph line breaking). Returns null when `count` posts can't
+ * hold them.
+ */
+function packBalanced(units: string[], count: number, budget: number): string[] | null {
+    const n = units.length;
+    if (count >= n) return units.length > 0 ? [...units] : null;
+    const join = (from: number, to: number) => units.slice(from, to).join(' ');
+    const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(n + 1).fill(Infinity));
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j <= n; j++) {
+            const length = weigh(join(i, j));
+            if (length > budget) break;
+            cost[i][j] = length;
+        }
+    }
+    // best[k][j]: least total squared slack when the first j units form k posts
+    const best = Array.from({ length: count + 1 }, () => new Array(n + 1).fill(Infinity));
+    const cut = Array.from({ length: count + 1 }, () => new Array(n + 1).fill(-1));
+    best[0][0] = 0;
+    for (let k = 1; k <= count; k++) {
+        for (let j = 1; j <= n; j++) {
+            for (let i = k - 1; i < j; i++) {
+                const value = best[k - 1][i] + (budget - cost[i][j]) ** 2;
+                if (value < best[k][j]) {
+                    best[k][j] = value;
+                    cut[k][j] = i;
+                }
+            }
+        }
+    }
+    if (!Number.isFinite(best[count][n])) return null;
+    const posts: string[] = [];
+    for (let k = count, j = n; k > 0; k--) {
+        const i = cut[k][j];
+        posts.unshift(join(i, j));
+        j = i;
+    }
+    return posts;
+}
+
+/**
+ * Splits text into post bodies at sentence boundaries so that every post,
+ * including its numbering, fits the weighted limit.
+ */
+export function splitIntoPosts(text: string, numbered: boolean = true): string[] {
+    // The marker width depends on the post count, so settle the count first
+    // (a wider marker only shrinks the budget, so this converges within a few passes)
+    let total = 1;
+    for (let attempt = 0; attempt < 4; attempt++) {
+        const count = packGreedy(toUnits(text, bodyBudget(total, numbered)), bodyBudget(total, numbered)).length;
+        if (count <= total) break;
+        total = count;
+    }
+    const budget = bodyBudget(total, numbered);
+    const units = toUnits(text, budget);
+    return packBalanced(units, total, budget) ?? packGreedy(units, budget);
+}
+
+/**
+ * Re-spreads the whole thread's sentences evenly over the fewest posts that fit.
+ */
+export function rebalanceThread(bodies: string[], numbered: boolean = true): string[] {
+    return splitIntoPosts(bodies.map(b => b.trim()).filter(Boolean).join(' '), numbered);
+}
+
+/**
+ * After one post is edited: moves sentences that no longer fit into the next
+ * post (cascading, adding a post at the end if needed), leaving earlier posts
+ * untouched. Posts emptied by the edit are dropped.
+ */
+export function reflowFrom(bodies: string[], index: number, numbered: boolean = true): string[] {
+    const result = bodies.map(b => b.trim());
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const budget = bodyBudget(Math.max(result.length, 1), numbered);
+        for (let i = index; i < result.length; i++) {
+            if (weigh(result[i]) <= budget) continue;
+            const units = toUnits(result[i], budget);
+            const count = countFitting(units, budget);
+            const overflow = units.slice(count).join(' ');
+            result[i] = units.slice(0, count).join(' ');
+            if (i + 1 < result.length) result[i + 1] = `${overflow} ${result[i + 1]}`.trim();
+            else result.push(overflow);
+        }
+        // A new post can widen the "n/total" marker; run again with the new budget
+        if (bodyBudget(Math.max(result.length, 1), numbered) === budget) break;
+    }
+    return result.filter(Boolean);
+}
+
+/**
+ * Removes numbering the model may have added ("1/5", "(1/5)", "1.", "🧵").
+ */
+export function stripNumbering(text: string): string {
+    return text
+        .replace(/^\s*(?:\(?\d+\s*\/\s*\d*\)?|\d+[.)])\s+/, '')
+        .replace(/\s*\(?\d+\s*\/\s*\d+\)?\s*$/, '')
+        .replace(/\s*🧵\s*$/u, '')
+        .trim();
+}
+
+/**
+ * Measures each body as it will be published. Posts whose text is unchanged
+ * keep their scores; an edited post keeps the scores of the post it replaced,
+ * marked stale until it is scored again.
+ */
+export function toThreadPosts(bodies: string[], numbered: boolean, previous: ThreadPost[] = []): ThreadPost[] {
+    return bodies.map((text, index) => {
+        const weightedLength = weigh(formatThreadPost(text, index, bodies.length, numbered));
+        const match = previous.find(p => p.text === text);
+        if (match) return { ...match, weightedLength };
+        const replaced = previous[index];
+        return replaced ? { ...replaced, text, weightedLength, stale: true } : { text, weightedLength };
+    });
+}
@@ -0,0 +1,67 @@
+import { type DateRange, type Milestone } from '../types';
+import { parseDateRange } from './date-range';
+
+export interface TimelineEntry {
+    milestone: Milestone;
+    index: number; // position in DocumentAnalysis.milestones
+    range: DateRange | null;
+    status: 'past' | 'active' | 'upcoming' | 'unscheduled';
+    isDeadline: boolean;
+    msUntil?: number; // to the start (upcoming) or the end (active)
+}
+
+const DEADLINE_PATTERN = /\b(deadline|due|submi(t|ssion)|closes?|cut-?off|final)\b/i;
+
+/**
+ * Dates are all-day: a range starts at local midnight and ends at the close of its last day.
+ */
+export function rangeBounds(range: DateRange): { start: Date; end: Date } {
+    const [sy, sm, sd] = range.start.split('-').map(Number);
+    const [ey, em, ed] = range.end.split('-').map(Number);
+    return { start: new Date(sy, sm - 1, sd), end: new Date(ey, em - 1, ed, 23, 59, 59, 999) };
+}
+
+/**
+ * Milestones in date order with their status relative to `now`. Undated milestones go last.
+ */
+export function buildTimeline(milestones: Milestone[], now: Date = new Date()): TimelineEntry[] {
+    const entries = milestones.map((milestone, index): TimelineEntry => {
+        const range = milestone.dateRange ?? parseDateRange(milestone.date, now);
+        const isDeadline = range?.kind === 'deadline' || DEADLINE_PATTERN.test(milestone.event);
+        if (!range) return { milestone, index, range, status: 'unscheduled', isDeadline };
+        const { start, end } = rangeBounds(range);
+        if (end.getTime() < now.getTime()) return { milestone, index, range, status: 'past', isDeadline };
+        // A deadline is a moment, so it counts down to its end rather than its start
+        const target = isDeadline ? end : start;
+        if (!isDeadline && start.getTime() <= now.getTime()) return { milestone, index, range, status: 'active', isDeadline, msUntil: end.getTime() - now.getTime() };
+        return { milestone, index, range, status: 'upcoming', isDeadline, msUntil: target.getTime() - now.getTime() };
+    });
+    return entries.sort((a, b) => {
+        if (!a.range || !b.range) return a.range ? -1 : b.range ? 1 : a.index - b.index;
+        return a.range.start.localeCompare(b.range.start) || a.range.end.localeCompare(b.range.end);
+    });
+}
+
+/**
+ * Next deadline that hasn't passed, or null.
+ */
+export function nextDeadline(entries: TimelineEntry[]): TimelineEntry | null {
+    return entries
+        .filter(e => e.isDeadline && e.status === 'upcoming')
+        .sort((a, b) => (a.msUntil ?? 0) - (b.msUntil ?? 0))[0] ?? null;
+}
+
+export function formatCountdown(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+    if (days >= 2) return `${days} days`;
+    if (hours >= 1) return `${hours}h ${minutes % 60}m`;
+    return `${Math.max(0, minutes)}m`;
+}
+
+export function formatRange(range: DateRange): string {
+    const { start, end } = rangeBounds(range);
+    const format = (date: Date) => new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(date);
+    return range.start === range.end ? format(start) : `${format(start)} – ${format(end)}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Tweet text parsing per the twitter-text v3 configuration.
+ * Reference: https://github.com/twitter/twitter-text (config/v3.json, js/src/parseTweet.js)
+ *
+ * Differences from the old approximation in geminiService:
+ * - Text is NFC-normalized before counting (combining sequences collapse).
+ * - Weights are looked up per Unicode code point, not per UTF-16 code unit.
+ * - Whole emoji sequences (ZWJ, skin tones, flags, keycaps, VS16) weigh 2.
+ * - URLs are detected by TLD, with or without a scheme, and weigh 23. Detection is
+ *   twitter-text's own, since its TLD list and IDN handling are what X counts by.
+ */
+
+import twitterText from 'twitter-text';
+
+export const TWITTER_TEXT_CONFIG = {
+    version: 3,
+    maxWeightedTweetLength: 280,
+    scale: 100,
+    defaultWeight: 200,
+    emojiParsingEnabled: true,
+    transformedURLLength: 23,
+    ranges: [
+        { start: 0, end: 4351, weight: 100 },
+        { start: 8192, end: 8205, weight: 100 },
+        { start: 8208, end: 8223, weight: 100 },
+        { start: 8242, end: 8247, weight: 100 },
+    ],
+} as const;
+
+export interface ParsedTweet {
+    weightedLength: number;
+    valid: boolean;
+    permillage: number;
+    /** Inclusive UTF-16 indices into the original text that fit within the limit. */
+    validRange: { start: number; end: number };
+    displayRange: { start: number; end: number };
+}
+
+export interface TextEntity {
+    text: string;
+    indices: [number, number]; // [start, end) in UTF-16 code units
+}
+
+const INVALID_CHARACTERS = /[\uFFFE\uFEFF\uFFFF]/;
+
+// --- URL extraction ---
+
+/**
+ * URLs as twitter-text finds them: with or without a scheme, against the full IANA
+ * TLD list, including internationalized hosts ("café.com").
+ */
+export function extractUrlsWithIndices(text: string): TextEntity[] {
+    return twitterText.extractUrlsWithIndices(text).map(({ url, indices }) => ({ text: url, indices }));
+}
+
+// --- Emoji extraction ---
+
+// One emoji "grapheme": flag pair, keycap, or a pictographic base with modifiers/VS16/tags,
+// optionally joined to more pictographs with ZWJ.
+const EMOJI_SEQUENCE = new RegExp(
+    [
+        '\\p{Regional_Indicator}\\p{Regional_Indicator}',
+        '[#*0-9]\\uFE0F?\\u20E3',
+        '\\p{Extended_Pictographic}(?:\\uFE0F|\\p{Emoji_Modifier}|[\\u{E0020}-\\u{E007F}])*' +
+            '(?:\\u200D\\p{Extended_Pictographic}(?:\\uFE0F|\\p{Emoji_Modifier})*)*',
+    ].join('|'),
+    'gu'
+);
+const EMOJI_PRESENTATION_START = /^\p{Emoji_Presentation}/u;
+
+/**
+ * Extracts emoji sequences. Pictographs with a text default presentation (©, ™, ↔ ...)
+ * only count as emoji when they carry VS16, a modifier or a ZWJ continuation.
+ */
+export function extractEmojisWithIndices(text: string): TextEntity[] {
+    const emojis: TextEntity[] = [];
+    for (const match of text.matchAll(EMOJI_SEQUENCE)) {
+        const sequence = match[0];
+        const isSingleCodePoint = [...sequence].length === 1;
+        if (isSingleCodePoint && !EMOJI_PRESENTATION_START.test(sequence)) continue;
+        emojis.push({ text: sequence, indices: [match.index!, match.index! + sequence.length] });
+    }
+    return emojis;
+}
+
+// --- Parsing ---
+
+function getCodePointWeight(codePoint: number): number {
+    for (const range of TWITTER_TEXT_CONFIG.ranges) {
+        if (codePoint >= range.start && codePoint <= range.end) return range.weight;
+    }
+    return TWITTER_TEXT_CONFIG.defaultWeight;
+}
+
+function toEntityMap(entities: TextEntity[]): Map<number, TextEntity> {
+    return new Map(entities.map(e => [e.indices[0], e]));
+}
+
+/**
+ * Port of twitter-text `parseTweet`.
+ */
+export function parseTweet(text: string): ParsedTweet {
+    const { scale, maxWeightedTweetLength, transformedURLLength, defaultWeight, emojiParsingEnabled } = TWITTER_TEXT_CONFIG;
+    const normalized = text.normalize('NFC');
+    const urls = toEntityMap(extractUrlsWithIndices(normalized));
+    const emojis = emojiParsingEnabled ? toEntityMap(extractEmojisWithIndices(normalized)) : new Map<number, TextEntity>();
+
+    let weightedLength = 0;
+    let validDisplayIndex = 0;
+    let valid = true;
+
+    for (let index = 0; index < normalized.length; index++) {
+        const url = urls.get(index);
+        const emoji = emojis.get(index);
+        if (url) {
+            weightedLength += transformedURLLength * scale;
+            index += url.text.length - 1;
+        } else if (emoji) {
+            weightedLength += defaultWeight;
+            index += emoji.text.length - 1;
+        } else {
+            const codePoint = normalized.codePointAt(index)!;
+            if (codePoint > 0xffff) index++;
+            weightedLength += getCodePointWeight(codePoint);
+        }
+
+        if (valid) valid = !INVALID_CHARACTERS.test(normalized.charAt(index));
+        if (valid && weightedLength <= maxWeightedTweetLength * scale) validDisplayIndex = index;
+    }
+
+    weightedLength = weightedLength / scale;
+    valid = valid && weightedLength > 0 && weightedLength <= maxWeightedTweetLength;
+
+    return {
+        weightedLength,
+        valid,
+        permillage: Math.floor((weightedLength / maxWeightedTweetLength) * 1000),
+        validRange: { start: 0, end: validDisplayIndex + (text.length - normalized.length) },
+        displayRange: { start: 0, end: text.length > 0 ? text.length - 1 : 0 },
+    };
+}
+
+export function getWeightedLength(text: string): number {
+    return text ? parseTweet(text).weightedLength : 0;
+}
+
+export function isValidTweet(text: string): boolean {
+    return parseTweet(text).valid;
+}
@@ -0,0 +1,147 @@
+import { type VoiceProfile, type VoiceAdherence } from '../types';
+import { getWeightedLength, extractEmojisWithIndices } from './tweet-text';
+
+const STORAGE_KEY = 'apex-voice-profiles';
+
+/**
+ * The voice the Sanctum prompt has always used. Always available and not deletable.
+ */
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+    id: 'apex-high-status',
+    name: 'APEX High Status',
+    tone: 'expert peer or witty observer; confident, specific, never a fanboy',
+    personaBio: 'An operator who has seen the pattern before and adds the missing insight.',
+    expertiseAreas: ['startups', 'AI', 'markets'],
+    vocabulary: [],
+    exampleReplies: [],
+    forbiddenWords: ['great post', 'so true', 'this!', 'game changer', 'delve'],
+    emojiPolicy: 'sparing',
+    builtIn: true,
+};
+
+function readStored(): VoiceProfile[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.warn('Could not read voice profiles:', err);
+        return [];
+    }
+}
+
+function writeStored(profiles: VoiceProfile[]): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+}
+
+export function loadVoiceProfiles(): VoiceProfile[] {
+    return [DEFAULT_VOICE_PROFILE, ...readStored()];
+}
+
+export function getVoiceProfile(id: string | undefined): VoiceProfile | undefined {
+    if (!id) return undefined;
+    return loadVoiceProfiles().find(p => p.id === id);
+}
+
+export function createVoiceProfileId(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'voice';
+    return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Inserts or replaces a profile by id. Built-in profiles cannot be overwritten.
+ */
+export function saveVoiceProfile(profile: VoiceProfile): VoiceProfile[] {
+    if (profile.id === DEFAULT_VOICE_PROFILE.id) return loadVoiceProfiles();
+    const stored = readStored();
+    const index = stored.findIndex(p => p.id === profile.id);
+    if (index === -1) stored.push(profile);
+    else stored[index] = profile;
+    writeStored(stored);
+    return loadVoiceProfiles();
+}
+
+export function deleteVoiceProfile(id: string): VoiceProfile[] {
+    writeStored(readStored().filter(p => p.id !== id));
+    return loadVoiceProfiles();
+}
+
+const EMOJI_POLICY_TEXT: Record<VoiceProfile['emojiPolicy'], string> = {
+    none: 'Never use emoji.',
+    sparing: 'At most one emoji, and only when it adds meaning.',
+    free: 'Emoji are fine where they fit the voice.',
+};
+
+/**
+ * Prompt section describing the voice. Overrides the default high-status tone.
+ */
+export function formatVoiceInstructions(profile: VoiceProfile): string {
+    const lines = [
+        `VOICE PROFILE: "${profile.name}" (this overrides the default tone; the Sanctum quality rules still apply)`,
+        `- Tone: ${profile.tone}`,
+        `- Persona: ${profile.personaBio}`,
+    ];
+    if (profile.expertiseAreas.length > 0) lines.push(`- Speak from expertise in: ${profile.expertiseAreas.join(', ')}`);
+    if (profile.vocabulary.length > 0) lines.push(`- Preferred vocabulary: ${profile.vocabulary.join(', ')}`);
+    if (profile.forbiddenWords.length > 0) lines.push(`- Never use these words or phrases: ${profile.forbiddenWords.map(w => `"${w}"`).join(', ')}`);
+    lines.push(`- Emoji: ${EMOJI_POLICY_TEXT[profile.emojiPolicy]}`);
+    if (profile.maxLength) lines.push(`- Keep every reply under ${profile.maxLength} weighted characters.`);
+    if (profile.exampleReplies.length > 0) {
+        lines.push('- Example replies in this voice (match their rhythm, not their content):');
+        profile.exampleReplies.slice(0, 5).forEach(example => lines.push(`    • ${example.replace(/\s+/g, ' ').trim()}`));
+    }
+    return lines.join('\n');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Deterministic post-generation check. Starts at 100 and deducts for every rule
+ * the reply breaks; the violations explain the deductions.
+ */
+export function scoreVoiceAdherence(text: string, profile: VoiceProfile): VoiceAdherence {
+    const violations: string[] = [];
+    let score = 100;
+
+    for (const word of profile.forbiddenWords) {
+        const term = word.trim();
+        if (!term) continue;
+        // Word boundaries only where the term starts/ends with a word character
+        const pattern = new RegExp(`${/^\w/.test(term) ? '\\b' : ''}${escapeRegExp(term)}${/\w$/.test(term) ? '\\b' : ''}`, 'i');
+        if (pattern.test(text)) {
+            violations.push(`Uses forbidden phrase "${term}"`);
+            score -= 25;
+        }
+    }
+
+    const emojiCount = extractEmojisWithIndices(text).length;
+    if (profile.emojiPolicy === 'none' && emojiCount > 0) {
+        violations.push(`Contains ${emojiCount} emoji; this voice uses none`);
+        score -= 20;
+    } else if (profile.emojiPolicy === 'sparing' && emojiCount > 1) {
+        violations.push(`Contains ${emojiCount} emoji; this voice allows at most one`);
+        score -= 10;
+    }
+
+    if (profile.maxLength) {
+        const length = getWeightedLength(text);
+        if (length > profile.maxLength) {
+            violations.push(`Weighted length ${length} exceeds the preferred ${profile.maxLength}`);
+            score -= Math.min(30, 10 + Math.floor((length - profile.maxLength) / 20) * 5);
+        }
+    }
+
+    if (profile.vocabulary.length > 0 && text.length > 80) {
+        const usesVocabulary = profile.vocabulary.some(term => text.toLowerCase().includes(term.toLowerCase()));
+        if (!usesVocabulary) {
+            violations.push('Uses none of the preferred vocabulary');
+            score -= 5;
+        }
+    }
+
+    return { profileId: profile.id, score: Math.max(0, score), violations };
+}
@@ -1,6 +1,14 @@
 
-import { TwitterApi, type TwitterApiReadOnly } from 'twitter-api-v2';
+import { TwitterApi, type TwitterApiReadOnly, type TweetV2, type UserV2, type MediaObjectV2 } from 'twitter-api-v2';
 import { generateReplies } from './geminiService';
+import { analysisArchive, createArchiveRecord } from './analysis-archive';
+import { telemetry } from './telemetry';
+import { metricsRegistry } from './metrics-registry';
+import { ApexError, AuthError, toXApiError } from './errors';
+import { isValidTweet } from './tweet-text';
+import { isEmptyContext } from './conversation-context';
+import { getVoiceProfile } from './voice-profiles';
+import { SUPPORTED_LANGUAGES } from './language';
 import {
     type XApiCredentials,
     type PostSearchCriteria,
@@ -8,7 +16,10 @@ import {
     type PostCandidate,
     type AutomationResult,
     type ReplyStrategy,
-    type CircuitBreakerStatus
+    type CircuitBreakerStatus,
+    type ConversationContext,
+    type ContextPost,
+    type MediaAttachment
 } from '../types';
 
 /**
@@ -100,6 +111,26 @@ class CircuitBreaker {
     }
 }
 
+/**
+ * Builds the X recent-search query for the criteria. Keywords are grouped so the
+ * `lang:` and `is:` operators apply to all of them (AND binds tighter than OR).
+ */
+export function buildSearchQuery(criteria: PostSearchCriteria): string {
+    const keywords = criteria.keywords && criteria.keywords.length > 0 ? criteria.keywords : ['AI', 'startup', 'tech', 'business'];
+    const parts = [`(${keywords.join(' OR ')})`];
+
+    const languages = (criteria.languages ?? []).filter(Boolean);
+    if (languages.length === 1) parts.push(`lang:${languages[0]}`);
+    else if (languages.length > 1) parts.push(`(${languages.map(l => `lang:${l}`).join(' OR ')})`);
+
+    if (!criteria.includeRetweets) parts.push('-is:retweet');
+    if (!criteria.includeReplies) parts.push('-is:reply');
+    if (criteria.excludeKeywords && criteria.excludeKeywords.length > 0) {
+        parts.push(...criteria.excludeKeywords.map(k => `-${k}`));
+    }
+    return parts.join(' ');
+}
+
 /**
  * X API Automation Service for APEX System v7.4
  */
@@ -113,7 +144,7 @@ export class XAutomationService {
 
     constructor(credentials: XApiCredentials, config: AutomationConfig) {
         if (!credentials.bearerToken) {
-            throw new Error("A Twitter API v2 Bearer Token is required for automation.");
+            throw new AuthError("A Twitter API v2 Bearer Token is required for automation.", { service: 'x' });
         }
         this.roClient = new TwitterApi(credentials.bearerToken).readOnly;
 
@@ -128,7 +159,7 @@ export class XAutomationService {
                 console.log("Read-write X client initialized successfully.");
             } catch (err) {
                 console.error("Failed to initialize read-write client:", err);
-                throw new Error("Failed to initialize read-write client. Check your App Key/Secret and Access Token/Secret.");
+                throw new AuthError("Failed to initialize read-write client. Check your App Key/Secret and Access Token/Secret.", { service: 'x', cause: err });
             }
         } else {
              console.log("Read-only X client initialized. Full credentials needed for replies.");
@@ -138,31 +169,49 @@ export class XAutomationService {
         // Initialize Token Bucket: Capacity = max per day, Refill rate = max per hour
         this.replyBucket = new TokenBucket(config.maxRepliesPerDay, config.maxRepliesPerHour * 60); // approx refill
         this.circuitBreaker = new CircuitBreaker();
+        // Only the most recently created service is exported
+        metricsRegistry.register('x_automation', metrics => {
+            const { tokenBucket, circuitBreaker } = this.getStatus();
+            metrics.gauge('apex_reply_bucket_tokens', {}, tokenBucket.tokens);
+            metrics.gauge('apex_reply_bucket_capacity', {}, tokenBucket.capacity);
+            for (const state of ['CLOSED', 'HALF_OPEN', 'OPEN'] as const) {
+                metrics.gauge('apex_circuit_breaker_state', { state }, circuitBreaker.state === state ? 1 : 0);
+            }
+            metrics.gauge('apex_circuit_breaker_failures', {}, circuitBreaker.failures);
+        });
     }
 
     async findCandidatePosts(criteria: PostSearchCriteria): Promise<PostCandidate[]> {
         try {
             // Check circuit breaker for search operations too, to save API quota
             if (this.circuitBreaker.isOpen()) {
-                throw new Error("Circuit Breaker is OPEN. Requests halted temporarily.");
-            }
-
-            let searchQuery = (criteria.keywords && criteria.keywords.length > 0 ? criteria.keywords.join(' OR ') : '(AI OR startup OR tech OR business)') + ' lang:en -is:retweet -is:reply';
-            if (criteria.excludeKeywords && criteria.excludeKeywords.length > 0) {
-                searchQuery += ' ' + criteria.excludeKeywords.map(k => `-${k}`).join(' ');
+                throw new ApexError("Circuit Breaker is OPEN. Requests halted temporarily.", {
+                    code: 'SERVICE_UNAVAILABLE',
+                    title: 'Circuit Breaker Open',
+                    retryable: true,
+                    remediation: 'Too many recent X API failures. Requests resume automatically once the cooldown ends.',
+                });
             }
 
-            const searchResults = await this.roClient.v2.search(searchQuery, {
+            const searchTimer = telemetry.startTimer('search');
+            const searchResults = await this.roClient.v2.search(buildSearchQuery(criteria), {
                 max_results: 100,
-                'tweet.fields': ['created_at', 'public_metrics', 'author_id'],
+                'tweet.fields': ['created_at', 'public_metrics', 'author_id', 'referenced_tweets', 'attachments', 'lang'],
                 'user.fields': ['username', 'name', 'public_metrics', 'verified'],
-                expansions: ['author_id']
+                'media.fields': ['type', 'url', 'preview_image_url', 'alt_text'],
+                expansions: ['author_id', 'referenced_tweets.id', 'referenced_tweets.id.author_id', 'attachments.media_keys']
+            }).catch(error => {
+                searchTimer.fail(toXApiError(error).code);
+                throw error;
             });
+            searchTimer.succeed();
 
             this.circuitBreaker.recordSuccess(); // Successful read
 
             const candidates: PostCandidate[] = [];
             const users = searchResults.includes?.users || [];
+            const referencedTweets = searchResults.includes?.tweets || [];
+            const mediaItems = searchResults.includes?.media || [];
 
             if (!searchResults.data.data) {
                 return [];
@@ -192,7 +241,10 @@ export class XAutomationService {
                     createdAt: new Date(tweet.created_at!),
                     metrics: { views: metrics.impression_count || 0, likes: metrics.like_count, reposts: metrics.retweet_count, replies: metrics.reply_count },
                     eligibilityScore,
-                    reasons: this.getEligibilityReasons(metrics, authorMetrics, eligibilityScore)
+                    reasons: this.getEligibilityReasons(metrics, authorMetrics, eligibilityScore),
+                    lang: tweet.lang,
+                    context: this.buildConversationContext(tweet, referencedTweets, users),
+                    media: this.collectMedia(tweet, mediaItems)
                 });
             }
 
@@ -201,12 +253,43 @@ export class XAutomationService {
             console.error('Error finding candidates:', error);
             this.circuitBreaker.recordFailure(); // Record failure
 
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            if (errorMessage.includes('401')) {
-                 throw new Error(`Authentication Error: The provided Bearer Token is invalid or has been revoked.`);
-            }
-            throw new Error(`Failed to find candidate posts: ${errorMessage}`);
+            throw toXApiError(error);
+        }
+    }
+
+    /**
+     * Builds context from the expanded referenced tweets. Only the direct parent is
+     * available from a search response; top replies would cost an extra search per post.
+     */
+    private buildConversationContext(tweet: TweetV2, referencedTweets: TweetV2[], users: UserV2[]): ConversationContext | undefined {
+        const toContextPost = (id: string): ContextPost | undefined => {
+            const referenced = referencedTweets.find(t => t.id === id);
+            if (!referenced) return undefined;
+            const author = users.find(u => u.id === referenced.author_id);
+            return { authorHandle: author ? `@${author.username}` : 'Unknown', text: referenced.text };
+        };
+
+        const context: ConversationContext = { parents: [], topReplies: [] };
+        for (const ref of tweet.referenced_tweets ?? []) {
+            const post = toContextPost(ref.id);
+            if (!post) continue;
+            if (ref.type === 'quoted') context.quoted = post;
+            if (ref.type === 'replied_to') context.parents.push(post);
         }
+        return isEmptyContext(context) ? undefined : context;
+    }
+
+    /**
+     * Photos by URL and, for videos and GIFs, their preview frame. Downloaded later by generateReplies.
+     */
+    private collectMedia(tweet: TweetV2, mediaItems: MediaObjectV2[]): MediaAttachment[] | undefined {
+        const media = (tweet.attachments?.media_keys ?? [])
+            .map(key => mediaItems.find(m => m.media_key === key))
+            .filter((m): m is MediaObjectV2 => !!m)
+            .map(m => ({ url: m.type === 'photo' ? m.url : m.preview_image_url, altText: m.alt_text }))
+            .filter((m): m is { url: string; altText: string | undefined } => !!m.url)
+            .map(m => ({ mimeType: m.url.endsWith('.png') ? 'image/png' : 'image/jpeg', url: m.url, altText: m.altText }));
+        return media.length > 0 ? media : undefined;
     }
 
     private calculateEligibilityScore(postMetrics: any, authorMetrics: any, ageHours: number): number {
@@ -257,12 +340,39 @@ export class XAutomationService {
 
         const startTime = Date.now();
         try {
-            const { strategies } = await generateReplies(post.text, post.authorHandle, { useCache: false, temperature: 0.4 });
+            const voiceProfile = getVoiceProfile(this.config.voiceProfileId);
+            // On 'auto', X's own language tag beats local detection when it names a language we support
+            const targetLanguage = this.config.targetLanguage && this.config.targetLanguage !== 'auto'
+                ? this.config.targetLanguage
+                : SUPPORTED_LANGUAGES.some(l => l.code === post.lang) ? post.lang : 'auto';
+            const { analysis, strategies } = await generateReplies(post.text, post.authorHandle, { useCache: false, temperature: 0.4, priority: 'automation', context: post.context, media: post.media, voiceProfile, targetLanguage });
             if (!strategies || strategies.length === 0) {
                 return { success: false, error: 'No suitable reply strategies generated.', timestamp: new Date() };
             }
 
-            const bestStrategy = strategies.sort((a, b) => b.scores.algorithmScore - a.scores.algorithmScore)[0];
+            // X rejects over-length or otherwise invalid text with a 400, so never pick one
+            const postable = strategies.filter(s => isValidTweet(s.replyText));
+            if (postable.length === 0) {
+                return { success: false, error: 'All generated replies exceed the X weighted length limit or contain invalid characters.', timestamp: new Date() };
+            }
+
+            // Off-voice replies are worse than no reply for a branded account. Automation posts
+            // the Control reply, so that is the text gated here, not the A/B variants.
+            const minimumVoiceAdherence = this.config.safetyChecks.minimumVoiceAdherence ?? 0;
+            const onVoice = voiceProfile
+                ? postable.filter(s => (s.voiceAdherence?.score ?? 100) >= minimumVoiceAdherence)
+                : postable;
+            if (onVoice.length === 0) {
+                const closest = [...postable].sort((a, b) => (b.voiceAdherence?.score ?? 0) - (a.voiceAdherence?.score ?? 0))[0];
+                return {
+                    success: false,
+                    error: `No reply meets the "${voiceProfile!.name}" voice threshold (${minimumVoiceAdherence}). Closest: ${closest.voiceAdherence?.score ?? 0} (${closest.voiceAdherence?.violations.join('; ') || 'no violations listed'}).`,
+                    timestamp: new Date(),
+                    strategy: closest
+                };
+            }
+
+            const bestStrategy = onVoice.sort((a, b) => b.scores.algorithmScore - a.scores.algorithmScore)[0];
 
             if (bestStrategy.scores.algorithmScore < this.config.safetyChecks.minimumConfidenceScore) {
                  return {
@@ -284,12 +394,22 @@ export class XAutomationService {
                 };
             }
 
-            const replyResult = await this.rwClient.v2.reply(bestStrategy.replyText, post.id);
+            const replyTimer = telemetry.startTimer('reply');
+            const replyResult = await this.rwClient.v2.reply(bestStrategy.replyText, post.id).catch(error => {
+                replyTimer.fail(toXApiError(error).code);
+                throw error;
+            });
+            replyTimer.succeed();
             
             // If we reach here, the API call succeeded. Reset circuit breaker.
             this.circuitBreaker.recordSuccess();
             this.lastReplyTime = Date.now();
 
+            // Posted replies land in the history alongside manual sessions; a failed write never fails the reply
+            const usage = { strategy: bestStrategy.strategy, variant: 'primary' as const, action: 'posted' as const, text: bestStrategy.replyText, at: Date.now(), replyId: replyResult.data.id };
+            analysisArchive.put(createArchiveRecord(analysis, strategies, { voiceProfileId: this.config.voiceProfileId, targetLanguage, media: post.media, usage: [usage] }))
+                .catch(err => console.warn('Could not archive the posted reply:', err));
+
             return {
                 success: true,
                 postId: post.id,
@@ -304,35 +424,8 @@ export class XAutomationService {
             // API failure, record it in circuit breaker
             this.circuitBreaker.recordFailure();
 
-            let errorMessage = 'An unknown error occurred during the reply process.';
-
-            if (typeof error === 'object' && error !== null && 'data' in error) {
-                const apiError = error as any;
-                const statusCode = apiError.code;
-                const errorDetail = apiError.data?.detail || 'No details provided.';
-                const errorTitle = apiError.data?.title || 'API Error';
-
-                switch (statusCode) {
-                    case 400:
-                        errorMessage = `Bad Request (400): The reply content may be invalid. Detail: ${errorDetail}`;
-                        break;
-                    case 401:
-                        errorMessage = `Unauthorized (401): Your API keys are invalid or have been revoked.`;
-                        break;
-                    case 403:
-                        errorMessage = `Forbidden (403): Permission issue. Detail: ${errorDetail}`;
-                        break;
-                    case 429:
-                        errorMessage = `Rate Limit Exceeded (429): X API Limit reached. Title: ${errorTitle}`;
-                        break;
-                    default:
-                        errorMessage = `X API Error (${statusCode} ${errorTitle}): ${errorDetail}`;
-                }
-            } else if (error instanceof Error) {
-                errorMessage = error.message;
-            }
-            
-            return { success: false, error: errorMessage, timestamp: new Date() };
+            const apexError = toXApiError(error);
+            return { success: false, error: `${apexError.title}: ${apexError.message}`, errorCode: apexError.code, timestamp: new Date() };
         }
     }
 
@@ -397,8 +490,10 @@ export const DEFAULT_AUTOMATION_CONFIG: AutomationConfig = {
     safetyChecks: {
         requireManualApproval: false,
         minimumConfidenceScore: 80,
-        maximumRiskLevel: 'medium'
-    }
+        maximumRiskLevel: 'medium',
+        minimumVoiceAdherence: 70
+    },
+    targetLanguage: 'auto'
 };
 
 export const DEFAULT_SEARCH_CRITERIA: PostSearchCriteria = {
@@ -406,5 +501,6 @@ export const DEFAULT_SEARCH_CRITERIA: PostSearchCriteria = {
     maxAgeHours: 12,
     keywords: ['AI', 'startup', 'tech', 'innovation', 'business', 'SaaS'],
     excludeKeywords: ['politics', 'spam'],
-    authorFollowerMin: 10000
+    authorFollowerMin: 10000,
+    languages: ['en']
 };
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { documentReferenceDate, parseDateRange } from '../services/date-range';
+import { type DateRange } from '../types';
+
+const REFERENCE = new Date(Date.UTC(2025, 11, 1)); // 2025-12-01
+
+const cases: [string, Partial<DateRange> | null][] = [
+    // The examples from the request
+    ['Week of October 20, 2025', { start: '2025-10-20', end: '2025-10-26', granularity: 'week', kind: 'week' }],
+    ['October 27 - November 17, 2025', { start: '2025-10-27', end: '2025-11-17', granularity: 'day', confidence: 0.95, kind: 'range' }],
+    ['Q1 2026', { start: '2026-01-01', end: '2026-03-31', granularity: 'quarter', kind: 'range' }],
+    ['Late 2025', { start: '2025-09-01', end: '2025-12-31', kind: 'range' }],
+    ['By Nov 24', { start: '2026-11-24', end: '2026-11-24', kind: 'deadline' }],
+    ['TBD', null],
+
+    // Year-less dates resolve to the next occurrence on or after the reference, with lower confidence
+    ['Q1', { start: '2026-01-01', end: '2026-03-31', confidence: 0.3 }],
+    ['March 3', { start: '2026-03-03', end: '2026-03-03', kind: 'point' }],
+    ['Mid-October', { start: '2026-10-11', end: '2026-10-20', granularity: 'month' }],
+    ['December 15 - January 10', { start: '2025-12-15', end: '2026-01-10' }],
+    ['December 15 - January 10, 2026', { start: '2025-12-15', end: '2026-01-10' }],
+
+    // Seasons, quarters and halves
+    ['Spring 2026', { start: '2026-03-01', end: '2026-05-31', granularity: 'quarter' }],
+    ['Winter 2025', { start: '2025-12-01', end: '2026-02-28', granularity: 'quarter' }],
+    ['End of Q4 2025', { start: '2025-12-01', end: '2025-12-31', granularity: 'month' }],
+    ['H1 2026', { start: '2026-01-01', end: '2026-06-30', granularity: 'half', confidence: 0.4 }],
+    ['H2 2026', { start: '2026-07-01', end: '2026-12-31', granularity: 'half' }],
+
+    // Early/mid/late spans
+    ['Early 2026', { start: '2026-01-01', end: '2026-04-30' }],
+    ['Mid 2026', { start: '2026-05-01', end: '2026-08-31' }],
+    ['Early March 2026', { start: '2026-03-01', end: '2026-03-10', granularity: 'month' }],
+    ['Late March 2026', { start: '2026-03-21', end: '2026-03-31' }],
+];
+
+for (const [text, expected] of cases) {
+    test(`parseDateRange: ${text}`, () => {
+        const range = parseDateRange(text, REFERENCE);
+        if (expected === null) {
+            assert.equal(range, null);
+            return;
+        }
+        assert.ok(range);
+        const fields = Object.keys(expected) as (keyof DateRange)[];
+        assert.deepEqual(Object.fromEntries(fields.map(f => [f, range[f]])), expected);
+    });
+}
+
+test('year-less dates are less confident than dated ones', () => {
+    assert.ok(parseDateRange('Q1', REFERENCE)!.confidence < parseDateRange('Q1 2026', REFERENCE)!.confidence);
+    assert.ok(parseDateRange('March 3', REFERENCE)!.confidence < parseDateRange('March 3, 2026', REFERENCE)!.confidence);
+});
+
+test('documentReferenceDate anchors year-less dates to the earliest dated milestone', () => {
+    const reference = documentReferenceDate(['Week of October 20, 2025', 'By Nov 24', 'TBD'], REFERENCE);
+    assert.equal(reference.toISOString().slice(0, 10), '2025-10-20');
+    assert.equal(parseDateRange('By Nov 24', reference)!.end, '2025-11-24');
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCache, generateReplies } from '../services/geminiService';
+import { FixtureProvider, RecordingProvider, setLLMProvider, type LLMProvider, type LLMRequest } from '../services/llm-provider';
+import { getEnabledStrategies } from '../services/strategy-catalog';
+
+const POST = 'We cut our cloud bill by 40% by moving batch jobs to spot instances. The trick was checkpointing every step.';
+const AUTHOR = '@infra_jane';
+
+/** Counts the requests that reach the wrapped provider. */
+class CountingProvider implements LLMProvider {
+    readonly name = 'counting';
+    calls = 0;
+    constructor(private readonly inner: LLMProvider) {}
+
+    generateContent(request: LLMRequest, signal?: AbortSignal) {
+        this.calls++;
+        return this.inner.generateContent(request, signal);
+    }
+}
+
+test('generateReplies runs end to end on synthesized fixture responses', async () => {
+    setLLMProvider(new FixtureProvider());
+    const { analysis, strategies } = await generateReplies(POST, AUTHOR, { useCache: false });
+
+    assert.equal(analysis.originalPostText, POST);
+    assert.ok(analysis.tone.length > 0);
+    // Synthesized strategy ids can repeat; repeats are dropped and reported as missing
+    const selected = getEnabledStrategies().map(s => s.id);
+    const missing = analysis.validationWarnings?.filter(w => w.message.startsWith('No reply was returned')) ?? [];
+    assert.ok(strategies.length > 0);
+    assert.equal(strategies.length + missing.length, selected.length);
+    for (const strategy of strategies) {
+        assert.ok(selected.includes(strategy.strategy));
+        assert.ok(strategy.replyText.length > 0);
+        assert.ok(strategy.scores.algorithmScore >= 0 && strategy.scores.algorithmScore <= 100);
+    }
+
+    // The same request synthesizes the same response
+    assert.deepEqual(await generateReplies(POST, AUTHOR, { useCache: false }), { analysis, strategies });
+});
+
+test('a recorded session replays offline without synthesis', async () => {
+    const recorder = new RecordingProvider(new FixtureProvider());
+    setLLMProvider(recorder);
+    const live = await generateReplies(POST, AUTHOR, { useCache: false });
+
+    setLLMProvider(new FixtureProvider({ recordings: recorder.fixtures.toJSON(), synthesize: false }));
+    assert.deepEqual(await generateReplies(POST, AUTHOR, { useCache: false }), live);
+    await assert.rejects(generateReplies(`${POST} Different post.`, AUTHOR, { useCache: false }));
+});
+
+test('cached replies skip the provider', async () => {
+    const provider = new CountingProvider(new FixtureProvider());
+    setLLMProvider(provider);
+    await clearCache();
+
+    const first = await generateReplies(POST, AUTHOR);
+    const calls = provider.calls;
+    assert.ok(calls > 0);
+    assert.deepEqual(await generateReplies(POST, AUTHOR), first);
+    assert.equal(provider.calls, calls);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectLanguage, replyLanguageFor } from '../services/language';
+
+const replyLanguage = (text: string) => replyLanguageFor(detectLanguage(text));
+
+for (const text of [
+    'Had a great day at a conference in Berlin',
+    'Nvidia up 8% on a monster quarter',
+    'Building a startup in public: day 42…',
+    'The best founders I know ship on Fridays and write the changelog on Mondays.',
+]) {
+    test(`English post replies in English: ${text}`, () => {
+        assert.equal(replyLanguage(text), 'en');
+    });
+}
+
+for (const [code, text] of [
+    ['es', 'Me encanta este producto, es muy bueno para el equipo y lo usamos todos los días'],
+    ['pt', 'Não sei se você já viu, mas o lançamento de hoje foi muito bom para a equipe'],
+    ['fr', 'Je pense que le produit est très bien pour les équipes et pour les clients'],
+    ['de', 'Ich finde das Produkt sehr gut und die Preise sind auch fair für kleine Teams'],
+    ['ja', '今日は東京でカンファレンスに参加しました。とても勉強になりました。'],
+]) {
+    test(`${code} post replies in ${code}`, () => {
+        assert.equal(replyLanguage(text), code);
+    });
+}
+
+test('a single shared function word is not enough to switch languages', () => {
+    const detected = detectLanguage('Quarterly numbers o boy');
+    assert.ok(replyLanguageFor(detected) === 'en', JSON.stringify(detected));
+});
+
+test('text without letters is undetermined and replies in English', () => {
+    assert.equal(detectLanguage('🚀🚀 100%').code, 'und');
+    assert.equal(replyLanguage('🚀🚀 100%'), 'en');
+});
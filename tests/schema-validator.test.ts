@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Type, type Schema } from '@google/genai';
+import { errorsOf, groupIssuesByIndex, parseModelJson, validateAgainstSchema, warningsOf, type ValidationIssue } from '../services/schema-validator';
+
+const schema: Schema = {
+    type: Type.OBJECT,
+    required: ['tone', 'score'],
+    properties: {
+        tone: { type: Type.STRING, enum: ['Witty', 'Data-Driven', 'Contrarian Take'] },
+        score: { type: Type.NUMBER, minimum: 0, maximum: 100 },
+        probability: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+        posts: { type: Type.INTEGER },
+        viral: { type: Type.BOOLEAN },
+        label: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: '2' },
+        steps: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '1' },
+    },
+};
+
+const validate = (value: unknown) => validateAgainstSchema<Record<string, unknown>>(value, schema);
+
+test('parseModelJson strips code fences and returns undefined for invalid JSON', () => {
+    assert.deepEqual(parseModelJson('```json\n{"a": 1}\n```'), { a: 1 });
+    assert.equal(parseModelJson('Sure! Here is the JSON'), undefined);
+});
+
+test('a valid response has no issues', () => {
+    const { value, issues } = validate({ tone: 'Witty', score: 80, probability: 0.4, viral: true });
+    assert.deepEqual(issues, []);
+    assert.deepEqual(value, { tone: 'Witty', score: 80, probability: 0.4, viral: true });
+});
+
+test('coerces numeric strings, primitives and single values with warnings', () => {
+    const { value, issues } = validate({ tone: 'Witty', score: '72.5', posts: 3.6, viral: 'true', label: 42, tags: 'ai' });
+    assert.equal(value.score, 72.5);
+    assert.equal(value.posts, 4);
+    assert.equal(value.viral, true);
+    assert.equal(value.label, '42');
+    assert.deepEqual(value.tags, ['ai']);
+    assert.deepEqual(errorsOf(issues), []);
+    assert.deepEqual(warningsOf(issues).map(i => i.path), ['score', 'viral', 'label', 'tags']);
+});
+
+test('clamps out-of-range numbers and rescales percentages to probabilities', () => {
+    const { value, issues } = validate({ tone: 'Witty', score: 140, probability: 42 });
+    assert.equal(value.score, 100);
+    assert.equal(value.probability, 0.42);
+    assert.deepEqual(errorsOf(issues), []);
+
+    assert.equal(validate({ tone: 'Witty', score: -5, probability: 250 }).value.score, 0);
+    assert.equal(validate({ tone: 'Witty', score: -5, probability: 250 }).value.probability, 1);
+});
+
+test('normalizes enum casing, spacing and underscores', () => {
+    for (const [raw, expected] of [['witty', 'Witty'], ['data_driven', 'Data-Driven'], ['  contrarian take ', 'Contrarian Take']]) {
+        const { value, issues } = validate({ tone: raw, score: 50 });
+        assert.equal(value.tone, expected);
+        assert.equal(warningsOf(issues).length, 1);
+        assert.deepEqual(errorsOf(issues), []);
+    }
+});
+
+test('reports unknown enum values, missing fields and wrong types as errors', () => {
+    const { issues } = validate({ tone: 'Sarcastic', posts: 'many', steps: [] });
+    assert.deepEqual(errorsOf(issues).map(i => i.path), ['tone', 'score', 'posts', 'steps']);
+    assert.deepEqual(errorsOf(validate([]).issues).map(i => i.message), ['Expected object, got array']);
+});
+
+test('truncates arrays over maxItems with a warning', () => {
+    const { value, issues } = validate({ tone: 'Witty', score: 50, tags: ['a', 'b', 'c'] });
+    assert.deepEqual(value.tags, ['a', 'b']);
+    assert.deepEqual(warningsOf(issues).map(i => i.message), ['Expected at most 2 items, truncated from 3']);
+});
+
+test('groupIssuesByIndex splits issues by array item with item-relative paths', () => {
+    const issues: ValidationIssue[] = [
+        { path: 'strategies[0].tone', message: 'bad tone', severity: 'error' },
+        { path: 'strategies[2]', message: 'Missing value', severity: 'error' },
+        { path: 'strategies[0].scores.authority', message: 'clamped', severity: 'warning' },
+        { path: 'analysis.summary', message: 'Missing required field', severity: 'error' },
+        { path: 'strategiesExtra[1].tone', message: 'other array', severity: 'error' },
+    ];
+    const { byIndex, rest } = groupIssuesByIndex(issues, 'strategies');
+    assert.deepEqual([...byIndex.keys()], [0, 2]);
+    assert.deepEqual(byIndex.get(0)!.map(i => i.path), ['tone', 'scores.authority']);
+    assert.deepEqual(byIndex.get(2)!.map(i => i.path), ['']);
+    assert.deepEqual(rest.map(i => i.path), ['analysis.summary', 'strategiesExtra[1].tone']);
+});
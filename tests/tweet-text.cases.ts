@@ -0,0 +1,72 @@
+import { type ParsedTweet } from '../services/tweet-text';
+
+/**
+ * Conformance corpus for `parseTweet`, covering the weighted length and validity fields
+ * of twitter-text's conformance/validate.yml (v3 config). Each case lists only the fields
+ * it asserts on; tweet-text.test.ts also checks every case against the upstream library.
+ */
+export interface TweetTextConformanceCase {
+    description: string;
+    text: string;
+    expected: Partial<Pick<ParsedTweet, 'weightedLength' | 'valid' | 'permillage'>> & {
+        validRangeEnd?: number;
+    };
+}
+
+export const TWEET_TEXT_CONFORMANCE_CASES: TweetTextConformanceCase[] = [
+    // Plain text and limits
+    { description: 'Empty text is invalid', text: '', expected: { weightedLength: 0, valid: false, permillage: 0 } },
+    { description: 'Regular ASCII tweet', text: 'This is a test.', expected: { weightedLength: 15, valid: true, permillage: 53 } },
+    { description: '280 ASCII characters are valid', text: 'a'.repeat(280), expected: { weightedLength: 280, valid: true, permillage: 1000, validRangeEnd: 279 } },
+    { description: '281 ASCII characters are invalid', text: 'a'.repeat(281), expected: { weightedLength: 281, valid: false, permillage: 1003, validRangeEnd: 279 } },
+    { description: 'Latin-1 and Latin extended count as 1', text: 'Ñandú café', expected: { weightedLength: 10, valid: true } },
+
+    // CJK and code point ranges
+    { description: '140 CJK characters are valid', text: 'の'.repeat(140), expected: { weightedLength: 280, valid: true, permillage: 1000 } },
+    { description: '141 CJK characters are invalid', text: 'の'.repeat(141), expected: { weightedLength: 282, valid: false, validRangeEnd: 139 } },
+    { description: 'Mixed ASCII and CJK', text: 'Hello 世界', expected: { weightedLength: 10, valid: true } },
+    { description: 'Astral CJK Extension B counts as 2 (one code point)', text: '𠀀𠀁', expected: { weightedLength: 4, valid: true } },
+    { description: 'Hyphen/quote range U+2010-U+201F counts as 1', text: '‐“”', expected: { weightedLength: 3, valid: true } },
+    { description: 'Ellipsis U+2026 is outside the light ranges', text: '…', expected: { weightedLength: 2, valid: true } },
+    { description: 'Prime range U+2032-U+2037 counts as 1', text: '′″', expected: { weightedLength: 2, valid: true } },
+
+    // Normalization
+    { description: 'NFC collapses e + combining acute', text: 'cafe\u0301', expected: { weightedLength: 4, valid: true } },
+    { description: 'Hangul jamo sequence composes to one syllable', text: '\u1100\u1161', expected: { weightedLength: 2, valid: true } },
+
+    // Emoji
+    { description: 'Single emoji counts as 2', text: '😀', expected: { weightedLength: 2, valid: true } },
+    { description: 'Skin tone modifier sequence counts as 2', text: '👍🏽', expected: { weightedLength: 2, valid: true } },
+    { description: 'ZWJ family sequence counts as 2', text: '👨‍👩‍👧‍👦', expected: { weightedLength: 2, valid: true } },
+    { description: 'ZWJ with skin tones counts as 2', text: '👩🏾‍💻', expected: { weightedLength: 2, valid: true } },
+    { description: 'Flag (regional indicator pair) counts as 2', text: '🇯🇵', expected: { weightedLength: 2, valid: true } },
+    { description: 'Keycap sequence counts as 2', text: '1️⃣', expected: { weightedLength: 2, valid: true } },
+    { description: 'Text-default pictograph with VS16 counts as 2', text: '❤️', expected: { weightedLength: 2, valid: true } },
+    { description: 'Text-default pictograph without VS16 is a plain character', text: '©', expected: { weightedLength: 1, valid: true } },
+    { description: 'Subdivision flag tag sequence counts as 2', text: '\u{1F3F4}\u{E0067}\u{E0062}\u{E0073}\u{E0063}\u{E0074}\u{E007F}', expected: { weightedLength: 2, valid: true } },
+    { description: '140 emoji are valid', text: '🔥'.repeat(140), expected: { weightedLength: 280, valid: true } },
+    { description: '141 emoji are invalid', text: '🔥'.repeat(141), expected: { weightedLength: 282, valid: false, validRangeEnd: 279 } },
+
+    // URLs
+    { description: 'URL with scheme counts as 23', text: 'https://example.com/a/very/long/path/that/is/well/over/twenty/three', expected: { weightedLength: 23, valid: true } },
+    { description: 'URL inside text', text: 'Hello https://t.co/abc world.', expected: { weightedLength: 36, valid: true } },
+    { description: 'Scheme-less URL with generic TLD counts as 23', text: 'see example.com', expected: { weightedLength: 27, valid: true } },
+    { description: 'Scheme-less URL with subdomain and ccTLD counts as 23', text: 'www.example.co.jp', expected: { weightedLength: 23, valid: true } },
+    { description: 'Scheme-less ccTLD domain without path counts as 23', text: 'twitter.jp', expected: { weightedLength: 23, valid: true } },
+    { description: 'Scheme-less ccTLD domain with path counts as 23', text: 'example.jp/path', expected: { weightedLength: 23, valid: true } },
+    { description: 'Newer generic TLD .agency counts as 23', text: 'foo.agency', expected: { weightedLength: 23, valid: true } },
+    { description: 'Newer generic TLD .academy counts as 23', text: 'example.academy', expected: { weightedLength: 23, valid: true } },
+    { description: 'Newer generic TLD .church counts as 23', text: 'my.church', expected: { weightedLength: 23, valid: true } },
+    { description: 'Newer generic TLD .photography counts as 23', text: 'test.photography', expected: { weightedLength: 23, valid: true } },
+    { description: 'Host links up to its last known TLD (.bar), the rest is text', text: 'foo.bar.baz', expected: { weightedLength: 27, valid: true } },
+    { description: 'IDN host counts as 23', text: 'café.com', expected: { weightedLength: 23, valid: true } },
+    { description: 'Unknown TLD is not a URL', text: 'file.notatld', expected: { weightedLength: 12, valid: true } },
+    { description: 'Trailing punctuation is not part of the URL', text: 'Go to example.com.', expected: { weightedLength: 30, valid: true } },
+    { description: 'Email address is not a URL', text: 'me@example.com', expected: { weightedLength: 14, valid: true } },
+    { description: 'Two URLs count as 23 each', text: 'https://a.com https://b.org', expected: { weightedLength: 47, valid: true } },
+    { description: 'Many URLs push the tweet over the limit', text: Array.from({ length: 13 }, (_, i) => `https://site${i}.com`).join(' '), expected: { weightedLength: 311, valid: false } },
+
+    // Invalid characters
+    { description: 'U+FFFE makes the tweet invalid', text: 'abc\uFFFE', expected: { valid: false } },
+    { description: 'BOM U+FEFF makes the tweet invalid', text: '\uFEFFabc', expected: { valid: false } },
+];
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import twitterText from 'twitter-text';
+import { parseTweet } from '../services/tweet-text';
+import { TWEET_TEXT_CONFORMANCE_CASES } from './tweet-text.cases';
+
+for (const { description, text, expected } of TWEET_TEXT_CONFORMANCE_CASES) {
+    test(description, () => {
+        const parsed = parseTweet(text);
+        const actual = {
+            weightedLength: parsed.weightedLength,
+            valid: parsed.valid,
+            permillage: parsed.permillage,
+            validRangeEnd: parsed.validRange.end,
+        };
+        const fields = Object.keys(expected) as (keyof typeof expected)[];
+        assert.deepEqual(Object.fromEntries(fields.map(f => [f, actual[f]])), expected);
+
+        // The upstream implementation is the reference, including for fields the case doesn't list
+        const reference = twitterText.parseTweet(text);
+        assert.deepEqual(actual, {
+            weightedLength: reference.weightedLength,
+            valid: reference.valid,
+            permillage: reference.permillage,
+            validRangeEnd: reference.validRangeEnd,
+        });
+    });
+}
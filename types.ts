@@ -1,6 +1,24 @@
 
 // Enhanced type definitions for APEX X Ultimate System v7.4
 
+// A model output field that failed validation and was coerced to a usable value
+export interface ValidationWarning {
+    path: string; // e.g. "scores.hook" or "abVariants[1].predictedConversion"
+    message: string;
+}
+
+// Stable error categories shared by the services and the UI (see services/errors.ts)
+export type ApexErrorCode =
+    | 'RATE_LIMITED'
+    | 'AUTH'
+    | 'MALFORMED_RESPONSE'
+    | 'SAFETY_BLOCKED'
+    | 'NETWORK'
+    | 'QUOTA_EXHAUSTED'
+    | 'SERVICE_UNAVAILABLE'
+    | 'X_API'
+    | 'UNKNOWN';
+
 export interface Scores {
     authority: number;
     hook: number;
@@ -64,6 +82,66 @@ export interface PostDeconstruction {
     heavyRankerFeatures: HeavyRankerFeatures;
 }
 
+// A post surrounding the one being replied to
+export interface ContextPost {
+    authorHandle: string;
+    text: string;
+}
+
+// Where the target post sits in its conversation
+export interface ConversationContext {
+    parents: ContextPost[]; // oldest first; the last entry is the post the target replies to
+    quoted?: ContextPost;
+    topReplies: ContextPost[]; // existing replies under the target, most engaged first
+}
+
+// An image attached to a post. Pasted/uploaded images carry `data`; X media carry `url` until fetched.
+export interface MediaAttachment {
+    mimeType: string;
+    data?: string; // base64 without the data: URL prefix
+    url?: string;
+    altText?: string;
+}
+
+// A named account voice that conditions generation (stored locally, see services/voice-profiles.ts)
+export interface VoiceProfile {
+    id: string;
+    name: string;
+    tone: string; // e.g. "dry, precise, quietly confident"
+    personaBio: string;
+    expertiseAreas: string[];
+    vocabulary: string[]; // preferred terms and phrasings
+    exampleReplies: string[];
+    forbiddenWords: string[];
+    emojiPolicy: 'none' | 'sparing' | 'free';
+    maxLength?: number; // preferred weighted length, below the X limit
+    builtIn?: boolean;
+}
+
+// Post-generation check of a reply against the selected voice profile
+export interface VoiceAdherence {
+    profileId: string;
+    score: number; // 0-100
+    violations: string[];
+}
+
+// Result of local language identification (see services/language.ts)
+export interface DetectedLanguage {
+    code: string; // ISO 639-1, or 'und' when undetermined
+    name: string;
+    confidence: number; // 0-1
+}
+
+// Everything the user supplies for one reply-generation run
+export interface PostAnalysisInput {
+    postText: string;
+    authorHandle: string;
+    context?: ConversationContext;
+    media?: MediaAttachment[];
+    voiceProfileId?: string;
+    targetLanguage?: string; // ISO 639-1 code, or 'auto' to reply in the post's language
+}
+
 export interface PostAnalysis {
     wordCount: number;
     sophistication: 'LOW' | 'MEDIUM' | 'HIGH' | 'EXPERT';
@@ -73,6 +151,11 @@ export interface PostAnalysis {
     originalAuthorHandle: string;
     estimatedReach?: number;
     postType?: 'thread' | 'single' | 'reply' | 'quote' | 'media';
+    conversationContext?: ConversationContext;
+    mediaDescription?: string; // what the attached images show, as read by the model
+    mediaCount?: number;
+    detectedLanguage?: DetectedLanguage;
+    replyLanguage?: string; // ISO 639-1 code the replies were written in
     timeOfPosting?: Date;
     engagementMetrics?: {
         likes: number;
@@ -80,6 +163,7 @@ export interface PostAnalysis {
         replies: number;
         views?: number;
     };
+    validationWarnings?: ValidationWarning[];
 }
 
 export interface ABVariant {
@@ -89,6 +173,7 @@ export interface ABVariant {
     predictedConversion: number; // Probability of Like/Reply
     rationale: string;
     trafficAllocation: number; // Percentage 0-100 (Diffy simulation)
+    voiceAdherence?: VoiceAdherence; // set when a voice profile was active
 }
 
 export interface ReplyStrategy {
@@ -104,7 +189,7 @@ export interface ReplyStrategy {
     reasoning: string;
     confidence: number;
     authorReplyProbability: number;
-    strategyCategory: 'analytical' | 'contrarian' | 'supportive' | 'challenging' | 'educational';
+    strategyCategory: StrategyCategory;
     optimalTiming: string;
     fallbackVariations: string[];
     abVariants?: [ABVariant, ABVariant]; // New: A/B Testing
@@ -114,6 +199,49 @@ export interface ReplyStrategy {
         worstCase: string;
         mostLikely: string;
     };
+    validationWarnings?: ValidationWarning[]; // Fields coerced by the schema validator
+    voiceAdherence?: VoiceAdherence;
+    refinement?: { feedback: string; refinedAt: string }; // set when this version came from "Refine"
+    history?: StrategyVersion[]; // earlier versions, oldest first
+}
+
+// A superseded version of a refined strategy
+export type StrategyVersion = Omit<ReplyStrategy, 'history'>;
+
+export type StrategyCategory = 'analytical' | 'contrarian' | 'supportive' | 'challenging' | 'educational';
+
+// An entry of the strategy catalog (see services/strategy-catalog.ts)
+export interface StrategyDefinition {
+    id: string; // what the model returns in ReplyStrategy.strategy
+    name: string;
+    icon: string;
+    description: string;
+    guidance: string; // prompt instructions for writing this kind of reply
+    category: StrategyCategory;
+    enabled: boolean; // enabled strategies are the ones generateReplies asks for
+    builtIn?: boolean;
+}
+
+// A reply session kept in the local archive (see services/analysis-archive.ts)
+export interface ArchivedAnalysis {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    analysis: PostAnalysis;
+    strategies: ReplyStrategy[];
+    voiceProfileId?: string;
+    targetLanguage?: string;
+    media?: MediaAttachment[]; // what the analysis was run with, so a retry sends it again
+    usage: ArchivedUsage[]; // replies that were copied or posted, oldest first
+}
+
+export interface ArchivedUsage {
+    strategy: string; // ReplyStrategy.strategy
+    variant: 'primary' | 'A' | 'B';
+    action: 'copied' | 'posted';
+    text: string;
+    at: number;
+    replyId?: string; // for posted replies
 }
 
 export interface GeminiResponse {
@@ -126,6 +254,16 @@ export interface Milestone {
     date: string;
     event: string;
     details: string;
+    dateRange?: DateRange; // `date` normalized by services/date-range.ts
+}
+
+// Inclusive ISO (YYYY-MM-DD) dates parsed from free text
+export interface DateRange {
+    start: string;
+    end: string;
+    granularity: 'day' | 'week' | 'month' | 'quarter' | 'half' | 'year';
+    confidence: number; // 0-1; lower for vague or year-less dates
+    kind: 'point' | 'range' | 'week' | 'deadline';
 }
 
 export interface DocumentAnalysis {
@@ -134,8 +272,164 @@ export interface DocumentAnalysis {
     objectives: string[];
     milestones: Milestone[];
     modelsAndApproaches: string[];
-    keyResources: { name: string; link?: string; }[];
+    keyResources: KeyResource[];
     submissionRequirements: string[];
+    chunks?: DocumentChunkInfo[]; // sections the document was split into for analysis
+    sources?: DocumentSourceMap;
+    reconciliationNotes?: string[]; // conflicts found while merging chunk results
+    failedChunks?: number[]; // sections that could not be analyzed; such results are never cached
+    conversation?: DocumentQAMessage[]; // follow-up Q&A, stored with the analysis
+    templateId?: string; // absent for the built-in competition brief template
+    fields?: Record<string, TemplateFieldValue>; // custom template results, by field key
+    fieldSources?: Record<string, number[][]>; // per list item, or a single entry for scalars
+    thread?: DocumentThread; // X thread written from the analysis, stored with it
+    references?: DocumentSource[]; // the document's own Sources list / footnotes
+    citationWarnings?: string[]; // dangling citations and sources nothing cites
+}
+
+export interface KeyResource {
+    name: string;
+    link?: string;
+    citations?: number[]; // indexes into DocumentAnalysis.references
+    citedBy?: string[]; // sentences of the document that cite it
+}
+
+// A numbered entry of a document's Sources/References list, or a Markdown footnote
+export interface DocumentSource {
+    number: number; // as cited in the text, e.g. 3 for [3]
+    label: string;
+    link?: string; // bare URL or domain, like KeyResource.link
+    citedBy: string[]; // citing sentences, markers removed
+    section?: string; // bundled file it belongs to, when several have their own lists
+}
+
+// One post of a thread, scored like a reply strategy
+export interface ThreadPost {
+    text: string; // body, without the "n/total" marker
+    weightedLength: number; // as published, marker included
+    scores?: Scores;
+    sanctum?: SanctumCheck;
+    stale?: boolean; // edited since it was last scored
+}
+
+export interface DocumentThread {
+    posts: ThreadPost[];
+    numbered: boolean;
+    generatedAt: string; // ISO timestamp
+    droppedPosts?: number; // posts past MAX_THREAD_POSTS left out when it was generated
+}
+
+// Comparing two analyzed versions of a document (see services/analysis-diff.ts)
+export interface TextDiffSegment {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+export interface ListItemChange {
+    kind: 'added' | 'removed' | 'modified';
+    before?: string;
+    after?: string;
+}
+
+export interface MilestoneChange {
+    kind: 'added' | 'removed' | 'moved' | 'modified';
+    before?: Milestone;
+    after?: Milestone;
+    shiftDays?: number; // for moved milestones with parsed dates; positive means later
+}
+
+export interface FieldChange {
+    key: string;
+    label: string;
+    before: TemplateFieldValue | undefined;
+    after: TemplateFieldValue | undefined;
+}
+
+export interface AnalysisDiff {
+    titleChanged: boolean;
+    summaryChanged: boolean;
+    milestones: MilestoneChange[];
+    lists: Partial<Record<'objectives' | 'submissionRequirements' | 'modelsAndApproaches' | 'keyResources', ListItemChange[]>>;
+    fields: FieldChange[];
+    changeCount: number;
+}
+
+export interface DocumentComparison {
+    before: DocumentAnalysis;
+    after: DocumentAnalysis;
+    beforeText: string;
+    afterText: string;
+    diff: AnalysisDiff;
+}
+
+// User-defined extraction templates (see services/document-templates.ts)
+export type TemplateFieldType = 'text' | 'number' | 'date' | 'boolean' | 'url';
+
+export type TemplateScalar = string | number | boolean | null;
+export type TemplateFieldValue = TemplateScalar | TemplateScalar[];
+
+export interface TemplateField {
+    key: string; // identifier used in the response schema
+    label: string;
+    type: TemplateFieldType;
+    description: string; // tells the model what to extract
+    list: boolean;
+    required?: boolean;
+}
+
+export interface DocumentTemplate {
+    id: string;
+    name: string;
+    description: string;
+    fields: TemplateField[];
+    builtIn?: boolean;
+}
+
+// A passage quoted from the source document to support an answer
+export interface DocumentQuote {
+    text: string;
+    verified: boolean; // found verbatim (ignoring whitespace and case) in the document
+    chunkIndex?: number;
+}
+
+export interface DocumentQAMessage {
+    id: string;
+    question: string;
+    answer: string;
+    answerable: boolean; // false when the document doesn't contain the answer
+    quotes: DocumentQuote[];
+    askedAt: string; // ISO timestamp
+}
+
+// Extracted list fields that carry a reference back to their source chunks
+export type DocumentListField = 'objectives' | 'milestones' | 'modelsAndApproaches' | 'keyResources' | 'submissionRequirements';
+
+// For each list field, the chunk indexes every item was extracted from (parallel to the list)
+export type DocumentSourceMap = Record<DocumentListField, number[][]>;
+
+export interface DocumentChunkInfo {
+    index: number;
+    heading?: string;
+    startOffset: number;
+    endOffset: number;
+}
+
+export interface DocumentChunkProgress extends DocumentChunkInfo {
+    status: 'pending' | 'running' | 'done' | 'failed';
+}
+
+// An uploaded file converted to normalized text (Markdown-style headings) for analysis
+export interface ParsedDocument {
+    name: string;
+    format: 'markdown' | 'html' | 'text' | 'csv' | 'pdf';
+    text: string;
+    pageCount?: number; // PDFs only
+    warnings?: string[];
+}
+
+export interface DocumentAnalysisProgress {
+    phase: 'map' | 'reduce' | 'done';
+    chunks: DocumentChunkProgress[];
 }
 
 // Automation types
@@ -167,10 +461,13 @@ export interface AutomationConfig {
     dryRun: boolean;
     targetAccounts?: string[];
     blacklistedAccounts?: string[];
+    voiceProfileId?: string;
+    targetLanguage?: string; // 'auto' (default) replies in each post's language
     safetyChecks: {
         requireManualApproval: boolean;
         minimumConfidenceScore: number;
         maximumRiskLevel: string;
+        minimumVoiceAdherence?: number; // 0-100; only applies when a voice profile is set
     };
 }
 
@@ -188,6 +485,9 @@ export interface PostCandidate {
     };
     eligibilityScore: number;
     reasons: string[];
+    lang?: string; // language X tagged the post with
+    context?: ConversationContext;
+    media?: MediaAttachment[];
 }
 
 export interface AutomationResult {
@@ -196,6 +496,7 @@ export interface AutomationResult {
     replyId?: string;
     strategy?: ReplyStrategy;
     error?: string;
+    errorCode?: ApexErrorCode;
     timestamp: Date;
     metrics?: {
         processingTime: number;